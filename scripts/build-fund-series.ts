@@ -0,0 +1,144 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import Papa from 'papaparse';
+import {
+    FUND_SERIES_CHUNK_SIZE,
+    FUND_SERIES_INDEX,
+    FUND_SERIES_SLUGS,
+    FUND_SERIES_VERSION,
+} from '../src/services/fundSeriesFormat.ts';
+import { compareDates } from '../src/utils/tradingDate.ts';
+import { FUND_HISTORY_FILE, HISTORY_DATE_COLUMN } from '../src/services/dataCatalog.ts';
+import type {
+    FundSeriesChunk,
+    FundSeriesIndex,
+    FundSeriesType,
+    FundSeriesTypeIndex,
+} from '../src/services/fundSeriesFormat.ts';
+
+// Converts the yearly wide history CSVs ("基金碼, 2025/12/3, 2025/12/2, ...") into the columnar,
+// pre-indexed series read by FundDataService. `npm run build` runs it so the deployed series always match
+// the CSVs; the output is not committed. Run it directly to use the series with the dev server:
+//   npm run build:fund-series
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const DATA_DIR = path.join(__dirname, '../public/data/fund');
+const OUTPUT_DIR = path.join(DATA_DIR, 'series');
+
+const parseValue = (cell: string | undefined): number | null => {
+    if (!cell) return null;
+    const value = parseFloat(cell.replace(/,/g, '').trim());
+    return isNaN(value) ? null : value;
+};
+
+// fundId -> (date -> value) for one CSV; files are read oldest first so later files win on overlap
+function readHistoryFile(file: string, into: Map<string, Map<string, number>>, dates: Set<string>) {
+    const text = fs.readFileSync(path.join(DATA_DIR, file), 'utf-8');
+    const rows = Papa.parse<string[]>(text, { header: false, skipEmptyLines: true }).data;
+
+    const headerIndex = rows.findIndex((row, i) => i < 10 && row[0]?.replace(/^\uFEFF/, '').trim() === '基金碼');
+    if (headerIndex === -1) {
+        console.error(`Skipping ${file}: no 基金碼 header row`);
+        return;
+    }
+
+    const header = rows[headerIndex].map(h => h.trim());
+    const dateColumns = header
+        .map((name, index) => ({ name, index }))
+        .filter(col => HISTORY_DATE_COLUMN.test(col.name));
+
+    rows.slice(headerIndex + 1).forEach(row => {
+        const fundId = row[0]?.trim();
+        if (!fundId) return;
+
+        dateColumns.forEach(({ name, index }) => {
+            const value = parseValue(row[index]);
+            if (value === null) return;
+            if (!into.has(fundId)) into.set(fundId, new Map());
+            into.get(fundId)!.set(name, value);
+            dates.add(name);
+        });
+    });
+}
+
+function buildType(type: FundSeriesType, files: string[]): FundSeriesTypeIndex | null {
+    const values = new Map<string, Map<string, number>>();
+    const dateSet = new Set<string>();
+    files.forEach(file => readHistoryFile(file, values, dateSet));
+    if (values.size === 0) return null;
+
+    const dates = Array.from(dateSet).sort(compareDates);
+    const dateIndex = new Map(dates.map((date, i) => [date, i]));
+    const fundIds = Array.from(values.keys()).sort();
+
+    const chunks: string[] = [];
+    const funds: Record<string, number> = {};
+    for (let offset = 0; offset < fundIds.length; offset += FUND_SERIES_CHUNK_SIZE) {
+        const chunkName = `${FUND_SERIES_SLUGS[type]}-${String(chunks.length).padStart(3, '0')}.json`;
+        const chunk: FundSeriesChunk = {};
+
+        fundIds.slice(offset, offset + FUND_SERIES_CHUNK_SIZE).forEach(fundId => {
+            const series = values.get(fundId)!;
+            const positions = Array.from(series.keys()).map(date => dateIndex.get(date)!);
+            const start = Math.min(...positions);
+            const end = Math.max(...positions);
+
+            const column: (number | null)[] = new Array(end - start + 1).fill(null);
+            series.forEach((value, date) => {
+                column[dateIndex.get(date)! - start] = value;
+            });
+
+            chunk[fundId] = { start, values: column };
+            funds[fundId] = chunks.length;
+        });
+
+        fs.writeFileSync(path.join(OUTPUT_DIR, chunkName), JSON.stringify(chunk), 'utf-8');
+        chunks.push(chunkName);
+    }
+
+    console.log(`${type}: ${fundIds.length} funds, ${dates.length} dates, ${chunks.length} chunks`);
+    return { dates, chunks, funds };
+}
+
+function buildFundSeries() {
+    if (!fs.existsSync(DATA_DIR)) {
+        console.error(`Directory not found: ${DATA_DIR}`);
+        process.exit(1);
+    }
+
+    // Rebuild from scratch so chunks of removed funds don't linger
+    fs.rmSync(OUTPUT_DIR, { recursive: true, force: true });
+    fs.mkdirSync(OUTPUT_DIR, { recursive: true });
+
+    const filesByType = new Map<FundSeriesType, string[]>();
+    fs.readdirSync(DATA_DIR).forEach(file => {
+        const match = file.match(FUND_HISTORY_FILE);
+        if (!match) return;
+        const type = match[3] as FundSeriesType;
+        if (!(type in FUND_SERIES_SLUGS)) {
+            console.warn(`Skipping ${file}: unknown history type ${type}`);
+            return;
+        }
+        if (!filesByType.has(type)) filesByType.set(type, []);
+        filesByType.get(type)!.push(file);
+    });
+
+    const index: FundSeriesIndex = {
+        version: FUND_SERIES_VERSION,
+        types: {},
+    };
+
+    filesByType.forEach((files, type) => {
+        // Oldest first (filenames start with the period start date)
+        const built = buildType(type, files.sort());
+        if (built) index.types[type] = built;
+    });
+
+    fs.writeFileSync(path.join(OUTPUT_DIR, FUND_SERIES_INDEX), JSON.stringify(index), 'utf-8');
+    console.log(`Fund series index written to ${path.join(OUTPUT_DIR, FUND_SERIES_INDEX)}`);
+}
+
+buildFundSeries();
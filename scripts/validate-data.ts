@@ -0,0 +1,181 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import Papa from 'papaparse';
+import {
+    checkColumns,
+    checkJson,
+    DATA_CATALOG,
+    dateCoverage,
+    HISTORY_DATE_COLUMN,
+    parseHistoryFileName,
+    sortableDate,
+} from '../src/services/dataCatalog.ts';
+import type { DatasetSpec, DateCoverage } from '../src/services/dataCatalog.ts';
+
+// Checks every file in the data catalog (src/services/dataCatalog.ts) against its spec: presence,
+// header columns, JSON shape and date coverage. Prints one line per file and exits non-zero when a
+// required file is missing or any file is invalid; warnings (e.g. no cash distributions) don't fail it.
+// Run before building or after replacing data files:
+//   node --experimental-strip-types scripts/validate-data.ts
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const PUBLIC_DIR = path.join(__dirname, '../public');
+const HEADER_SCAN_ROWS = 10;
+
+interface Report {
+    name: string;
+    spec: DatasetSpec;
+    missing: boolean;
+    problems: string[];
+    warnings: string[];
+    coverage: DateCoverage | null;
+}
+
+const readText = (spec: DatasetSpec, file: string) =>
+    new TextDecoder(spec.encoding ?? 'utf-8').decode(fs.readFileSync(file));
+
+const readRows = (text: string) => Papa.parse<string[]>(text, { header: false, skipEmptyLines: true }).data;
+
+const findHeaderRow = (rows: string[][], headerColumn: string) =>
+    rows.slice(0, HEADER_SCAN_ROWS).findIndex(row => row[0]?.replace(/^\uFEFF/, '').trim() === headerColumn);
+
+// Values of one column that aren't dates, summarized as a single problem
+const invalidDates = (column: string, values: string[]): string[] => {
+    const invalid = values.filter(value => value.trim() && !sortableDate(value));
+    return invalid.length > 0
+        ? [`${invalid.length} rows have an unrecognized ${column}, e.g. "${invalid[0]}"`]
+        : [];
+};
+
+function checkTable(spec: DatasetSpec, text: string): Pick<Report, 'problems' | 'warnings' | 'coverage'> {
+    const rows = readRows(text);
+    const headerIndex = spec.headerColumn ? findHeaderRow(rows, spec.headerColumn) : 0;
+    if (headerIndex === -1) {
+        return { problems: [`no header row starting with ${spec.headerColumn}`], warnings: [], coverage: null };
+    }
+
+    const header = rows[headerIndex].map(h => h.replace(/^\uFEFF/, '').trim());
+    const data = rows.slice(headerIndex + 1).filter(row => row[0]?.trim());
+    const problems = checkColumns(spec, header);
+    if (data.length === 0) problems.push('has no data rows');
+
+    const dateIndex = spec.dateColumn ? header.indexOf(spec.dateColumn) : -1;
+    if (dateIndex === -1) return { problems, warnings: [], coverage: null };
+    const dates = data.map(row => row[dateIndex] ?? '');
+    return {
+        problems: [...problems, ...invalidDates(spec.dateColumn!, dates)],
+        warnings: [],
+        coverage: dateCoverage(dates),
+    };
+}
+
+function checkJsonFile(spec: DatasetSpec, text: string): Pick<Report, 'problems' | 'warnings' | 'coverage'> {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch (error) {
+        return { problems: [`is not valid JSON: ${(error as Error).message}`], warnings: [], coverage: null };
+    }
+    const problems = checkJson(spec, data);
+    if (problems.length > 0) return { problems, warnings: [], coverage: null };
+    const dates = spec.dates ? spec.dates(data) : [];
+    return { problems, warnings: spec.warn?.(data) ?? [], coverage: dates.length > 0 ? dateCoverage(dates) : null };
+}
+
+// One report per history file, plus the manifest cross-check: listed files must exist and
+// every file on disk must be listed, or FundDataService never loads it
+function checkHistory(spec: DatasetSpec): Report[] {
+    const dir = path.join(PUBLIC_DIR, spec.path);
+    const onDisk = fs.existsSync(dir) ? fs.readdirSync(dir).filter(file => parseHistoryFileName(file)) : [];
+    const manifestFile = path.join(PUBLIC_DIR, DATA_CATALOG.fundManifest.path);
+    const manifest: unknown = fs.existsSync(manifestFile) ? JSON.parse(fs.readFileSync(manifestFile, 'utf-8')) : [];
+    const listed = Array.isArray(manifest)
+        ? manifest.map(entry => (entry as { file?: unknown })?.file).filter((file): file is string => typeof file === 'string')
+        : [];
+
+    const reports: Report[] = listed
+        .filter(file => !onDisk.includes(file))
+        .map(file => ({
+            name: `fundHistory ${file}`,
+            spec,
+            missing: true,
+            problems: ['listed in manifest.json but the file is missing'],
+            warnings: [],
+            coverage: null,
+        }));
+
+    onDisk.sort().forEach(file => {
+        const period = parseHistoryFileName(file)!;
+        const problems: string[] = [];
+        if (!listed.includes(file)) problems.push('not in manifest.json (run node scripts/generate-fund-manifest.js)');
+
+        const rows = readRows(readText(spec, path.join(dir, file)));
+        const headerIndex = findHeaderRow(rows, spec.headerColumn!);
+        let coverage: DateCoverage | null = null;
+        if (headerIndex === -1) {
+            problems.push(`no header row starting with ${spec.headerColumn}`);
+        } else {
+            const dates = rows[headerIndex].map(h => h.trim()).filter(h => HISTORY_DATE_COLUMN.test(h));
+            coverage = dateCoverage(dates);
+            if (!coverage) problems.push('no date columns');
+            const outside = dates.filter(date => {
+                const key = sortableDate(date);
+                return !key || key < period.startDate || key > period.endDate;
+            });
+            if (outside.length > 0) {
+                problems.push(`${outside.length} dates outside ${period.startDate}-${period.endDate}, e.g. ${outside[0]}`);
+            }
+            if (rows.slice(headerIndex + 1).every(row => !row[0]?.trim())) problems.push('has no fund rows');
+        }
+        reports.push({ name: `fundHistory ${file}`, spec, missing: false, problems, warnings: [], coverage });
+    });
+
+    if (onDisk.length === 0 && reports.length === 0) {
+        reports.push({ name: 'fundHistory', spec, missing: true, problems: [], warnings: [], coverage: null });
+    }
+    return reports;
+}
+
+function checkDataset(name: string, spec: DatasetSpec): Report[] {
+    if (spec.format === 'history') return checkHistory(spec);
+
+    const file = path.join(PUBLIC_DIR, spec.path);
+    if (!fs.existsSync(file)) return [{ name, spec, missing: true, problems: [], warnings: [], coverage: null }];
+
+    const text = readText(spec, file);
+    const result = spec.format === 'json' ? checkJsonFile(spec, text) : checkTable(spec, text);
+    return [{ name, spec, missing: false, ...result }];
+}
+
+function validateData() {
+    const reports = Object.entries(DATA_CATALOG).flatMap(([name, spec]) => checkDataset(name, spec));
+    let failures = 0;
+    let warnings = 0;
+
+    reports.forEach(report => {
+        const failed = report.problems.length > 0 || (report.missing && report.spec.required);
+        if (failed) failures++;
+        warnings += report.warnings.length;
+
+        const mark = failed ? '✗' : report.missing ? '-' : report.warnings.length > 0 ? '!' : '✓';
+        const status = report.missing
+            ? `missing${report.spec.required ? '' : ' (optional)'}`
+            : report.coverage
+                ? `${report.coverage.start} – ${report.coverage.end} (${report.coverage.count} date${report.coverage.count === 1 ? '' : 's'})`
+                : 'ok';
+        console.log(`${mark} ${report.name.padEnd(40)} ${status}`);
+        report.problems.forEach(problem => console.log(`    ${report.spec.path}: ${problem}`));
+        report.warnings.forEach(warning => console.log(`    ${report.spec.path}: warning: ${warning}`));
+    });
+
+    if (failures > 0) {
+        console.error(`\n${failures} of ${reports.length} data files failed validation`);
+        process.exit(1);
+    }
+    console.log(`\nAll ${reports.length} data files are valid${warnings > 0 ? ` (${warnings} warning${warnings === 1 ? '' : 's'})` : ''}`);
+}
+
+validateData();
@@ -1,7 +1,9 @@
 import React, { useEffect, useState, useMemo } from 'react';
-import Papa from 'papaparse';
-import { Search, X, Tag as TagIcon, Calendar, MessageSquare, ChevronLeft, ChevronRight, ChevronsLeft, ChevronsRight, Database, RefreshCw } from 'lucide-react';
-import { getArticles, saveArticles } from '../utils/db';
+import { Search, X, Tag as TagIcon, Calendar, MessageSquare, ChevronLeft, ChevronRight, ChevronsLeft, ChevronsRight, Database, RefreshCw, Trash2 } from 'lucide-react';
+import { getArticles, saveArticles, clearLocalCache, getCacheUsage } from '../utils/db';
+import { csvWorkerService } from '../services/CsvWorkerService';
+import { assertValid, checkColumns, DATA_CATALOG } from '../services/dataCatalog';
+import { datasetUrl } from '../services/datasetLoader';
 import './Articles.scss';
 
 interface ArticleData {
@@ -17,6 +19,8 @@ interface ArticleData {
     id?: string;
 }
 
+const formatMegabytes = (bytes: number) => (bytes / 1024 / 1024).toFixed(1);
+
 const Articles: React.FC = () => {
     const [articles, setArticles] = useState<ArticleData[]>([]);
     const [loading, setLoading] = useState(true);
@@ -32,6 +36,8 @@ const Articles: React.FC = () => {
     const [endDate, setEndDate] = useState('');
     const [selectedTagFilter, setSelectedTagFilter] = useState('');
     const [availableTags, setAvailableTags] = useState<string[]>([]);
+    const [reloadToken, setReloadToken] = useState(0);
+    const [cacheUsage, setCacheUsage] = useState<{ bytes: number, budget: number } | null>(null);
 
     useEffect(() => {
         console.log('Articles component mounted');
@@ -40,7 +46,7 @@ const Articles: React.FC = () => {
                 setLoadingStatus('Checking for updates...');
 
                 // 1. Check Last-Modified header from server
-                const headResponse = await fetch('data/history.csv', { method: 'HEAD' });
+                const headResponse = await fetch(datasetUrl(DATA_CATALOG.articles), { method: 'HEAD' });
                 const serverLastModified = headResponse.headers.get('Last-Modified');
 
                 // 2. Check IndexedDB
@@ -57,14 +63,21 @@ const Articles: React.FC = () => {
                     let allData: ArticleData[] = [];
                     let isFirstChunk = true;
 
-                    // 3. Fetch and Parse with Progressive Loading
-                    Papa.parse('data/history.csv', {
-                        download: true,
-                        header: true,
-                        skipEmptyLines: true,
-                        worker: false, // Disabled worker to prevent dev server issues
-                        chunk: (results) => {
-                            const chunkData = (results.data as ArticleData[]).filter(
+                    // 3. Fetch, then parse in the CSV worker with progressive loading
+                    try {
+                        const response = await fetch(datasetUrl(DATA_CATALOG.articles));
+                        if (!response.ok) {
+                            throw new Error(`Failed to fetch ${DATA_CATALOG.articles.path}: ${response.status}`);
+                        }
+                        const buffer = await response.arrayBuffer();
+                        let columnProblems = null as string[] | null;
+
+                        await csvWorkerService.parseRecords({ buffer }, (rows) => {
+                            // Check the header on the first chunk; a file without the expected columns is rejected below
+                            columnProblems ??= checkColumns(DATA_CATALOG.articles, Object.keys(rows[0] ?? {}));
+                            if (columnProblems.length > 0) return;
+
+                            const chunkData = (rows as unknown as ArticleData[]).filter(
                                 item => item.SUMMARY && item.原始檔案上傳時間
                             );
 
@@ -85,35 +98,38 @@ const Articles: React.FC = () => {
                                     isFirstChunk = false;
                                 }
                             }
-                        },
-                        complete: async () => {
-                            console.log('Download complete. Processing full dataset...');
-
-                            // Sort full dataset
-                            allData.sort((a, b) => {
-                                return new Date(b.原始檔案上傳時間).getTime() - new Date(a.原始檔案上傳時間).getTime();
-                            });
-
-                            // Update with full data
-                            setArticles(allData);
-                            processTags(allData);
-                            setIsBackgroundLoading(false);
-
-                            // Save to Cache
-                            if (serverLastModified) {
-                                console.log('Saving to IndexedDB...');
-                                await saveArticles(allData, serverLastModified);
-                                console.log('Saved to IndexedDB');
-                            }
-                        },
-                        error: (error: Error) => {
-                            console.error('Error parsing CSV:', error);
-                            setLoadingStatus('Error loading data.');
-                            setLoading(false);
-                            setIsBackgroundLoading(false);
+                        });
+
+                        if (!columnProblems) throw new Error(`${DATA_CATALOG.articles.path} has no data rows`);
+                        assertValid(DATA_CATALOG.articles, columnProblems);
+                        console.log('Download complete. Processing full dataset...');
+
+                        // Sort full dataset
+                        allData.sort((a, b) => {
+                            return new Date(b.原始檔案上傳時間).getTime() - new Date(a.原始檔案上傳時間).getTime();
+                        });
+
+                        // Update with full data
+                        setArticles(allData);
+                        processTags(allData);
+                        setIsBackgroundLoading(false);
+
+                        // Save to Cache
+                        if (serverLastModified) {
+                            console.log('Saving to IndexedDB...');
+                            await saveArticles(allData, serverLastModified);
+                            console.log('Saved to IndexedDB');
                         }
-                    });
+                    } catch (error) {
+                        console.error('Error parsing CSV:', error);
+                        setLoadingStatus('Error loading data.');
+                        setLoading(false);
+                        setIsBackgroundLoading(false);
+                    }
                 }
+
+                // Read after the save above so the figure includes the articles just cached
+                setCacheUsage(await getCacheUsage());
             } catch (error) {
                 console.error('Error in data loading flow:', error);
                 setLoadingStatus('Error initializing.');
@@ -122,7 +138,7 @@ const Articles: React.FC = () => {
         };
 
         loadData();
-    }, []);
+    }, [reloadToken]);
 
     const processTags = (data: ArticleData[]) => {
         const tags = new Set<string>();
@@ -140,6 +156,18 @@ const Articles: React.FC = () => {
         setLoading(false);
     };
 
+    const handleClearCache = async () => {
+        try {
+            await clearLocalCache();
+        } catch (error) {
+            console.error('Failed to clear local cache:', error);
+            return;
+        }
+        // Re-run the loader so the articles are fetched fresh from the server
+        setLoading(true);
+        setReloadToken(token => token + 1);
+    };
+
     // Reset page when filters change
     useEffect(() => {
         setCurrentPage(1);
@@ -244,6 +272,16 @@ const Articles: React.FC = () => {
                         {isBackgroundLoading ? <RefreshCw className="spin" size={12} /> : <Database size={12} />}
                         {isBackgroundLoading ? ` Loading History (${articles.length} loaded)...` : ` ${articles.length.toLocaleString()} Records Loaded`}
                     </span>
+                    {!isBackgroundLoading && (
+                        <button className="cache-clear-btn" onClick={handleClearCache} title="Clear local cache and re-download">
+                            <Trash2 size={12} /> Clear Cache
+                        </button>
+                    )}
+                    {!isBackgroundLoading && cacheUsage && (
+                        <span className="cache-usage" title="Local cache size (articles, fund history and chip data)">
+                            {formatMegabytes(cacheUsage.bytes)} / {formatMegabytes(cacheUsage.budget)} MB cached
+                        </span>
+                    )}
                 </p>
 
                 <div className="search-filter-container">
@@ -16,6 +16,7 @@ import {
 } from 'chart.js';
 import 'chartjs-adapter-date-fns';
 import annotationPlugin from 'chartjs-plugin-annotation';
+import { compareDates, dateKey, parseToDate } from '../utils/tradingDate';
 
 ChartJS.register(
     CategoryScale,
@@ -141,9 +142,8 @@ export const TimeHistoryChart: React.FC<HistoryProps> = ({ data, dataKey, label,
     const chartData = useMemo(() => {
         const validData = data.filter(d => {
             const val = d[dataKey];
-            const date = new Date(d.date);
-            return val != null && !isNaN(val as number) && !isNaN(date.getTime());
-        }).sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+            return val != null && !isNaN(val as number) && !isNaN(dateKey(d.date));
+        }).sort((a, b) => compareDates(a.date, b.date));
 
         if (validData.length === 0) return null;
 
@@ -152,7 +152,7 @@ export const TimeHistoryChart: React.FC<HistoryProps> = ({ data, dataKey, label,
                 type: 'scatter' as const,
                 label: label,
                 data: validData.map(d => ({
-                    x: d.date,
+                    x: parseToDate(d.date),
                     y: isPercentage ? (d[dataKey] as number) * 100 : (d[dataKey] as number),
                     broker: d.broker
                 })),
@@ -281,7 +281,7 @@ export const HistogramChart: React.FC<HistogramProps> = ({ data, dataKey, color
                         const idx = ctx[0].dataIndex;
                         const items = ctx[0].dataset.binItems[idx] as BrokerData[];
                         // Sort by date desc
-                        const sorted = [...items].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+                        const sorted = [...items].sort((a, b) => compareDates(b.date, a.date));
 
                         const maxItems = 8;
                         const displayItems = sorted.slice(0, maxItems);
@@ -323,7 +323,7 @@ export const LatestBarChart: React.FC<LatestBarProps> = ({ data, dataKey, label,
         data.forEach(d => {
             if (!d.broker) return;
             const existing = map.get(d.broker);
-            if (!existing || (new Date(d.date) > new Date(existing.date))) {
+            if (!existing || compareDates(d.date, existing.date) > 0) {
                 map.set(d.broker, d);
             }
         });
@@ -423,7 +423,7 @@ export const RatingDistribution: React.FC<ChartProps> = ({ data }) => {
         data.forEach(d => {
             if (!d.broker) return;
             const existing = map.get(d.broker);
-            if (!existing || (new Date(d.date) > new Date(existing.date))) {
+            if (!existing || compareDates(d.date, existing.date) > 0) {
                 map.set(d.broker, d);
             }
         });
@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { Search, RefreshCw, ArrowLeft } from 'lucide-react';
 import Papa from 'papaparse';
 import './Dashboard.scss';
+import { compareDates } from '../utils/tradingDate';
 import {
     SimpleScatterChart,
     TimeHistoryChart,
@@ -230,7 +231,7 @@ const Dashboard: React.FC = () => {
                                     <div className="summary-list">
                                         {filteredData
                                             .filter(d => d.summary && d.summary.trim() !== '' && d.summary !== '#DIV/0!' && d.summary !== '#VALUE!')
-                                            .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
+                                            .sort((a, b) => compareDates(b.date, a.date))
                                             .map((d, i) => (
                                                 <div key={i} className="summary-card">
                                                     <div className="meta">
@@ -0,0 +1,207 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Line } from 'react-chartjs-2';
+import '../utils/chartSetup';
+import type { TooltipItem } from 'chart.js';
+import type { RollingSeries } from './RollingMetricsChart';
+import { fundDataService } from '../services/FundDataService';
+import { simulateDca } from '../utils/dcaSimulator';
+import type { DcaOptions } from '../utils/dcaSimulator';
+import { parseToDate } from '../utils/tradingDate';
+import type { TradingCalendar } from '../utils/tradingDate';
+import './DcaSimulator.scss';
+
+interface DcaSimulatorProps {
+    series: RollingSeries[];
+}
+
+const formatAmount = (val: number) => Math.round(val).toLocaleString();
+const formatPercent = (val: number | null) => (val === null ? '-' : `${val.toFixed(2)}%`);
+const toneClass = (val: number | null) => (val === null ? '' : val >= 0 ? 'positive' : 'negative');
+
+// "6, 16, 26" -> [6, 16, 26]; anything outside 1-31 is dropped
+const parseDebitDays = (input: string): number[] =>
+    Array.from(new Set(input.split(/[,\s、]+/).map(Number).filter(d => Number.isInteger(d) && d >= 1 && d <= 31)));
+
+const DcaSimulator: React.FC<DcaSimulatorProps> = ({ series }) => {
+    const [amount, setAmount] = useState<number>(5000);
+    const [debitDaysInput, setDebitDaysInput] = useState<string>('6, 16, 26');
+    const [frontEndFee, setFrontEndFee] = useState<number>(0); // %
+    const [variable, setVariable] = useState<boolean>(false);
+    const [dropThreshold, setDropThreshold] = useState<number>(10); // %
+    const [boostMultiple, setBoostMultiple] = useState<number>(1.5);
+    const [chartKey, setChartKey] = useState<string | null>(null);
+    // Debit days on weekends and TWSE holidays move to the next session
+    const [calendar, setCalendar] = useState<TradingCalendar | undefined>(undefined);
+
+    useEffect(() => {
+        fundDataService.getTradingCalendar()
+            .then(setCalendar)
+            .catch(err => console.error('Failed to load trading calendar', err));
+    }, []);
+
+    const debitDays = useMemo(() => parseDebitDays(debitDaysInput), [debitDaysInput]);
+
+    const results = useMemo(() => {
+        const options: DcaOptions = {
+            amount,
+            debitDays,
+            frontEndFee: frontEndFee / 100,
+            variable: variable ? { dropThreshold: dropThreshold / 100, boostMultiple } : null,
+        };
+        return series.map(s => ({ ...s, result: simulateDca(s.data, options, calendar) }));
+    }, [series, amount, debitDays, frontEndFee, variable, dropThreshold, boostMultiple, calendar]);
+
+    if (series.length === 0) return <div className="dca-simulator"><span className="placeholder">請先選擇基金</span></div>;
+
+    const charted = results.find(r => r.key === chartKey) ?? results.find(r => r.result) ?? null;
+    const timeline = charted?.result?.timeline ?? [];
+
+    const chartData = {
+        datasets: [
+            {
+                label: '定期定額市值',
+                data: timeline.map(p => ({ x: parseToDate(p.date), y: p.value })),
+                borderColor: charted?.color ?? '#3b82f6',
+                backgroundColor: charted?.color ?? '#3b82f6',
+            },
+            {
+                label: '累計投入',
+                data: timeline.map(p => ({ x: parseToDate(p.date), y: p.invested })),
+                borderColor: '#94a3b8',
+                backgroundColor: '#94a3b8',
+                borderDash: [4, 4],
+            },
+            {
+                label: '單筆投入市值',
+                data: timeline.map(p => ({ x: parseToDate(p.date), y: p.lumpSumValue })),
+                borderColor: '#f59e0b',
+                backgroundColor: '#f59e0b',
+            },
+        ].map(d => ({ ...d, borderWidth: 1.5, tension: 0, pointRadius: 0, pointHoverRadius: 4 })),
+    };
+
+    const chartOptions = {
+        responsive: true,
+        maintainAspectRatio: false,
+        interaction: { mode: 'index' as const, intersect: false },
+        plugins: {
+            legend: { display: true, position: 'bottom' as const, labels: { boxWidth: 12 } },
+            tooltip: {
+                callbacks: {
+                    label: (ctx: TooltipItem<'line'>) => `${ctx.dataset.label}: ${formatAmount(ctx.parsed.y ?? 0)}`,
+                },
+            },
+        },
+        scales: {
+            x: {
+                type: 'time' as const,
+                time: { unit: 'month' as const, displayFormats: { month: 'yyyy/MM' } },
+                grid: { color: 'rgba(255, 255, 255, 0.1)' },
+            },
+            y: {
+                grid: { color: 'rgba(255, 255, 255, 0.1)' },
+                ticks: { callback: (value: string | number) => Number(value).toLocaleString() },
+            },
+        },
+    };
+
+    return (
+        <div className="dca-simulator">
+            <div className="dca-controls">
+                <label>
+                    每次扣款
+                    <input type="number" min="100" step="1000" value={amount} onChange={(e) => setAmount(Number(e.target.value))} />
+                </label>
+                <label title="每月扣款日，以逗號分隔；遇非交易日順延至下一個交易日">
+                    扣款日
+                    <input type="text" value={debitDaysInput} onChange={(e) => setDebitDaysInput(e.target.value)} />
+                </label>
+                <label>
+                    申購手續費
+                    <input type="number" min="0" step="0.1" value={frontEndFee} onChange={(e) => setFrontEndFee(Number(e.target.value))} />
+                    %
+                </label>
+                <label className="checkbox">
+                    <input type="checkbox" checked={variable} onChange={(e) => setVariable(e.target.checked)} />
+                    定期不定額
+                </label>
+                {variable && (
+                    <>
+                        <label title="扣款日價格低於平均成本此幅度以上時加碼">
+                            低於成本
+                            <input type="number" min="1" step="1" value={dropThreshold} onChange={(e) => setDropThreshold(Number(e.target.value))} />
+                            %
+                        </label>
+                        <label>
+                            加碼倍數
+                            <input type="number" min="1" step="0.5" value={boostMultiple} onChange={(e) => setBoostMultiple(Number(e.target.value))} />
+                            x
+                        </label>
+                    </>
+                )}
+            </div>
+
+            {debitDays.length === 0 && <div className="dca-error">請輸入 1-31 之間的扣款日</div>}
+
+            <div className="table-container">
+                <table className="dca-table">
+                    <thead>
+                        <tr>
+                            <th>Fund</th>
+                            <th>扣款次數</th>
+                            <th>投入總額</th>
+                            <th>手續費</th>
+                            <th>累積單位數</th>
+                            <th>平均成本</th>
+                            <th>期末市值</th>
+                            <th>報酬率</th>
+                            <th title="依實際扣款日期計算的年化內部報酬率">XIRR</th>
+                            <th title="同樣總額於首次扣款日一次投入">單筆報酬率</th>
+                            <th>單筆年化</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {results.map(({ key, label, color, result }) => (
+                            <tr key={key} className={charted?.key === key ? 'active' : ''} onClick={() => setChartKey(key)}>
+                                <td className="fund-cell">
+                                    <span className="series-dot" style={{ backgroundColor: color }}></span>
+                                    {label}
+                                </td>
+                                {result ? (
+                                    <>
+                                        <td>
+                                            {result.debits.length}
+                                            {variable && <small> (加碼 {result.debits.filter(d => d.boosted).length})</small>}
+                                        </td>
+                                        <td>{formatAmount(result.invested)}</td>
+                                        <td>{formatAmount(result.fees)}</td>
+                                        <td>{result.units.toFixed(2)}</td>
+                                        <td>{result.averageCost.toFixed(2)}</td>
+                                        <td>{formatAmount(result.finalValue)}</td>
+                                        <td className={toneClass(result.totalReturn)}>{formatPercent(result.totalReturn)}</td>
+                                        <td className={toneClass(result.xirr)}>{formatPercent(result.xirr)}</td>
+                                        <td className={toneClass(result.lumpSum.totalReturn)}>{formatPercent(result.lumpSum.totalReturn)}</td>
+                                        <td className={toneClass(result.lumpSum.annualizedReturn)}>{formatPercent(result.lumpSum.annualizedReturn)}</td>
+                                    </>
+                                ) : (
+                                    <td colSpan={10} className="no-data">期間內沒有扣款</td>
+                                )}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+
+            {charted?.result && (
+                <div className="dca-chart-card">
+                    <h3>{charted.label}：定期定額 vs 單筆投入</h3>
+                    <div className="dca-chart">
+                        <Line data={chartData} options={chartOptions} />
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default DcaSimulator;
@@ -0,0 +1,130 @@
+import React, { useMemo, useState } from 'react';
+import { Line } from 'react-chartjs-2';
+import '../utils/chartSetup';
+import type { TooltipItem } from 'chart.js';
+import type { RollingSeries } from './RollingMetricsChart';
+import { drawdownEpisodes, underwaterSeries } from '../utils/FinancialMetrics';
+import { parseToDate } from '../utils/tradingDate';
+import './DrawdownAnalysis.scss';
+
+interface DrawdownAnalysisProps {
+    series: RollingSeries[];
+}
+
+const EPISODE_LIMITS = [5, 10, 20];
+
+// Translucent fill for the area under water
+const withAlpha = (hex: string, alpha: number) => {
+    const n = parseInt(hex.slice(1), 16);
+    return `rgba(${(n >> 16) & 255}, ${(n >> 8) & 255}, ${n & 255}, ${alpha})`;
+};
+
+const DrawdownAnalysis: React.FC<DrawdownAnalysisProps> = ({ series }) => {
+    const [selectedKey, setSelectedKey] = useState<string | null>(null);
+    const [limit, setLimit] = useState<number>(5);
+
+    const underwater = useMemo(() => series.map(s => ({ ...s, points: underwaterSeries(s.data) })), [series]);
+
+    const selected = series.find(s => s.key === selectedKey) ?? series[0] ?? null;
+    const episodes = useMemo(() => (selected ? drawdownEpisodes(selected.data, limit) : []), [selected, limit]);
+
+    if (series.length === 0) return null;
+
+    const chartData = {
+        datasets: underwater.map(s => ({
+            label: s.label,
+            data: s.points.map(p => ({ x: parseToDate(p.date), y: p.drawdown })),
+            borderColor: s.color,
+            backgroundColor: withAlpha(s.color, 0.15),
+            borderWidth: 1.5,
+            fill: 'origin' as const,
+            tension: 0,
+            pointRadius: 0,
+            pointHoverRadius: 4,
+        })),
+    };
+
+    const chartOptions = {
+        responsive: true,
+        maintainAspectRatio: false,
+        interaction: { mode: 'index' as const, intersect: false },
+        plugins: {
+            legend: { display: true, position: 'bottom' as const, labels: { boxWidth: 12 } },
+            tooltip: {
+                callbacks: {
+                    label: (ctx: TooltipItem<'line'>) => `${ctx.dataset.label}: ${(ctx.parsed.y ?? 0).toFixed(2)}%`,
+                },
+            },
+        },
+        scales: {
+            x: {
+                type: 'time' as const,
+                time: { unit: 'month' as const, displayFormats: { month: 'yyyy/MM' } },
+                grid: { color: 'rgba(255, 255, 255, 0.1)' },
+            },
+            y: {
+                max: 0,
+                grid: { color: 'rgba(255, 255, 255, 0.1)' },
+                ticks: { callback: (value: string | number) => `${value}%` },
+            },
+        },
+    };
+
+    return (
+        <div className="drawdown-analysis">
+            <div className="drawdown-header">
+                <h3>Underwater Chart</h3>
+                <span className="drawdown-hint">距離前高的跌幅，回到 0 代表創新高</span>
+            </div>
+            <div className="underwater-chart">
+                <Line data={chartData} options={chartOptions} />
+            </div>
+
+            <div className="drawdown-header">
+                <h3>Drawdown Episodes</h3>
+                <div className="drawdown-controls">
+                    <select value={selected?.key ?? ''} onChange={(e) => setSelectedKey(e.target.value)}>
+                        {series.map(s => <option key={s.key} value={s.key}>{s.label}</option>)}
+                    </select>
+                    <select value={limit} onChange={(e) => setLimit(Number(e.target.value))}>
+                        {EPISODE_LIMITS.map(n => <option key={n} value={n}>Top {n}</option>)}
+                    </select>
+                </div>
+            </div>
+            {episodes.length > 0 ? (
+                <table className="drawdown-table">
+                    <thead>
+                        <tr>
+                            <th>#</th>
+                            <th>高點日</th>
+                            <th>谷底日</th>
+                            <th>回復日</th>
+                            <th>跌幅</th>
+                            <th title="高點到回復 (或至今) 的日曆天數">期間 (天)</th>
+                            <th title="高點到谷底的日曆天數">下跌 (天)</th>
+                            <th title="谷底回到前高的日曆天數">回復 (天)</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {episodes.map((episode, index) => (
+                            <tr key={episode.peakDate}>
+                                <td>{index + 1}</td>
+                                <td>{episode.peakDate}</td>
+                                <td>{episode.troughDate}</td>
+                                <td>{episode.recoveryDate ?? <span className="unrecovered">尚未回復</span>}</td>
+                                <td className="negative">-{episode.depth.toFixed(2)}%</td>
+                                <td>{episode.length}</td>
+                                <td>{episode.daysToTrough}</td>
+                                <td>{episode.daysToRecover ?? '-'}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            ) : (
+                <span className="placeholder">此期間沒有回撤</span>
+            )}
+        </div>
+    );
+};
+
+export default DrawdownAnalysis;
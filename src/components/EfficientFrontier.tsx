@@ -0,0 +1,200 @@
+import React, { useMemo, useState } from 'react';
+import { Scatter } from 'react-chartjs-2';
+import '../utils/chartSetup';
+import type { ChartOptions, TooltipItem } from 'chart.js';
+import type { RollingSeries } from './RollingMetricsChart';
+import { estimateAssetStats, MIN_OPTIMIZER_OBSERVATIONS, optimizePortfolio } from '../utils/portfolioOptimizer';
+import type { OptimizedPortfolio, OptimizerResult } from '../utils/portfolioOptimizer';
+import type { MetricsConfig } from '../utils/FinancialMetrics';
+import './EfficientFrontier.scss';
+
+interface EfficientFrontierProps {
+    series: RollingSeries[];
+    aligned: { dates: string[]; values: (number | null)[][] }; // series on the comparison chart's date grid
+    config: MetricsConfig;
+}
+
+interface FrontierPoint {
+    x: number;
+    y: number;
+    name: string;
+    sharpeRatio: number | null;
+}
+
+const PORTFOLIOS = [
+    { id: 'minVariance', label: '最小變異', color: '#10b981', pointStyle: 'triangle' },
+    { id: 'maxSharpe', label: '最大夏普', color: '#f59e0b', pointStyle: 'star' },
+    { id: 'riskParity', label: '風險平價', color: '#8b5cf6', pointStyle: 'rectRot' },
+] as const;
+
+const toPoint = (p: OptimizedPortfolio, name: string): FrontierPoint => ({
+    x: p.volatility,
+    y: p.expectedReturn,
+    name,
+    sharpeRatio: p.sharpeRatio,
+});
+
+const EfficientFrontier: React.FC<EfficientFrontierProps> = ({ series, aligned, config }) => {
+    const [minWeight, setMinWeight] = useState<number>(0); // %
+    const [maxWeight, setMaxWeight] = useState<number>(100); // %
+
+    const stats = useMemo(() => estimateAssetStats(aligned.dates, aligned.values, config), [aligned, config]);
+
+    const optimized = useMemo((): { result: OptimizerResult | null; error: string } => {
+        if (!stats) return { result: null, error: '' };
+        try {
+            return {
+                result: optimizePortfolio(stats, { min: minWeight / 100, max: maxWeight / 100 }, config.riskFreeRate),
+                error: '',
+            };
+        } catch (err) {
+            return { result: null, error: err instanceof Error ? err.message : String(err) };
+        }
+    }, [stats, minWeight, maxWeight, config.riskFreeRate]);
+
+    if (series.length < 2) return null;
+
+    const { result, error } = optimized;
+
+    const chartData = result ? {
+        datasets: [
+            {
+                label: '效率前緣',
+                data: result.frontier.map(p => toPoint(p, '效率前緣')),
+                borderColor: '#3b82f6',
+                backgroundColor: '#3b82f6',
+                showLine: true,
+                borderWidth: 2,
+                pointRadius: 0,
+                pointHoverRadius: 3,
+            },
+            ...series.map((s, i) => ({
+                label: s.label,
+                data: [toPoint(result.assets[i], s.label)],
+                borderColor: s.color,
+                backgroundColor: s.color,
+                pointRadius: 6,
+                pointHoverRadius: 8,
+            })),
+            ...PORTFOLIOS.map(p => ({
+                label: p.label,
+                data: [toPoint(result[p.id], p.label)],
+                borderColor: p.color,
+                backgroundColor: p.color,
+                pointStyle: p.pointStyle,
+                pointRadius: 9,
+                pointHoverRadius: 11,
+            })),
+        ],
+    } : null;
+
+    const options: ChartOptions<'scatter'> = {
+        responsive: true, maintainAspectRatio: false,
+        plugins: {
+            legend: { display: true, position: 'bottom', labels: { boxWidth: 12, usePointStyle: true } },
+            tooltip: {
+                callbacks: {
+                    label: (ctx: TooltipItem<'scatter'>) => {
+                        const pt = ctx.raw as FrontierPoint;
+                        return [
+                            pt.name,
+                            `預期報酬: ${pt.y.toFixed(2)}%`,
+                            `波動度: ${pt.x.toFixed(2)}%`,
+                            `Sharpe: ${pt.sharpeRatio !== null ? pt.sharpeRatio.toFixed(2) : '-'}`,
+                        ];
+                    }
+                }
+            }
+        },
+        scales: {
+            x: {
+                title: { display: true, text: '年化波動度' },
+                grid: { color: 'rgba(255,255,255,0.05)' },
+                ticks: { callback: (v: string | number) => Number(v).toFixed(2) + '%' },
+            },
+            y: {
+                title: { display: true, text: '年化預期報酬' },
+                grid: { color: 'rgba(255,255,255,0.05)' },
+                ticks: { callback: (v: string | number) => Number(v).toFixed(2) + '%' },
+            },
+        },
+    };
+
+    return (
+        <div className="efficient-frontier">
+            <div className="efficient-frontier-header">
+                <h3>Efficient Frontier</h3>
+                <div className="efficient-frontier-controls">
+                    <label>
+                        單檔下限
+                        <input type="number" min="0" max="100" step="5" value={minWeight} onChange={(e) => setMinWeight(Number(e.target.value))} />
+                        %
+                    </label>
+                    <label>
+                        單檔上限
+                        <input type="number" min="0" max="100" step="5" value={maxWeight} onChange={(e) => setMaxWeight(Number(e.target.value))} />
+                        %
+                    </label>
+                </div>
+            </div>
+
+            {!stats && (
+                <div className="placeholder">所選基金共同期間不足 {MIN_OPTIMIZER_OBSERVATIONS} 期報酬，無法估計共變異數</div>
+            )}
+            {error && <div className="frontier-error">{error}</div>}
+
+            {stats && result && chartData && (
+                <>
+                    <div className="frontier-note">
+                        估計期間 {stats.from} ~ {stats.to}，{stats.observations} 期報酬（算術平均年化）。僅做多；風險平價不套用權重上下限。
+                    </div>
+                    <div style={{ height: '300px' }}><Scatter data={chartData} options={options} /></div>
+
+                    <div className="table-container">
+                        <table className="frontier-table">
+                            <thead>
+                                <tr>
+                                    <th>Fund</th>
+                                    {PORTFOLIOS.map(p => <th key={p.id}>{p.label}</th>)}
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {series.map((s, i) => (
+                                    <tr key={s.key}>
+                                        <td className="fund-cell">
+                                            <span className="series-dot" style={{ backgroundColor: s.color }}></span>
+                                            {s.label}
+                                        </td>
+                                        {PORTFOLIOS.map(p => (
+                                            <td key={p.id} title="權重 / 風險貢獻">
+                                                {(result[p.id].weights[i] * 100).toFixed(1)}%
+                                                <small> / {result[p.id].riskContributions[i].toFixed(1)}%</small>
+                                            </td>
+                                        ))}
+                                    </tr>
+                                ))}
+                                <tr className="summary-row">
+                                    <td>預期報酬</td>
+                                    {PORTFOLIOS.map(p => <td key={p.id}>{result[p.id].expectedReturn.toFixed(2)}%</td>)}
+                                </tr>
+                                <tr className="summary-row">
+                                    <td>波動度</td>
+                                    {PORTFOLIOS.map(p => <td key={p.id}>{result[p.id].volatility.toFixed(2)}%</td>)}
+                                </tr>
+                                <tr className="summary-row">
+                                    <td>Sharpe</td>
+                                    {PORTFOLIOS.map(p => {
+                                        const sharpe = result[p.id].sharpeRatio;
+                                        return <td key={p.id}>{sharpe !== null ? sharpe.toFixed(2) : '-'}</td>;
+                                    })}
+                                </tr>
+                            </tbody>
+                        </table>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default EfficientFrontier;
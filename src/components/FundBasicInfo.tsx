@@ -1,17 +1,307 @@
-import React from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
+import { Line } from 'react-chartjs-2';
+import { Search, Building2, ShieldAlert, Calendar, Coins, Landmark, PlusCircle } from 'lucide-react';
+import '../utils/chartSetup';
+import { fundDataService } from '../services/FundDataService';
+import type { AnnualCostRatio, FundBasicInfo as FundInfo, FundFee, FundHolding, FundPortfolio, FundHistoryPoint } from '../services/FundDataService';
+import { calculateMetrics } from '../utils/FinancialMetrics';
+import { parseToDate } from '../utils/tradingDate';
+import './FundBasicInfo.scss';
+
+interface FundBasicInfoProps {
+    onAddToComparison?: (fund: FundInfo) => void;
+}
+
+interface FundProfile {
+    nav: FundHistoryPoint[];
+    marketPrice: FundHistoryPoint[];
+    fee: FundFee | null;
+    trailingCost: AnnualCostRatio | null;
+    holdings: FundHolding[];
+    portfolio: FundPortfolio | null;
+}
+
+const EMPTY_PROFILE: FundProfile = { nav: [], marketPrice: [], fee: null, trailingCost: null, holdings: [], portfolio: null };
+
+// One year of trading days for the mini chart
+const CHART_POINTS = 250;
+
+// Period behind an annual cost figure; fewer than 12 reported months are scaled up to a year
+const costBasisLabel = (cost: AnnualCostRatio | null) =>
+    !cost ? '無費用資料' : cost.months >= 12 ? '近 12 個月' : `近 ${cost.months} 個月年化`;
+
+const formatPercent = (val: number | null | undefined) => (val === null || val === undefined ? '-' : `${val.toFixed(2)}%`);
+
+const FundBasicInfo: React.FC<FundBasicInfoProps> = ({ onAddToComparison }) => {
+    const [funds, setFunds] = useState<FundInfo[]>([]);
+    const [searchQuery, setSearchQuery] = useState('');
+    const [selectedFund, setSelectedFund] = useState<FundInfo | null>(null);
+    const [profile, setProfile] = useState<FundProfile>(EMPTY_PROFILE);
+    const [loading, setLoading] = useState(false);
+
+    useEffect(() => {
+        fundDataService.getFundBasicInfo()
+            .then(list => {
+                setFunds(list);
+                // Start on 0050 if present, otherwise the first fund
+                setSelectedFund(current => current ?? list.find(f => f.id.startsWith('0050 ')) ?? list[0] ?? null);
+            })
+            .catch(error => console.error('Failed to load fund list', error));
+    }, []);
+
+    useEffect(() => {
+        if (!selectedFund) return;
+        const fundId = selectedFund.id;
+        let cancelled = false;
+
+        // Each source is optional: a fund may have no NAV file, no holdings filing, etc.
+        const safely = async <T,>(load: () => Promise<T>, fallback: T): Promise<T> => {
+            try {
+                return await load();
+            } catch (error) {
+                console.warn(`Profile data unavailable for ${fundId}`, error);
+                return fallback;
+            }
+        };
+
+        const fetchProfile = async () => {
+            setLoading(true);
+            const [nav, marketPrice, fees, trailingCost, holdings, portfolio] = await Promise.all([
+                safely(() => fundDataService.getFundHistory([fundId], '淨值'), []),
+                safely(() => fundDataService.getFundHistory([fundId], '市價'), []),
+                safely(() => fundDataService.getFundFees(), new Map<string, FundFee>()),
+                safely(() => fundDataService.getTrailingCostRatio(fundId), null),
+                safely(() => fundDataService.getFundHoldings(fundId), []),
+                safely(() => fundDataService.getFundPortfolio(fundId), null),
+            ]);
+            if (cancelled) return;
+
+            setProfile({
+                nav: nav[0]?.data ?? [],
+                marketPrice: marketPrice[0]?.data ?? [],
+                fee: fees.get(fundId) ?? null,
+                trailingCost,
+                holdings,
+                portfolio,
+            });
+            setLoading(false);
+        };
+
+        fetchProfile();
+        return () => { cancelled = true; };
+    }, [selectedFund]);
+
+    const searchResults = useMemo(() => {
+        if (!searchQuery) return [];
+        const query = searchQuery.toLowerCase();
+        return funds
+            .filter(f => f.id.toLowerCase().includes(query) || f.name.toLowerCase().includes(query))
+            .slice(0, 10);
+    }, [funds, searchQuery]);
+
+    // Prefer NAV for performance; listed funds without NAV data fall back to market price
+    const performanceSeries = profile.nav.length > 0 ? profile.nav : profile.marketPrice;
+    const performanceLabel = profile.nav.length > 0 ? '淨值' : '市價';
+    const metrics = useMemo(() => calculateMetrics(performanceSeries), [performanceSeries]);
+
+    const chartData = useMemo(() => {
+        const points = performanceSeries.slice(-CHART_POINTS);
+        return {
+            datasets: [{
+                label: performanceLabel,
+                data: points.map(p => ({ x: parseToDate(p.date), y: p.value })),
+                borderColor: '#3b82f6',
+                backgroundColor: 'rgba(59, 130, 246, 0.15)',
+                fill: true,
+                tension: 0.1,
+                pointRadius: 0,
+            }],
+        };
+    }, [performanceSeries, performanceLabel]);
+
+    const chartOptions = {
+        responsive: true,
+        maintainAspectRatio: false,
+        plugins: { legend: { display: false } },
+        scales: {
+            x: { type: 'time' as const, time: { unit: 'month' as const, displayFormats: { month: 'yyyy/MM' } } },
+            y: { grid: { color: 'rgba(255, 255, 255, 0.1)' } },
+        },
+    };
+
+    const latestNav = profile.nav[profile.nav.length - 1];
+    const latestPrice = profile.marketPrice[profile.marketPrice.length - 1];
+    const premium = latestNav && latestPrice && latestNav.date === latestPrice.date && latestNav.value > 0
+        ? ((latestPrice.value - latestNav.value) / latestNav.value) * 100
+        : null;
 
-const FundBasicInfo: React.FC = () => {
     return (
-        <div className="fund-basic-info" style={{ padding: '2rem', color: '#e2e8f0' }}>
-            <h2 style={{ fontSize: '1.875rem', fontWeight: 'bold', marginBottom: '1.5rem' }}>Fund Basic Information</h2>
-            <div style={{
-                backgroundColor: '#1e293b',
-                padding: '2rem',
-                borderRadius: '0.5rem',
-                border: '1px solid #334155'
-            }}>
-                <p style={{ color: '#94a3b8' }}>Content for Fund Basic Information will go here.</p>
+        <div className="fund-basic-info">
+            <div className="profile-search">
+                <Search className="search-icon" size={18} />
+                <input
+                    type="text"
+                    placeholder="Search Fund (Code/Name)..."
+                    value={searchQuery}
+                    onChange={(e) => setSearchQuery(e.target.value)}
+                />
+                {searchQuery && (
+                    <div className="profile-search-results">
+                        {searchResults.length > 0 ? searchResults.map(fund => (
+                            <div
+                                key={fund.id}
+                                className="result-item"
+                                onClick={() => {
+                                    setSelectedFund(fund);
+                                    setSearchQuery('');
+                                }}
+                            >
+                                <span className="result-code">{fund.id}</span>
+                                <span className="result-name">{fund.name}</span>
+                            </div>
+                        )) : (
+                            <div className="result-empty">No funds found.</div>
+                        )}
+                    </div>
+                )}
             </div>
+
+            {!selectedFund ? (
+                <div className="profile-empty">Loading fund list...</div>
+            ) : (
+                <div className="profile-grid">
+                    {/* Identity Card */}
+                    <div className="profile-card identity-card">
+                        <div className="identity-header">
+                            <div>
+                                <div className="fund-code">{selectedFund.id}</div>
+                                <h2>{selectedFund.name}</h2>
+                            </div>
+                            {onAddToComparison && (
+                                <button className="compare-btn" onClick={() => onAddToComparison(selectedFund)}>
+                                    <PlusCircle size={16} /> 加入比較
+                                </button>
+                            )}
+                        </div>
+                        <div className="identity-fields">
+                            <div><Building2 size={14} /> 經理公司<span>{selectedFund.manager || '-'}</span></div>
+                            <div><Landmark size={14} /> 保管機構<span>{selectedFund.custodian || '-'}</span></div>
+                            <div><ShieldAlert size={14} /> 風險等級<span>{selectedFund.riskLevel || '-'}</span></div>
+                            <div><Calendar size={14} /> 成立日期<span>{selectedFund.inceptionDate || '-'}</span></div>
+                            <div><Coins size={14} /> 計價幣別<span>{selectedFund.currency || 'TWD'}</span></div>
+                            <div>類型<span>{selectedFund.type || '-'}</span></div>
+                        </div>
+                    </div>
+
+                    {/* Latest Prices */}
+                    <div className="profile-card price-card">
+                        <h3>最新價格</h3>
+                        <div className="price-row">
+                            <span className="label">淨值</span>
+                            <span className="value">{latestNav ? latestNav.value.toFixed(2) : '-'}</span>
+                            <span className="date">{latestNav?.date}</span>
+                        </div>
+                        <div className="price-row">
+                            <span className="label">市價</span>
+                            <span className="value">{latestPrice ? latestPrice.value.toFixed(2) : '-'}</span>
+                            <span className="date">{latestPrice?.date}</span>
+                        </div>
+                        <div className="price-row">
+                            <span className="label">折溢價</span>
+                            <span className={`value ${premium !== null && premium >= 0 ? 'positive' : 'negative'}`}>{formatPercent(premium)}</span>
+                        </div>
+                    </div>
+
+                    {/* Fee Summary */}
+                    <div className="profile-card fee-card">
+                        <h3>費用摘要 {profile.fee?.month && <small>({profile.fee.month})</small>}</h3>
+                        <div className="price-row"><span className="label">年化總費用率 (TER)</span><span className="value">{formatPercent(profile.trailingCost?.expense)}</span><span className="date">{costBasisLabel(profile.trailingCost)}</span></div>
+                        <div className="price-row"><span className="label">年化總持有成本</span><span className="value">{formatPercent(profile.trailingCost?.total)}</span><span className="date">{costBasisLabel(profile.trailingCost)}</span></div>
+                        <div className="price-row"><span className="label">當月經理費</span><span className="value">{formatPercent(profile.fee?.managementFee)}</span></div>
+                        <div className="price-row"><span className="label">當月保管費</span><span className="value">{formatPercent(profile.fee?.custodianFee)}</span></div>
+                        <div className="price-row"><span className="label">當月直接交易成本率</span><span className="value">{formatPercent(profile.fee?.tradingCostRate)}</span></div>
+                    </div>
+
+                    {/* Mini Performance Chart */}
+                    <div className="profile-card chart-card-wide">
+                        <h3>近一年{performanceLabel}走勢</h3>
+                        <div className="mini-chart">
+                            {loading && <div className="loading-overlay">Loading Data...</div>}
+                            {performanceSeries.length > 0 ? (
+                                <Line data={chartData} options={chartOptions} />
+                            ) : (
+                                !loading && <span className="placeholder">無價格資料</span>
+                            )}
+                        </div>
+                        <div className="metric-strip">
+                            {[
+                                { label: '1M', value: metrics.roi1M },
+                                { label: '3M', value: metrics.roi3M },
+                                { label: '6M', value: metrics.roi6M },
+                                { label: '1Y', value: metrics.roi1Y },
+                                { label: 'Vol', value: metrics.volatility },
+                                { label: 'Max DD', value: metrics.maxDrawdown !== null ? -metrics.maxDrawdown : null },
+                            ].map(m => (
+                                <div key={m.label} className="metric">
+                                    <span className="label">{m.label}</span>
+                                    <span className={`value ${m.value !== null && m.value >= 0 ? 'positive' : 'negative'}`}>{formatPercent(m.value)}</span>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+
+                    {/* Top Holdings */}
+                    <div className="profile-card holdings-card">
+                        <h3>前十大持股 {profile.holdings[0] && <small>({profile.holdings[0].month})</small>}</h3>
+                        {profile.holdings.length > 0 ? (
+                            <table>
+                                <thead>
+                                    <tr><th>代碼</th><th>名稱</th><th>比率</th></tr>
+                                </thead>
+                                <tbody>
+                                    {profile.holdings.slice(0, 10).map(h => (
+                                        <tr key={h.stockCode}>
+                                            <td>{h.stockCode}</td>
+                                            <td>{h.stockName}</td>
+                                            <td>{formatPercent(h.weight)}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        ) : (
+                            <span className="placeholder">無持股資料</span>
+                        )}
+                    </div>
+
+                    {/* Allocation */}
+                    <div className="profile-card allocation-card">
+                        <h3>資產配置 {profile.portfolio && <small>({profile.portfolio.date})</small>}</h3>
+                        {profile.portfolio ? (
+                            <>
+                                {[
+                                    { label: '國內有價證券', value: profile.portfolio.domesticSecurities, color: '#3b82f6' },
+                                    { label: '國外投資', value: profile.portfolio.overseas, color: '#8b5cf6' },
+                                    { label: '短期投資 / 現金', value: profile.portfolio.shortTerm, color: '#10b981' },
+                                ].map(segment => (
+                                    <div key={segment.label} className="allocation-row">
+                                        <span className="label">{segment.label}</span>
+                                        <div className="bar">
+                                            <div style={{ width: `${Math.min(segment.value ?? 0, 100)}%`, background: segment.color }} />
+                                        </div>
+                                        <span className="value">{formatPercent(segment.value)}</span>
+                                    </div>
+                                ))}
+                                <div className="price-row">
+                                    <span className="label">基金淨資產 (千元)</span>
+                                    <span className="value">{profile.portfolio.netAssets?.toLocaleString() ?? '-'}</span>
+                                </div>
+                            </>
+                        ) : (
+                            <span className="placeholder">無投資組合資料</span>
+                        )}
+                    </div>
+                </div>
+            )}
         </div>
     );
 };
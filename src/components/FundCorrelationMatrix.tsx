@@ -0,0 +1,191 @@
+import React, { useMemo, useState } from 'react';
+import { Line } from 'react-chartjs-2';
+import '../utils/chartSetup';
+import type { TooltipItem } from 'chart.js';
+import type { RollingSeries } from './RollingMetricsChart';
+import { clusterOrder, correlationMatrix, gridReturns, rollingCorrelation } from '../utils/correlation';
+import type { CorrelationFrequency } from '../utils/correlation';
+import { parseToDate } from '../utils/tradingDate';
+import './FundCorrelationMatrix.scss';
+
+interface FundCorrelationMatrixProps {
+    series: RollingSeries[];
+    aligned: { dates: string[]; values: (number | null)[][] }; // series on the comparison chart's date grid
+}
+
+const WINDOWS = [
+    { label: '3M', months: 3 },
+    { label: '6M', months: 6 },
+    { label: '1Y', months: 12 },
+];
+
+// Diverging scale: blue for negative, red for positive correlation, transparent at zero
+const cellColor = (value: number | null): string => {
+    if (value === null) return 'transparent';
+    const alpha = Math.min(1, Math.abs(value)) * 0.85;
+    return value >= 0 ? `rgba(239, 68, 68, ${alpha})` : `rgba(59, 130, 246, ${alpha})`;
+};
+
+const FundCorrelationMatrix: React.FC<FundCorrelationMatrixProps> = ({ series, aligned }) => {
+    const [frequency, setFrequency] = useState<CorrelationFrequency>('daily');
+    const [clustered, setClustered] = useState<boolean>(true);
+    const [pair, setPair] = useState<[number, number] | null>(null);
+    const [windowMonths, setWindowMonths] = useState<number>(6);
+
+    const grid = useMemo(() => gridReturns(aligned.dates, aligned.values, frequency), [aligned, frequency]);
+    const { matrix, observations } = useMemo(() => correlationMatrix(grid.returns), [grid]);
+    const order = useMemo(
+        () => (clustered ? clusterOrder(matrix) : matrix.map((_, i) => i)),
+        [matrix, clustered]
+    );
+
+    // Default to the first two funds; drop a pair that no longer exists after the selection changed
+    const activePair: [number, number] | null = pair && pair[0] < series.length && pair[1] < series.length
+        ? pair
+        : series.length >= 2 ? [0, 1] : null;
+
+    const [pairA, pairB] = activePair ?? [-1, -1];
+    const rolling = useMemo(
+        () => (pairA >= 0 ? rollingCorrelation(grid, pairA, pairB, windowMonths) : []),
+        [grid, pairA, pairB, windowMonths]
+    );
+
+    if (series.length < 2) return null;
+
+    const rollingChartData = {
+        datasets: [{
+            label: activePair ? `${series[activePair[0]].label} × ${series[activePair[1]].label}` : '',
+            data: rolling.map(p => ({ x: parseToDate(p.date), y: p.value })),
+            borderColor: '#8b5cf6',
+            backgroundColor: '#8b5cf6',
+            borderWidth: 1.5,
+            tension: 0.1,
+            pointRadius: 0,
+            pointHoverRadius: 4,
+        }],
+    };
+
+    const rollingChartOptions = {
+        responsive: true,
+        maintainAspectRatio: false,
+        interaction: { mode: 'index' as const, intersect: false },
+        plugins: {
+            legend: { display: false },
+            tooltip: {
+                callbacks: {
+                    label: (ctx: TooltipItem<'line'>) => `ρ = ${(ctx.parsed.y ?? 0).toFixed(2)}`,
+                },
+            },
+        },
+        scales: {
+            x: {
+                type: 'time' as const,
+                time: { unit: 'month' as const, displayFormats: { month: 'yyyy/MM' } },
+                grid: { color: 'rgba(255, 255, 255, 0.1)' },
+            },
+            y: {
+                min: -1,
+                max: 1,
+                grid: { color: 'rgba(255, 255, 255, 0.1)' },
+            },
+        },
+    };
+
+    // Fund code plus 淨值/市價, from keys like "0050 元大台灣50-市價"
+    const shortLabel = (index: number) => {
+        const key = series[index].key;
+        return `${key.split(' ')[0]} ${key.slice(key.lastIndexOf('-') + 1)}`;
+    };
+
+    return (
+        <div className="fund-correlation">
+            <div className="fund-correlation-header">
+                <h3>Correlation Matrix</h3>
+                <div className="fund-correlation-controls">
+                    <button className={`toggle-btn ${frequency === 'daily' ? 'active' : ''}`} onClick={() => setFrequency('daily')}>日報酬</button>
+                    <button className={`toggle-btn ${frequency === 'weekly' ? 'active' : ''}`} onClick={() => setFrequency('weekly')}>週報酬</button>
+                    <span className="control-divider">|</span>
+                    <button
+                        className={`toggle-btn ${clustered ? 'active' : ''}`}
+                        onClick={() => setClustered(!clustered)}
+                        title="以階層式分群排序，相關性高的基金排在一起"
+                    >
+                        分群排序
+                    </button>
+                </div>
+            </div>
+
+            <div className="correlation-grid-wrapper">
+                <table className="correlation-grid">
+                    <thead>
+                        <tr>
+                            <th></th>
+                            {order.map(j => (
+                                <th key={series[j].key} title={series[j].label}>
+                                    <span className="series-dot" style={{ backgroundColor: series[j].color }}></span>
+                                    {shortLabel(j)}
+                                </th>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {order.map(i => (
+                            <tr key={series[i].key}>
+                                <th title={series[i].label}>
+                                    <span className="series-dot" style={{ backgroundColor: series[i].color }}></span>
+                                    {shortLabel(i)}
+                                </th>
+                                {order.map(j => {
+                                    const value = matrix[i][j];
+                                    const selected = activePair !== null && i !== j &&
+                                        ((activePair[0] === i && activePair[1] === j) || (activePair[0] === j && activePair[1] === i));
+                                    return (
+                                        <td
+                                            key={series[j].key}
+                                            className={`${i !== j ? 'clickable' : ''} ${selected ? 'selected' : ''}`}
+                                            style={{ backgroundColor: cellColor(value) }}
+                                            title={`${series[i].label} × ${series[j].label}\nn = ${observations[i][j]}`}
+                                            onClick={() => i !== j && setPair([i, j])}
+                                        >
+                                            {value === null ? '-' : value.toFixed(2)}
+                                        </td>
+                                    );
+                                })}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+
+            {activePair && (
+                <div className="rolling-correlation">
+                    <div className="fund-correlation-header">
+                        <h4>
+                            Rolling Correlation：{series[activePair[0]].label} × {series[activePair[1]].label}
+                        </h4>
+                        <div className="fund-correlation-controls">
+                            {WINDOWS.map(w => (
+                                <button
+                                    key={w.label}
+                                    className={`toggle-btn ${windowMonths === w.months ? 'active' : ''}`}
+                                    onClick={() => setWindowMonths(w.months)}
+                                >
+                                    {w.label}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                    <div className="rolling-correlation-chart">
+                        {rolling.length > 0 ? (
+                            <Line data={rollingChartData} options={rollingChartOptions} />
+                        ) : (
+                            <span className="placeholder">資料期間不足一個完整視窗</span>
+                        )}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default FundCorrelationMatrix;
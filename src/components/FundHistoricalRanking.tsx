@@ -1,16 +1,358 @@
-import React from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
+import { Line } from 'react-chartjs-2';
+import '../utils/chartSetup';
+import { fundDataService } from '../services/FundDataService';
+import type { FundBasicInfo, FundHistory, FundHistoryPoint } from '../services/FundDataService';
+import { calculateMetrics, calculateCalendarYearReturns, type FinancialMetrics } from '../utils/FinancialMetrics';
+import { addMonths, dateKey, endOfMonth, parseDateStrict, periodKey, sortByDate } from '../utils/tradingDate';
+import './FundHistoricalRanking.scss';
+
+type RollingWindow = '1M' | '3M' | '6M' | '1Y' | '2Y';
+type RankingWindow = RollingWindow | 'YTD' | `Y${number}`;
+
+interface RankedFund {
+    fundId: string;
+    name: string;
+    peerGroup: string;
+    value: number;
+    metrics: FinancialMetrics;
+    rank: number;
+    peerCount: number;
+    quartile: number;
+    topQuartileCount: number; // Periods spent in the top quartile
+    rankedPeriods: number;
+}
+
+interface RankPoint {
+    label: string;
+    percentile: number; // 0 = best in peer group, 100 = worst
+    quartile: number;
+}
+
+const ROLLING_MONTHS: Record<RollingWindow, number> = { '1M': 1, '3M': 3, '6M': 6, '1Y': 12, '2Y': 24 };
+const METRIC_KEYS: Record<RollingWindow | 'YTD', keyof FinancialMetrics> = {
+    '1M': 'roi1M', '3M': 'roi3M', '6M': 'roi6M', '1Y': 'roi1Y', '2Y': 'roi2Y', 'YTD': 'roiYTD',
+};
+const UNGROUPED = '未分類';
+// Peer groups smaller than this are not split into quartiles
+const MIN_PEERS = 4;
+
+// Index of the last point on or before `time` in an ascending series, -1 if none
+const lastIndexAtOrBefore = (times: number[], time: number) => {
+    let lo = 0;
+    let hi = times.length - 1;
+    let found = -1;
+    while (lo <= hi) {
+        const mid = (lo + hi) >> 1;
+        if (times[mid] <= time) {
+            found = mid;
+            lo = mid + 1;
+        } else {
+            hi = mid - 1;
+        }
+    }
+    return found;
+};
+
+// Trailing return (%) over `months` ending at `asOf`, matching calculateMetrics' "closest on or before" rule.
+// `times` are ascending dateKeys.
+const trailingReturn = (series: { times: number[]; values: number[] }, asOf: number, months: number) => {
+    const endIdx = lastIndexAtOrBefore(series.times, asOf);
+    if (endIdx < 0) return null;
+    const end = parseDateStrict(String(series.times[endIdx]));
+    const startIdx = lastIndexAtOrBefore(series.times, dateKey(addMonths(end, -months)));
+    if (startIdx < 0 || startIdx === endIdx) return null;
+    return ((series.values[endIdx] - series.values[startIdx]) / series.values[startIdx]) * 100;
+};
+
+// Rank values (higher is better) within each peer group; returns fundId -> { rank, peerCount, quartile }
+const rankWithinPeers = (entries: { fundId: string; peerGroup: string; value: number }[]) => {
+    const groups = new Map<string, { fundId: string; value: number }[]>();
+    entries.forEach(e => {
+        if (!groups.has(e.peerGroup)) groups.set(e.peerGroup, []);
+        groups.get(e.peerGroup)!.push(e);
+    });
+
+    const ranks = new Map<string, { rank: number; peerCount: number; quartile: number }>();
+    groups.forEach(members => {
+        members.sort((a, b) => b.value - a.value);
+        members.forEach((m, i) => {
+            const quartile = members.length >= MIN_PEERS ? Math.min(4, Math.floor((i / members.length) * 4) + 1) : 0;
+            ranks.set(m.fundId, { rank: i + 1, peerCount: members.length, quartile });
+        });
+    });
+    return ranks;
+};
+
+const monthEnds = (histories: FundHistory[]) => {
+    const months = new Map<string, number>();
+    histories.forEach(h => h.data.forEach(p => {
+        const date = parseDateStrict(p.date);
+        months.set(periodKey(date, 'month'), dateKey(endOfMonth(date)));
+    }));
+    return Array.from(months.entries())
+        .sort((a, b) => a[1] - b[1])
+        .map(([label, time]) => ({ label, time }));
+};
 
 const FundHistoricalRanking: React.FC = () => {
+    const [dataType, setDataType] = useState<'淨值' | '市價'>('市價');
+    const [rankingWindow, setRankingWindow] = useState<RankingWindow>('1Y');
+    const [peerFilter, setPeerFilter] = useState<string>('all');
+    const [histories, setHistories] = useState<FundHistory[]>([]);
+    const [fundInfo, setFundInfo] = useState<Map<string, FundBasicInfo>>(new Map());
+    const [selectedFundId, setSelectedFundId] = useState<string | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        const fetchData = async () => {
+            setLoading(true);
+            setError('');
+            try {
+                const [info, ids] = await Promise.all([
+                    fundDataService.getFundBasicInfo(),
+                    fundDataService.getFundIdsWithHistory(dataType),
+                ]);
+                const history = await fundDataService.getFundHistory(ids, dataType);
+                setFundInfo(new Map(info.map(f => [f.id, f])));
+                setHistories(history.filter(h => h.data.length > 1));
+            } catch (err) {
+                console.error('Failed to load ranking data', err);
+                setError(`無法載入${dataType}資料`);
+                setHistories([]);
+            } finally {
+                setLoading(false);
+            }
+        };
+
+        fetchData();
+    }, [dataType]);
+
+    const series = useMemo(() => histories.map(h => {
+        const sorted: FundHistoryPoint[] = sortByDate(h.data.filter(p => p.value > 0), p => p.date);
+        return {
+            fundId: h.fundId,
+            peerGroup: fundInfo.get(h.fundId)?.type || UNGROUPED,
+            sorted,
+            times: sorted.map(p => dateKey(p.date)),
+            values: sorted.map(p => p.value),
+        };
+    }), [histories, fundInfo]);
+
+    const metricsByFund = useMemo(() => {
+        const map = new Map<string, { metrics: FinancialMetrics; calendar: Map<number, number> }>();
+        series.forEach(s => map.set(s.fundId, {
+            metrics: calculateMetrics(s.sorted),
+            calendar: calculateCalendarYearReturns(s.sorted),
+        }));
+        return map;
+    }, [series]);
+
+    const calendarYears = useMemo(() => {
+        const years = new Set<number>();
+        metricsByFund.forEach(m => m.calendar.forEach((_, year) => years.add(year)));
+        return Array.from(years).sort((a, b) => b - a);
+    }, [metricsByFund]);
+
+    const peerGroups = useMemo(() => Array.from(new Set(series.map(s => s.peerGroup))).sort(), [series]);
+
+    // Quartile history per fund: month-end trailing windows, or one point per calendar year
+    const rankHistory = useMemo(() => {
+        const history = new Map<string, RankPoint[]>();
+        const record = (entries: { fundId: string; peerGroup: string; value: number }[], label: string) => {
+            rankWithinPeers(entries).forEach((r, fundId) => {
+                if (r.quartile === 0) return;
+                if (!history.has(fundId)) history.set(fundId, []);
+                history.get(fundId)!.push({ label, percentile: ((r.rank - 1) / r.peerCount) * 100, quartile: r.quartile });
+            });
+        };
+
+        if (rankingWindow in ROLLING_MONTHS) {
+            const months = ROLLING_MONTHS[rankingWindow as RollingWindow];
+            monthEnds(histories).forEach(({ label, time }) => {
+                const entries = series.flatMap(s => {
+                    const value = trailingReturn(s, time, months);
+                    return value === null ? [] : [{ fundId: s.fundId, peerGroup: s.peerGroup, value }];
+                });
+                record(entries, label);
+            });
+        } else {
+            [...calendarYears].reverse().forEach(year => {
+                const entries = series.flatMap(s => {
+                    const value = metricsByFund.get(s.fundId)?.calendar.get(year);
+                    return value === undefined ? [] : [{ fundId: s.fundId, peerGroup: s.peerGroup, value }];
+                });
+                record(entries, String(year));
+            });
+        }
+        return history;
+    }, [rankingWindow, histories, series, calendarYears, metricsByFund]);
+
+    const rankedFunds = useMemo(() => {
+        const windowValue = (fundId: string): number | null => {
+            const m = metricsByFund.get(fundId);
+            if (!m) return null;
+            if (rankingWindow.startsWith('Y') && rankingWindow !== 'YTD') {
+                return m.calendar.get(Number(rankingWindow.substring(1))) ?? null;
+            }
+            return m.metrics[METRIC_KEYS[rankingWindow as RollingWindow | 'YTD']] as number | null;
+        };
+
+        const entries = series.flatMap(s => {
+            const value = windowValue(s.fundId);
+            return value === null ? [] : [{ fundId: s.fundId, peerGroup: s.peerGroup, value }];
+        });
+        const ranks = rankWithinPeers(entries);
+
+        const result: RankedFund[] = entries.map(e => {
+            const r = ranks.get(e.fundId)!;
+            const points = rankHistory.get(e.fundId) ?? [];
+            return {
+                ...e,
+                name: fundInfo.get(e.fundId)?.name || e.fundId,
+                metrics: metricsByFund.get(e.fundId)!.metrics,
+                rank: r.rank,
+                peerCount: r.peerCount,
+                quartile: r.quartile,
+                topQuartileCount: points.filter(p => p.quartile === 1).length,
+                rankedPeriods: points.length,
+            };
+        });
+
+        return result
+            .filter(f => peerFilter === 'all' || f.peerGroup === peerFilter)
+            .sort((a, b) => a.peerGroup.localeCompare(b.peerGroup) || a.rank - b.rank);
+    }, [series, metricsByFund, rankingWindow, rankHistory, fundInfo, peerFilter]);
+
+    const selectedHistory = selectedFundId ? rankHistory.get(selectedFundId) ?? [] : [];
+    const selectedName = selectedFundId ? fundInfo.get(selectedFundId)?.name || selectedFundId : '';
+
+    const historyChartData = {
+        labels: selectedHistory.map(p => p.label),
+        datasets: [{
+            label: '同組百分位 (0 = 最佳)',
+            data: selectedHistory.map(p => p.percentile),
+            borderColor: '#3b82f6',
+            backgroundColor: selectedHistory.map(p => (p.quartile === 1 ? '#10b981' : p.quartile === 4 ? '#ef4444' : '#3b82f6')),
+            pointRadius: 4,
+            tension: 0,
+        }],
+    };
+
+    const historyChartOptions = {
+        responsive: true,
+        maintainAspectRatio: false,
+        plugins: { legend: { display: false } },
+        scales: {
+            y: {
+                reverse: true,
+                min: 0,
+                max: 100,
+                ticks: { stepSize: 25, callback: (value: string | number) => `${value}%` },
+                grid: { color: 'rgba(255, 255, 255, 0.15)' },
+            },
+        },
+    };
+
+    const windowOptions: RankingWindow[] = ['1M', '3M', '6M', '1Y', '2Y', 'YTD', ...calendarYears.map(y => `Y${y}` as RankingWindow)];
+    const formatPercent = (val: number | null) => (val === null ? '-' : `${val.toFixed(2)}%`);
+
     return (
-        <div className="fund-historical-ranking" style={{ padding: '2rem', color: '#e2e8f0' }}>
-            <h2 style={{ fontSize: '1.875rem', fontWeight: 'bold', marginBottom: '1.5rem' }}>Fund Historical Ranking</h2>
-            <div style={{
-                backgroundColor: '#1e293b',
-                padding: '2rem',
-                borderRadius: '0.5rem',
-                border: '1px solid #334155'
-            }}>
-                <p style={{ color: '#94a3b8' }}>Content for Fund Historical Ranking will go here.</p>
+        <div className="fund-historical-ranking">
+            <div className="ranking-controls">
+                <div className="window-buttons">
+                    {windowOptions.map(option => (
+                        <button
+                            key={option}
+                            className={`toggle-btn ${rankingWindow === option ? 'active' : ''}`}
+                            onClick={() => setRankingWindow(option)}
+                            title={option.startsWith('Y') && option !== 'YTD'
+                                ? '前一年底收盤至當年底收盤；無前一年底收盤 (年中成立) 的基金不列入排名'
+                                : undefined}
+                        >
+                            {option.startsWith('Y') && option !== 'YTD' ? option.substring(1) : option}
+                        </button>
+                    ))}
+                </div>
+                <select value={peerFilter} onChange={(e) => setPeerFilter(e.target.value)} className="ranking-select">
+                    <option value="all">All Peer Groups</option>
+                    {peerGroups.map(group => <option key={group} value={group}>{group}</option>)}
+                </select>
+                <select value={dataType} onChange={(e) => setDataType(e.target.value as '淨值' | '市價')} className="ranking-select">
+                    <option value="市價">市價</option>
+                    <option value="淨值">淨值</option>
+                </select>
+            </div>
+
+            {error && <div className="ranking-error">{error}</div>}
+
+            {selectedFundId && (
+                <div className="rank-history-card">
+                    <div className="rank-history-header">
+                        <h3>{selectedName} — 排名歷史 ({rankingWindow.startsWith('Y') && rankingWindow !== 'YTD' ? '年度' : rankingWindow})</h3>
+                        <button className="toggle-btn" onClick={() => setSelectedFundId(null)}>Close</button>
+                    </div>
+                    <div className="rank-history-chart">
+                        {selectedHistory.length > 0 ? (
+                            <Line data={historyChartData} options={historyChartOptions} />
+                        ) : (
+                            <span className="placeholder">資料期間不足以計算排名歷史</span>
+                        )}
+                    </div>
+                </div>
+            )}
+
+            <div className="ranking-table">
+                {loading && <div className="loading-overlay">Loading Data...</div>}
+                <table>
+                    <thead>
+                        <tr>
+                            <th>Peer Group</th>
+                            <th>Rank</th>
+                            <th>Fund</th>
+                            <th>Return</th>
+                            <th>Vol</th>
+                            <th>Sharpe</th>
+                            <th>Max DD</th>
+                            <th>Quartile</th>
+                            <th title="排名歷史中位於前 25% 的期數">Top-Quartile</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {rankedFunds.map(fund => (
+                            <tr
+                                key={fund.fundId}
+                                className={selectedFundId === fund.fundId ? 'selected' : ''}
+                                onClick={() => setSelectedFundId(fund.fundId)}
+                            >
+                                <td className="peer-cell">{fund.peerGroup}</td>
+                                <td>{fund.rank} / {fund.peerCount}</td>
+                                <td className="company-cell">
+                                    <div className="name">{fund.name}</div>
+                                    <div className="code">{fund.fundId}</div>
+                                </td>
+                                <td className={fund.value >= 0 ? 'positive' : 'negative'}>{formatPercent(fund.value)}</td>
+                                <td>{formatPercent(fund.metrics.volatility)}</td>
+                                <td>{fund.metrics.sharpeRatio !== null ? fund.metrics.sharpeRatio.toFixed(2) : '-'}</td>
+                                <td>{fund.metrics.maxDrawdown !== null ? formatPercent(-fund.metrics.maxDrawdown) : '-'}</td>
+                                <td>
+                                    {fund.quartile > 0
+                                        ? <span className={`quartile-badge q${fund.quartile}`}>Q{fund.quartile}</span>
+                                        : '-'}
+                                </td>
+                                <td>
+                                    {fund.rankedPeriods > 0
+                                        ? `${fund.topQuartileCount} / ${fund.rankedPeriods} (${((fund.topQuartileCount / fund.rankedPeriods) * 100).toFixed(0)}%)`
+                                        : '-'}
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+                {!loading && rankedFunds.length === 0 && (
+                    <div className="placeholder">No funds have data for this window.</div>
+                )}
             </div>
         </div>
     );
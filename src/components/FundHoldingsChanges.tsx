@@ -0,0 +1,241 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { fundDataService } from '../services/FundDataService';
+import type { FundHolding } from '../services/FundDataService';
+import { diffHoldings, rankStockFlows } from '../utils/holdingsDiff';
+import type { HoldingChangeType, StockFlow } from '../utils/holdingsDiff';
+import './FundHoldingsChanges.scss';
+
+const CHANGE_LABELS: Record<HoldingChangeType, string> = {
+    new: '新進',
+    exit: '出清',
+    increase: '加碼',
+    decrease: '減碼',
+};
+const CHANGE_TYPES = Object.keys(CHANGE_LABELS) as HoldingChangeType[];
+const MAX_CHANGE_ROWS = 200;
+const FLOW_ROWS = 15;
+
+const formatNumber = (val: number | null, digits = 0) =>
+    val === null ? '-' : val.toLocaleString(undefined, { minimumFractionDigits: digits, maximumFractionDigits: digits });
+const formatSigned = (val: number | null, digits = 0) =>
+    val === null ? '-' : `${val > 0 ? '+' : ''}${formatNumber(val, digits)}`;
+const toneClass = (val: number | null) => (val === null || val === 0 ? '' : val > 0 ? 'positive' : 'negative');
+
+const FlowTable: React.FC<{ title: string; flows: StockFlow[] }> = ({ title, flows }) => (
+    <div className="changes-card">
+        <h4>{title}</h4>
+        {flows.length > 0 ? (
+            <table>
+                <thead>
+                    <tr>
+                        <th>個股</th>
+                        <th title="估計金額 = 股數變化 × 當月平均成本">淨買賣 (千元)</th>
+                        <th>淨股數 (千股)</th>
+                        <th>買 / 賣 基金數</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {flows.map(f => (
+                        <tr key={f.stockCode}>
+                            <td>{f.stockCode} {f.stockName}</td>
+                            <td className={toneClass(f.netValue)}>{formatSigned(f.netValue)}</td>
+                            <td className={toneClass(f.netShares)}>{formatSigned(f.netShares)}</td>
+                            <td>{f.buyers} / {f.sellers}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        ) : (
+            <span className="placeholder">無</span>
+        )}
+    </div>
+);
+
+const FundHoldingsChanges: React.FC = () => {
+    const [months, setMonths] = useState<string[]>([]);
+    const [toMonth, setToMonth] = useState<string>('');
+    const [fromMonth, setFromMonth] = useState<string>('');
+    const [fundFilter, setFundFilter] = useState<string>(''); // '' = all funds
+    const [typeFilter, setTypeFilter] = useState<HoldingChangeType | 'all'>('all');
+    const [snapshots, setSnapshots] = useState<{ previous: FundHolding[]; current: FundHolding[] } | null>(null);
+    const [loading, setLoading] = useState(false);
+
+    useEffect(() => {
+        fundDataService.getHoldingMonths()
+            .then(setMonths)
+            .catch(error => console.error('Failed to load holding months', error));
+    }, []);
+
+    // Months are newest first; compare against the month before the target unless chosen otherwise
+    const activeTo = months.includes(toMonth) ? toMonth : months[0] ?? '';
+    const olderMonths = months.filter(m => m < activeTo);
+    const activeFrom = olderMonths.includes(fromMonth) ? fromMonth : olderMonths[0] ?? '';
+
+    useEffect(() => {
+        if (!activeTo || !activeFrom) return;
+        let cancelled = false;
+
+        const fetchSnapshots = async () => {
+            setLoading(true);
+            try {
+                const [previous, current] = await Promise.all([
+                    fundDataService.getHoldingsForMonth(activeFrom),
+                    fundDataService.getHoldingsForMonth(activeTo),
+                ]);
+                if (!cancelled) setSnapshots({ previous, current });
+            } catch (error) {
+                console.error('Failed to load fund holdings', error);
+            } finally {
+                if (!cancelled) setLoading(false);
+            }
+        };
+
+        fetchSnapshots();
+        return () => { cancelled = true; };
+    }, [activeFrom, activeTo]);
+
+    const fundIds = useMemo(() => {
+        if (!snapshots) return [];
+        return Array.from(new Set([...snapshots.previous, ...snapshots.current].map(h => h.fundId))).sort();
+    }, [snapshots]);
+
+    const { diff, error } = useMemo(() => {
+        if (!snapshots || !activeFrom || !activeTo) return { diff: null, error: null };
+        const pick = (holdings: FundHolding[]) => (fundFilter ? holdings.filter(h => h.fundId === fundFilter) : holdings);
+        try {
+            return { diff: diffHoldings(pick(snapshots.previous), pick(snapshots.current), activeFrom, activeTo), error: null };
+        } catch (err) {
+            return { diff: null, error: err instanceof Error ? err.message : String(err) };
+        }
+    }, [snapshots, fundFilter, activeFrom, activeTo]);
+
+    const flows = useMemo(() => (diff && !fundFilter ? rankStockFlows(diff.changes, FLOW_ROWS) : null), [diff, fundFilter]);
+
+    if (months.length > 0 && olderMonths.length === 0) {
+        return (
+            <div className="fund-holdings-changes">
+                <span className="placeholder">
+                    {months.length === 1
+                        ? `目前只有 ${months[0]} 的基金月持股資料，需要至少兩個月份才能比較持股變化`
+                        : `${activeTo} 之前沒有持股資料可供比較`}
+                </span>
+            </div>
+        );
+    }
+
+    const counts = CHANGE_TYPES.map(type => diff?.changes.filter(c => c.type === type).length ?? 0);
+    const visibleChanges = diff
+        ? diff.changes.filter(c => typeFilter === 'all' || c.type === typeFilter)
+        : [];
+
+    return (
+        <div className="fund-holdings-changes">
+            <div className="changes-controls">
+                <label>
+                    比較
+                    <select value={activeFrom} onChange={(e) => setFromMonth(e.target.value)}>
+                        {olderMonths.map(m => <option key={m} value={m}>{m}</option>)}
+                    </select>
+                </label>
+                <label>
+                    →
+                    <select value={activeTo} onChange={(e) => setToMonth(e.target.value)}>
+                        {months.slice(0, -1).map(m => <option key={m} value={m}>{m}</option>)}
+                    </select>
+                </label>
+                <select value={fundFilter} onChange={(e) => setFundFilter(e.target.value)}>
+                    <option value="">全部基金</option>
+                    {fundIds.map(id => <option key={id} value={id}>{id}</option>)}
+                </select>
+            </div>
+            <p className="changes-note">
+                依基金月持股揭露的個股計算（通常僅前幾大持股）：掉出揭露名單會顯示為出清、進入名單則顯示為新進。
+                金額以股數變化 × 當月平均成本（投資金額 / 投資股數）估計。
+            </p>
+
+            {error && <div className="changes-error">{error}</div>}
+            {loading && <span className="placeholder">Loading Data...</span>}
+
+            {!loading && diff && (
+                <>
+                    <div className="type-buttons">
+                        <button
+                            className={`toggle-btn ${typeFilter === 'all' ? 'active' : ''}`}
+                            onClick={() => setTypeFilter('all')}
+                        >
+                            全部 ({diff.changes.length})
+                        </button>
+                        {CHANGE_TYPES.map((type, i) => (
+                            <button
+                                key={type}
+                                className={`toggle-btn ${typeFilter === type ? 'active' : ''}`}
+                                onClick={() => setTypeFilter(type)}
+                            >
+                                {CHANGE_LABELS[type]} ({counts[i]})
+                            </button>
+                        ))}
+                    </div>
+                    {diff.skippedFunds.length > 0 && (
+                        <p className="changes-note">
+                            僅單月有申報、未納入比較：{diff.skippedFunds.join('、')}
+                        </p>
+                    )}
+
+                    {flows && (
+                        <div className="flow-grid">
+                            <FlowTable title={`基金最多買超 (${diff.toMonth})`} flows={flows.mostBought} />
+                            <FlowTable title={`基金最多賣超 (${diff.toMonth})`} flows={flows.mostSold} />
+                        </div>
+                    )}
+
+                    <div className="changes-card">
+                        <h4>持股變化 ({diff.fromMonth} → {diff.toMonth})</h4>
+                        {visibleChanges.length > 0 ? (
+                            <div className="table-container">
+                                <table>
+                                    <thead>
+                                        <tr>
+                                            <th>基金</th>
+                                            <th>個股</th>
+                                            <th>變化</th>
+                                            <th>股數 (千股)</th>
+                                            <th>股數變化</th>
+                                            <th>投資比率</th>
+                                            <th>比率變化</th>
+                                            <th>估計金額 (千元)</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {visibleChanges.slice(0, MAX_CHANGE_ROWS).map(c => (
+                                            <tr key={`${c.fundId}|${c.stockCode}`}>
+                                                <td>{c.fundId}</td>
+                                                <td>{c.stockCode} {c.stockName}</td>
+                                                <td><span className={`change-badge ${c.type}`}>{CHANGE_LABELS[c.type]}</span></td>
+                                                <td>{formatNumber(c.previousShares)} → {formatNumber(c.shares)}</td>
+                                                <td className={toneClass(c.shareChange)}>{formatSigned(c.shareChange)}</td>
+                                                <td>
+                                                    {c.previousWeight !== null ? `${c.previousWeight.toFixed(2)}%` : '-'}
+                                                    {' → '}
+                                                    {c.weight !== null ? `${c.weight.toFixed(2)}%` : '-'}
+                                                </td>
+                                                <td className={toneClass(c.weightChange)}>{formatSigned(c.weightChange, 2)}</td>
+                                                <td className={toneClass(c.tradeValue)}>{formatSigned(c.tradeValue)}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                                {visibleChanges.length > MAX_CHANGE_ROWS && (
+                                    <p className="changes-note">僅顯示前 {MAX_CHANGE_ROWS} 筆（共 {visibleChanges.length} 筆）</p>
+                                )}
+                            </div>
+                        ) : (
+                            <span className="placeholder">沒有持股變化</span>
+                        )}
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default FundHoldingsChanges;
@@ -0,0 +1,227 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { fundDataService } from '../services/FundDataService';
+import type { FundBasicInfo, FundHolding } from '../services/FundDataService';
+import { lookThroughExposure, overlapMatrix, sharedHoldings } from '../utils/holdingsOverlap';
+import './FundHoldingsOverlap.scss';
+
+interface FundHoldingsOverlapProps {
+    funds: FundBasicInfo[];
+}
+
+const EXPOSURE_ROWS = 15;
+
+// Red intensity by overlap; 50% or more of net assets in common is fully saturated
+const overlapColor = (value: number) => `rgba(239, 68, 68, ${Math.min(1, value / 50) * 0.85})`;
+
+const FundHoldingsOverlap: React.FC<FundHoldingsOverlapProps> = ({ funds }) => {
+    const uniqueFunds = useMemo(
+        () => funds.filter((f, i) => funds.findIndex(o => o.id === f.id) === i),
+        [funds]
+    );
+    const [months, setMonths] = useState<string[]>([]);
+    const [month, setMonth] = useState<string>(''); // '' = each fund's latest filing
+    const [holdings, setHoldings] = useState<Map<string, FundHolding[]>>(new Map());
+    const [loading, setLoading] = useState(false);
+    const [blendWeights, setBlendWeights] = useState<Record<string, number>>({}); // %
+
+    const fundIdsKey = uniqueFunds.map(f => f.id).join('|');
+
+    useEffect(() => {
+        fundDataService.getHoldingMonths()
+            .then(setMonths)
+            .catch(error => console.error('Failed to load holding months', error));
+    }, []);
+
+    useEffect(() => {
+        const ids = fundIdsKey ? fundIdsKey.split('|') : [];
+        if (ids.length === 0) return;
+
+        const fetchHoldings = async () => {
+            setLoading(true);
+            try {
+                const results = await Promise.all(ids.map(id => fundDataService.getFundHoldings(id, month || undefined)));
+                setHoldings(new Map(ids.map((id, i) => [id, results[i]])));
+            } catch (error) {
+                console.error('Failed to load fund holdings', error);
+            } finally {
+                setLoading(false);
+            }
+        };
+
+        fetchHoldings();
+    }, [fundIdsKey, month]);
+
+    // Only funds with a filing take part; the others are listed separately
+    const reporting = useMemo(
+        () => uniqueFunds.filter(f => (holdings.get(f.id)?.length ?? 0) > 0),
+        [uniqueFunds, holdings]
+    );
+    const missing = uniqueFunds.filter(f => holdings.has(f.id) && holdings.get(f.id)!.length === 0);
+    const holdingsByFund = useMemo(() => reporting.map(f => holdings.get(f.id)!), [reporting, holdings]);
+    // Equal weights until edited
+    const weights = useMemo(
+        () => reporting.map(f => blendWeights[f.id] ?? 100 / reporting.length),
+        [reporting, blendWeights]
+    );
+
+    const matrix = useMemo(() => overlapMatrix(holdingsByFund), [holdingsByFund]);
+    const shared = useMemo(() => sharedHoldings(holdingsByFund), [holdingsByFund]);
+    const exposure = useMemo(
+        () => (weights.some(w => w > 0) ? lookThroughExposure(holdingsByFund, weights) : []),
+        [holdingsByFund, weights]
+    );
+
+    if (uniqueFunds.length === 0) {
+        return <div className="fund-holdings-overlap"><span className="placeholder">請先選擇基金</span></div>;
+    }
+
+    const shortName = (fund: FundBasicInfo) => fund.id.split(' ')[0];
+    const filingMonth = (fund: FundBasicInfo) => holdings.get(fund.id)?.[0]?.month ?? '-';
+    const weightTotal = weights.reduce((a, b) => a + b, 0);
+    const disclosedExposure = exposure.reduce((sum, row) => sum + row.exposure, 0);
+
+    return (
+        <div className="fund-holdings-overlap">
+            <div className="overlap-header">
+                <h3>持股重疊</h3>
+                <label>
+                    月份
+                    <select value={month} onChange={(e) => setMonth(e.target.value)}>
+                        <option value="">各基金最新</option>
+                        {months.map(m => <option key={m} value={m}>{m}</option>)}
+                    </select>
+                </label>
+            </div>
+            <p className="overlap-note">
+                依基金月持股揭露的個股計算（通常僅前幾大持股），重疊比例為下限。重疊 = 兩檔基金共同持股權重取小者加總。
+            </p>
+
+            {loading && <span className="placeholder">Loading Data...</span>}
+            {missing.length > 0 && (
+                <p className="overlap-note">無持股資料：{missing.map(f => f.id).join('、')}</p>
+            )}
+
+            {!loading && reporting.length > 0 && (
+                <>
+                    <div className="overlap-section">
+                        <h4>兩兩重疊 (%)</h4>
+                        <div className="table-container">
+                            <table className="overlap-matrix">
+                                <thead>
+                                    <tr>
+                                        <th></th>
+                                        {reporting.map(f => <th key={f.id} title={f.id}>{shortName(f)}</th>)}
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {reporting.map((f, i) => (
+                                        <tr key={f.id}>
+                                            <th title={`${f.id} (${filingMonth(f)})`}>{shortName(f)}</th>
+                                            {reporting.map((g, j) => (
+                                                <td
+                                                    key={g.id}
+                                                    className={i === j ? 'diagonal' : ''}
+                                                    style={i === j ? undefined : { backgroundColor: overlapColor(matrix[i][j]) }}
+                                                    title={i === j ? '已揭露持股權重合計' : `${f.id} × ${g.id}`}
+                                                >
+                                                    {matrix[i][j].toFixed(1)}
+                                                </td>
+                                            ))}
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    </div>
+
+                    {reporting.length > 1 && (
+                        <div className="overlap-section">
+                            <h4>共同持股 ({shared.length})</h4>
+                            {shared.length > 0 ? (
+                                <div className="table-container">
+                                    <table className="shared-table">
+                                        <thead>
+                                            <tr>
+                                                <th>個股</th>
+                                                {reporting.map(f => <th key={f.id} title={f.id}>{shortName(f)}</th>)}
+                                                <th>持有檔數</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody>
+                                            {shared.map(row => (
+                                                <tr key={row.stockCode}>
+                                                    <td>{row.stockCode} {row.stockName}</td>
+                                                    {row.weights.map((w, i) => (
+                                                        <td key={reporting[i].id}>{w !== null ? `${w.toFixed(2)}%` : '-'}</td>
+                                                    ))}
+                                                    <td>{row.fundCount}</td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                </div>
+                            ) : (
+                                <span className="placeholder">沒有共同持股</span>
+                            )}
+                        </div>
+                    )}
+
+                    <div className="overlap-section">
+                        <h4>組合穿透曝險</h4>
+                        <div className="blend-weights">
+                            {reporting.map((f, i) => (
+                                <label key={f.id} title={f.id}>
+                                    {shortName(f)}
+                                    <input
+                                        type="number"
+                                        min="0"
+                                        step="5"
+                                        value={+weights[i].toFixed(2)}
+                                        onChange={(e) => setBlendWeights({ ...blendWeights, [f.id]: Number(e.target.value) })}
+                                    />
+                                    %
+                                </label>
+                            ))}
+                            {Math.abs(weightTotal - 100) > 0.01 && (
+                                <span className="weight-warning">合計 {weightTotal.toFixed(2)}%（將依比例調整為 100%）</span>
+                            )}
+                        </div>
+                        {exposure.length > 0 && (
+                            <div className="table-container">
+                                <table className="exposure-table">
+                                    <thead>
+                                        <tr>
+                                            <th>個股</th>
+                                            <th>組合曝險</th>
+                                            {reporting.map(f => <th key={f.id} title={f.id}>{shortName(f)}</th>)}
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {exposure.slice(0, EXPOSURE_ROWS).map(row => (
+                                            <tr key={row.stockCode}>
+                                                <td>{row.stockCode} {row.stockName}</td>
+                                                <td className="exposure-cell">{row.exposure.toFixed(2)}%</td>
+                                                {row.contributions.map((c, i) => (
+                                                    <td key={reporting[i].id}>{c > 0 ? `${c.toFixed(2)}%` : '-'}</td>
+                                                ))}
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                    <tfoot>
+                                        <tr>
+                                            <td>已揭露合計 ({exposure.length} 檔)</td>
+                                            <td className="exposure-cell">{disclosedExposure.toFixed(2)}%</td>
+                                            <td colSpan={reporting.length}></td>
+                                        </tr>
+                                    </tfoot>
+                                </table>
+                            </div>
+                        )}
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default FundHoldingsOverlap;
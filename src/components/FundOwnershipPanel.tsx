@@ -0,0 +1,175 @@
+import React, { useState, useEffect } from 'react';
+import { fundDataService } from '../services/FundDataService';
+import type { AllFundsStockPosition } from '../services/FundDataService';
+import { summarizeFundOwnership } from '../utils/fundOwnership';
+import type { FundOwnershipSummary } from '../utils/fundOwnership';
+import './FundOwnershipPanel.scss';
+
+interface FundOwnershipPanelProps {
+    stockCode: string | null; // e.g. "2330"
+}
+
+const formatPercent = (val: number | null, digits = 2) => (val === null ? '-' : `${val.toFixed(digits)}%`);
+const formatChange = (val: number | null) => (val === null ? '-' : `${val >= 0 ? '+' : ''}${val.toFixed(2)}`);
+const toneClass = (val: number | null) => (val === null || val === 0 ? '' : val > 0 ? 'positive' : 'negative');
+
+const FundOwnershipPanel: React.FC<FundOwnershipPanelProps> = ({ stockCode }) => {
+    const [months, setMonths] = useState<string[]>([]);
+    const [month, setMonth] = useState<string>('');
+    const [summary, setSummary] = useState<FundOwnershipSummary | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [allFunds, setAllFunds] = useState<AllFundsStockPosition | null>(null);
+
+    useEffect(() => {
+        fundDataService.getHoldingMonths()
+            .then(setMonths)
+            .catch(error => console.error('Failed to load holding months', error));
+    }, []);
+
+    // Market-wide total from 基金月持股(全體).csv; it covers every fund, not just those in the monthly filings
+    useEffect(() => {
+        if (!stockCode) return;
+        let cancelled = false;
+        fundDataService.getAllFundsPosition(stockCode)
+            .then(position => { if (!cancelled) setAllFunds(position); })
+            .catch(error => {
+                console.error('Failed to load all-funds position', error);
+                if (!cancelled) setAllFunds(null);
+            });
+        return () => { cancelled = true; };
+    }, [stockCode]);
+
+    // Months are newest first, so the previous month is the next entry
+    const activeMonth = months.includes(month) ? month : months[0] ?? '';
+    const previousMonth = months[months.indexOf(activeMonth) + 1] ?? null;
+
+    useEffect(() => {
+        if (!stockCode || !activeMonth) return;
+        let cancelled = false;
+
+        const fetchOwnership = async () => {
+            setLoading(true);
+            try {
+                const [current, previous] = await Promise.all([
+                    fundDataService.getHoldersOfStock(stockCode, activeMonth),
+                    previousMonth ? fundDataService.getHoldersOfStock(stockCode, previousMonth) : Promise.resolve(null),
+                ]);
+                if (!cancelled) setSummary(summarizeFundOwnership(current, activeMonth, previous, previousMonth));
+            } catch (error) {
+                console.error('Failed to load fund ownership', error);
+            } finally {
+                if (!cancelled) setLoading(false);
+            }
+        };
+
+        fetchOwnership();
+        return () => { cancelled = true; };
+    }, [stockCode, activeMonth, previousMonth]);
+
+    if (!stockCode) return <div className="fund-ownership"><span className="placeholder">無法辨識股票代號</span></div>;
+
+    return (
+        <div className="fund-ownership">
+            <div className="fund-ownership-header">
+                <span className="stock-code">{stockCode}</span>
+                {months.length > 0 && (
+                    <select value={activeMonth} onChange={(e) => setMonth(e.target.value)}>
+                        {months.map(m => <option key={m} value={m}>{m}</option>)}
+                    </select>
+                )}
+            </div>
+
+            {allFunds && (
+                <p className="ownership-note">
+                    全體基金 {allFunds.month} 合計持有 {allFunds.shares?.toLocaleString() ?? '-'} 千股，
+                    佔流通在外 {formatPercent(allFunds.ownershipPct)}；當月個股報酬 {formatPercent(allFunds.monthlyReturn)}
+                </p>
+            )}
+
+            {loading && <span className="placeholder">Loading Data...</span>}
+
+            {!loading && summary && (
+                <>
+                    <div className="ownership-summary">
+                        <div className="metric">
+                            <span className="label">持有基金數</span>
+                            <span className="value">{summary.holders.length}</span>
+                        </div>
+                        <div className="metric">
+                            <span className="label" title="各基金 持股數/流通在外股數% 加總">基金合計持股比率</span>
+                            <span className="value">{formatPercent(summary.totalOwnership, 3)}</span>
+                        </div>
+                        <div className="metric">
+                            <span className="label">較 {summary.previousMonth ?? '上月'} 變化 (百分點)</span>
+                            <span className={`value ${toneClass(summary.ownershipChange)}`}>{formatChange(summary.ownershipChange)}</span>
+                        </div>
+                        <div className="metric">
+                            <span className="label">新進 / 出清</span>
+                            <span className="value">
+                                {summary.previousMonth
+                                    ? `${summary.holders.filter(h => h.isNew).length} / ${summary.exited.length}`
+                                    : '-'}
+                            </span>
+                        </div>
+                    </div>
+                    {!summary.previousMonth && (
+                        <p className="ownership-note">沒有 {summary.month} 之前的持股資料，無法計算月變化。</p>
+                    )}
+
+                    {summary.holders.length > 0 ? (
+                        <div className="table-container">
+                            <table>
+                                <thead>
+                                    <tr>
+                                        <th>基金</th>
+                                        <th>投資比率</th>
+                                        <th>持股 (千股)</th>
+                                        <th>持股/流通在外</th>
+                                        <th>上月</th>
+                                        <th>變化</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {summary.holders.map(h => {
+                                        const change = h.ownershipPct !== null && (h.previousOwnershipPct !== null || h.isNew)
+                                            ? h.ownershipPct - (h.previousOwnershipPct ?? 0)
+                                            : null;
+                                        return (
+                                            <tr key={h.fundId}>
+                                                <td>
+                                                    {h.fundId}
+                                                    {h.isNew && <span className="new-badge">新進</span>}
+                                                </td>
+                                                <td>{formatPercent(h.weight)}</td>
+                                                <td>{h.shares !== null ? h.shares.toLocaleString() : '-'}</td>
+                                                <td>{formatPercent(h.ownershipPct, 3)}</td>
+                                                <td>{formatPercent(h.previousOwnershipPct, 3)}</td>
+                                                <td className={toneClass(change)}>{formatChange(change)}</td>
+                                            </tr>
+                                        );
+                                    })}
+                                    {summary.exited.map(h => (
+                                        <tr key={h.fundId} className="exited-row">
+                                            <td>{h.fundId}<span className="exit-badge">出清</span></td>
+                                            <td>-</td>
+                                            <td>-</td>
+                                            <td>-</td>
+                                            <td>{formatPercent(h.ownershipPct, 3)}</td>
+                                            <td className={toneClass(h.ownershipPct !== null ? -h.ownershipPct : null)}>
+                                                {formatChange(h.ownershipPct !== null ? -h.ownershipPct : null)}
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    ) : (
+                        <span className="placeholder">{summary.month} 沒有基金揭露持有 {stockCode}</span>
+                    )}
+                </>
+            )}
+        </div>
+    );
+};
+
+export default FundOwnershipPanel;
@@ -0,0 +1,251 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Line, Bar } from 'react-chartjs-2';
+import '../utils/chartSetup';
+import { fundDataService } from '../services/FundDataService';
+import type { FundBasicInfo, FundSectorWeights, IndustrySector } from '../services/FundDataService';
+import './FundSectorExposure.scss';
+
+interface FundSectorExposureProps {
+    funds: FundBasicInfo[];
+}
+
+interface SectorChange {
+    code: string;
+    name: string;
+    previous: number;
+    latest: number;
+    change: number; // Percentage points
+}
+
+const SECTOR_COLORS = [
+    '#3b82f6', '#ef4444', '#10b981', '#f59e0b', '#8b5cf6', '#ec4899', '#06b6d4', '#84cc16',
+    '#f97316', '#6366f1', '#14b8a6', '#eab308', '#a855f7', '#22c55e', '#0ea5e9', '#f43f5e',
+];
+
+// Changes of a fund's industry weights between two weeks, largest moves first
+const calculateSectorRotation = (
+    previous: FundSectorWeights,
+    latest: FundSectorWeights,
+    sectors: IndustrySector[]
+): SectorChange[] => {
+    return sectors
+        .map(sector => {
+            const prev = previous.weights[sector.code] ?? 0;
+            const curr = latest.weights[sector.code] ?? 0;
+            return { code: sector.code, name: sector.name, previous: prev, latest: curr, change: curr - prev };
+        })
+        .filter(c => c.previous !== 0 || c.latest !== 0)
+        .sort((a, b) => Math.abs(b.change) - Math.abs(a.change));
+};
+
+// Turnover between two weeks: half the sum of absolute weight changes (0 = unchanged, 100 = fully rotated)
+const calculateRotationIntensity = (changes: SectorChange[]) =>
+    changes.reduce((sum, c) => sum + Math.abs(c.change), 0) / 2;
+
+const FundSectorExposure: React.FC<FundSectorExposureProps> = ({ funds }) => {
+    const uniqueFunds = useMemo(
+        () => funds.filter((f, i) => funds.findIndex(o => o.id === f.id) === i),
+        [funds]
+    );
+    const [selectedFundId, setSelectedFundId] = useState<string>('');
+    const [sectors, setSectors] = useState<IndustrySector[]>([]);
+    const [exposure, setExposure] = useState<FundSectorWeights[]>([]);
+    const [loading, setLoading] = useState(false);
+    const [expandSubSectors, setExpandSubSectors] = useState(false);
+    const [highlightThreshold, setHighlightThreshold] = useState(1);
+
+    const fundId = uniqueFunds.some(f => f.id === selectedFundId) ? selectedFundId : uniqueFunds[0]?.id ?? '';
+
+    useEffect(() => {
+        if (!fundId) return;
+
+        const fetchExposure = async () => {
+            setLoading(true);
+            try {
+                const [sectorList, weights] = await Promise.all([
+                    fundDataService.getIndustrySectors(),
+                    fundDataService.getSectorExposure(fundId),
+                ]);
+                setSectors(sectorList);
+                setExposure(weights);
+            } catch (error) {
+                console.error('Failed to load sector exposure', error);
+            } finally {
+                setLoading(false);
+            }
+        };
+
+        fetchExposure();
+    }, [fundId]);
+
+    // Sectors stacked in the chart. Parents and their sub-industries overlap, so only one level is shown;
+    // when expanded, the part of a parent not covered by its listed sub-industries becomes "其他".
+    const displaySectors = useMemo(() => {
+        const topLevel = sectors.filter(s => !s.parent);
+        if (!expandSubSectors) {
+            return topLevel.map(s => ({ ...s, value: (w: FundSectorWeights) => w.weights[s.code] ?? 0 }));
+        }
+
+        return topLevel.flatMap(parent => {
+            const children = sectors.filter(s => s.parent === parent.code);
+            if (children.length === 0) {
+                return [{ ...parent, value: (w: FundSectorWeights) => w.weights[parent.code] ?? 0 }];
+            }
+            const remainder = {
+                code: `${parent.code}-other`,
+                name: `${parent.name} (其他)`,
+                value: (w: FundSectorWeights) => Math.max(
+                    0,
+                    (w.weights[parent.code] ?? 0) - children.reduce((sum, c) => sum + (w.weights[c.code] ?? 0), 0)
+                ),
+            };
+            return [
+                ...children.map(c => ({ ...c, value: (w: FundSectorWeights) => w.weights[c.code] ?? 0 })),
+                remainder,
+            ];
+        });
+    }, [sectors, expandSubSectors]);
+
+    const areaChartData = useMemo(() => {
+        const visible = displaySectors.filter(s => exposure.some(w => s.value(w) > 0));
+        return {
+            labels: exposure.map(w => w.date),
+            datasets: visible.map((sector, index) => {
+                const color = SECTOR_COLORS[index % SECTOR_COLORS.length];
+                return {
+                    label: `${sector.code} ${sector.name}`,
+                    data: exposure.map(w => sector.value(w)),
+                    borderColor: color,
+                    backgroundColor: `${color}99`,
+                    fill: index === 0 ? 'origin' : '-1',
+                    tension: 0.2,
+                    pointRadius: exposure.length > 1 ? 0 : 4,
+                    pointHoverRadius: 5,
+                };
+            }),
+        };
+    }, [displaySectors, exposure]);
+
+    // Week-over-week rotation intensity for every week after the first
+    const rotationSeries = useMemo(() => {
+        const allSectors = sectors.filter(s => !s.parent);
+        return exposure.slice(1).map((week, i) => ({
+            date: week.date,
+            intensity: calculateRotationIntensity(calculateSectorRotation(exposure[i], week, allSectors)),
+        }));
+    }, [exposure, sectors]);
+
+    const latestChanges = useMemo(() => {
+        if (exposure.length < 2) return [];
+        return calculateSectorRotation(exposure[exposure.length - 2], exposure[exposure.length - 1], sectors);
+    }, [exposure, sectors]);
+
+    const areaChartOptions = {
+        responsive: true,
+        maintainAspectRatio: false,
+        interaction: { mode: 'index' as const, intersect: false },
+        plugins: {
+            legend: { position: 'right' as const, labels: { color: '#94a3b8', boxWidth: 12 } },
+        },
+        scales: {
+            x: { grid: { color: 'rgba(255, 255, 255, 0.1)' } },
+            y: {
+                stacked: true,
+                grid: { color: 'rgba(255, 255, 255, 0.1)' },
+                title: { display: true, text: '佔淨資產 (%)', color: '#94a3b8' },
+            },
+        },
+    };
+
+    const rotationChartData = {
+        labels: rotationSeries.map(r => r.date),
+        datasets: [{
+            label: '週產業輪動幅度 (%)',
+            data: rotationSeries.map(r => r.intensity),
+            backgroundColor: rotationSeries.map(r => r.intensity >= highlightThreshold ? '#f59e0b' : '#3b82f6'),
+        }],
+    };
+
+    if (uniqueFunds.length === 0) {
+        return <div className="sector-exposure-empty">請先選擇基金以檢視產業配置。</div>;
+    }
+
+    return (
+        <div className="sector-exposure">
+            <div className="sector-controls">
+                <select
+                    value={fundId}
+                    onChange={(e) => setSelectedFundId(e.target.value)}
+                    className="sector-select"
+                >
+                    {uniqueFunds.map(fund => (
+                        <option key={fund.id} value={fund.id}>{fund.id} {fund.name}</option>
+                    ))}
+                </select>
+                <button
+                    className={`toggle-btn ${expandSubSectors ? 'active' : ''}`}
+                    onClick={() => setExpandSubSectors(!expandSubSectors)}
+                    title="將電子工業、化學生技醫療拆分為子產業"
+                >
+                    展開子產業
+                </button>
+                <label className="threshold-input">
+                    輪動警示 (pp)
+                    <input
+                        type="number"
+                        min="0"
+                        step="0.5"
+                        value={highlightThreshold}
+                        onChange={(e) => setHighlightThreshold(parseFloat(e.target.value) || 0)}
+                    />
+                </label>
+            </div>
+
+            <div className="chart-card">
+                {loading && <div className="loading-overlay">Loading Data...</div>}
+                {exposure.length > 0 ? (
+                    <Line data={areaChartData} options={areaChartOptions} />
+                ) : (
+                    !loading && <span className="hover-placeholder">此基金沒有產業持股資料</span>
+                )}
+            </div>
+
+            {rotationSeries.length > 0 && (
+                <div className="chart-card rotation-chart">
+                    <Bar data={rotationChartData} options={{ responsive: true, maintainAspectRatio: false, plugins: { legend: { display: false } } }} />
+                </div>
+            )}
+
+            <div className="table-container">
+                <table>
+                    <thead>
+                        <tr>
+                            <th>產業</th>
+                            <th>前一週 (%)</th>
+                            <th>最新一週 (%)</th>
+                            <th>變化 (pp)</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {latestChanges.length > 0 ? latestChanges.map(c => (
+                            <tr key={c.code} className={Math.abs(c.change) >= highlightThreshold ? 'rotation-highlight' : ''}>
+                                <td>{c.code} {c.name}</td>
+                                <td>{c.previous.toFixed(2)}</td>
+                                <td>{c.latest.toFixed(2)}</td>
+                                <td className={`upside-cell ${c.change >= 0 ? 'positive' : 'negative'}`}>
+                                    {c.change >= 0 ? '+' : ''}{c.change.toFixed(2)}
+                                </td>
+                            </tr>
+                        )) : (
+                            <tr>
+                                <td colSpan={4} className="hover-placeholder">需要至少兩週的資料才能計算週輪動。</td>
+                            </tr>
+                        )}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+};
+
+export default FundSectorExposure;
@@ -1,6 +1,7 @@
 import React, { useState, useMemo } from 'react';
 import { ArrowUp, ArrowDown, ChevronLeft, ChevronRight, X } from 'lucide-react';
 import type { BrokerData } from './Charts';
+import { dateKey } from '../utils/tradingDate';
 import './MarketOverview.scss';
 
 interface MarketOverviewProps {
@@ -46,10 +47,10 @@ const MarketOverview: React.FC<MarketOverviewProps> = ({ data, filters }) => {
 
         // Date Range Filter
         if (filters.startDate) {
-            result = result.filter(d => new Date(d.date) >= new Date(filters.startDate));
+            result = result.filter(d => dateKey(d.date) >= dateKey(filters.startDate));
         }
         if (filters.endDate) {
-            result = result.filter(d => new Date(d.date) <= new Date(filters.endDate));
+            result = result.filter(d => dateKey(d.date) <= dateKey(filters.endDate));
         }
 
         // Search Filter (Company Name or Code)
@@ -75,8 +76,8 @@ const MarketOverview: React.FC<MarketOverviewProps> = ({ data, filters }) => {
             let valB: any = b[sortField];
 
             if (sortField === 'date') {
-                valA = new Date(valA).getTime();
-                valB = new Date(valB).getTime();
+                valA = dateKey(valA);
+                valB = dateKey(valB);
             }
 
             if (valA < valB) return sortOrder === 'asc' ? -1 : 1;
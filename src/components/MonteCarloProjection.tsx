@@ -0,0 +1,189 @@
+import React, { useMemo, useState } from 'react';
+import { Line } from 'react-chartjs-2';
+import '../utils/chartSetup';
+import type { TooltipItem } from 'chart.js';
+import type { RollingSeries } from './RollingMetricsChart';
+import { runMonteCarlo } from '../utils/monteCarlo';
+import type { MonteCarloResult } from '../utils/monteCarlo';
+import './MonteCarloProjection.scss';
+
+interface MonteCarloProjectionProps {
+    series: RollingSeries[]; // Funds (or a backtested portfolio) to project; one is projected at a time
+    tradingDaysPerYear?: number;
+}
+
+const BLOCK_OPTIONS = [
+    { value: 1, label: '逐日 (iid)' },
+    { value: 5, label: '5 日區塊' },
+    { value: 21, label: '21 日區塊' },
+    { value: 63, label: '63 日區塊' },
+];
+
+const SIMULATION_OPTIONS = [500, 1000, 5000];
+
+const formatAmount = (val: number) => Math.round(val).toLocaleString();
+
+const MonteCarloProjection: React.FC<MonteCarloProjectionProps> = ({ series, tradingDaysPerYear = 252 }) => {
+    const [selectedKey, setSelectedKey] = useState<string | null>(null);
+    const [years, setYears] = useState<number>(10);
+    const [initialAmount, setInitialAmount] = useState<number>(1000000);
+    const [monthlyContribution, setMonthlyContribution] = useState<number>(10000);
+    const [target, setTarget] = useState<number>(5000000);
+    const [simulations, setSimulations] = useState<number>(1000);
+    const [blockLength, setBlockLength] = useState<number>(21);
+    const [seed, setSeed] = useState<number>(42);
+
+    const selected = series.find(s => s.key === selectedKey) ?? series[0] ?? null;
+
+    const projection = useMemo((): { result: MonteCarloResult | null; error: string } => {
+        if (!selected) return { result: null, error: '' };
+        try {
+            return {
+                result: runMonteCarlo(selected.data, {
+                    years,
+                    initialAmount,
+                    monthlyContribution,
+                    simulations,
+                    blockLength,
+                    tradingDaysPerYear,
+                    seed,
+                    target: target > 0 ? target : null,
+                }),
+                error: '',
+            };
+        } catch (err) {
+            return { result: null, error: err instanceof Error ? err.message : String(err) };
+        }
+    }, [selected, years, initialAmount, monthlyContribution, simulations, blockLength, tradingDaysPerYear, seed, target]);
+
+    if (!selected) return null;
+
+    const { result, error } = projection;
+    const band = (percentile: number) => result?.percentiles.find(p => p.percentile === percentile)?.values ?? [];
+    const points = (values: number[]) => values.map((y, m) => ({ x: m / 12, y }));
+
+    // Bands fill down to the dataset before them: P5→P95 light, P25→P75 darker
+    const chartData = {
+        datasets: [
+            { label: 'P5', data: points(band(5)), borderColor: 'rgba(59, 130, 246, 0.4)', backgroundColor: 'transparent', fill: false },
+            { label: 'P95', data: points(band(95)), borderColor: 'rgba(59, 130, 246, 0.4)', backgroundColor: 'rgba(59, 130, 246, 0.12)', fill: '-1' },
+            { label: 'P25', data: points(band(25)), borderColor: 'rgba(59, 130, 246, 0.6)', backgroundColor: 'transparent', fill: false },
+            { label: 'P75', data: points(band(75)), borderColor: 'rgba(59, 130, 246, 0.6)', backgroundColor: 'rgba(59, 130, 246, 0.25)', fill: '-1' },
+            { label: '中位數', data: points(band(50)), borderColor: '#3b82f6', backgroundColor: '#3b82f6', fill: false, borderWidth: 2 },
+            { label: '累計投入', data: points(result?.contributed ?? []), borderColor: '#94a3b8', backgroundColor: '#94a3b8', fill: false, borderDash: [4, 4] },
+            ...(target > 0 && result
+                ? [{ label: '目標', data: [{ x: 0, y: target }, { x: years, y: target }], borderColor: '#f59e0b', backgroundColor: '#f59e0b', fill: false, borderDash: [6, 3] }]
+                : []),
+        ].map(d => ({ borderWidth: 1, tension: 0, pointRadius: 0, pointHoverRadius: 3, ...d })),
+    };
+
+    const chartOptions = {
+        responsive: true,
+        maintainAspectRatio: false,
+        interaction: { mode: 'index' as const, intersect: false },
+        plugins: {
+            legend: { display: true, position: 'bottom' as const, labels: { boxWidth: 12 } },
+            tooltip: {
+                callbacks: {
+                    title: (items: TooltipItem<'line'>[]) => `第 ${(items[0]?.parsed.x ?? 0).toFixed(1)} 年`,
+                    label: (ctx: TooltipItem<'line'>) => `${ctx.dataset.label}: ${formatAmount(ctx.parsed.y ?? 0)}`,
+                },
+            },
+        },
+        scales: {
+            x: {
+                type: 'linear' as const,
+                min: 0,
+                max: years,
+                grid: { color: 'rgba(255, 255, 255, 0.1)' },
+                ticks: { stepSize: 1, callback: (value: string | number) => `${value}Y` },
+            },
+            y: {
+                grid: { color: 'rgba(255, 255, 255, 0.1)' },
+                ticks: { callback: (value: string | number) => Number(value).toLocaleString() },
+            },
+        },
+    };
+
+    const finalOf = (percentile: number) => band(percentile)[band(percentile).length - 1] ?? 0;
+
+    return (
+        <div className="monte-carlo">
+            <div className="monte-carlo-header">
+                <h3>Monte Carlo Projection</h3>
+                {series.length > 1 && (
+                    <select value={selected.key} onChange={(e) => setSelectedKey(e.target.value)}>
+                        {series.map(s => <option key={s.key} value={s.key}>{s.label}</option>)}
+                    </select>
+                )}
+            </div>
+
+            <div className="monte-carlo-controls">
+                <label>
+                    年數
+                    <input type="number" min="1" max="50" step="1" value={years} onChange={(e) => setYears(Number(e.target.value))} />
+                </label>
+                <label>
+                    初始金額
+                    <input type="number" min="0" step="10000" value={initialAmount} onChange={(e) => setInitialAmount(Number(e.target.value))} />
+                </label>
+                <label>
+                    每月投入
+                    <input type="number" min="0" step="1000" value={monthlyContribution} onChange={(e) => setMonthlyContribution(Number(e.target.value))} />
+                </label>
+                <label>
+                    目標金額
+                    <input type="number" min="0" step="100000" value={target} onChange={(e) => setTarget(Number(e.target.value))} />
+                </label>
+                <label title="區塊抽樣保留報酬的短期自我相關 (波動群聚)">
+                    抽樣
+                    <select value={blockLength} onChange={(e) => setBlockLength(Number(e.target.value))}>
+                        {BLOCK_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                    </select>
+                </label>
+                <label>
+                    模擬次數
+                    <select value={simulations} onChange={(e) => setSimulations(Number(e.target.value))}>
+                        {SIMULATION_OPTIONS.map(n => <option key={n} value={n}>{n.toLocaleString()}</option>)}
+                    </select>
+                </label>
+                <label title="相同種子會產生相同的模擬路徑">
+                    種子
+                    <input type="number" step="1" value={seed} onChange={(e) => setSeed(Number(e.target.value))} />
+                </label>
+            </div>
+
+            {error && <div className="monte-carlo-error">{error}</div>}
+
+            {result && (
+                <>
+                    <div className="monte-carlo-summary">
+                        {[
+                            { label: '累計投入', value: formatAmount(result.contributed[result.contributed.length - 1]) },
+                            { label: 'P5', value: formatAmount(finalOf(5)) },
+                            { label: '中位數', value: formatAmount(finalOf(50)) },
+                            { label: 'P95', value: formatAmount(finalOf(95)) },
+                            {
+                                label: `達成 ${formatAmount(target)} 機率`,
+                                value: result.probabilityOfTarget !== null ? `${result.probabilityOfTarget.toFixed(1)}%` : '-',
+                            },
+                        ].map(m => (
+                            <div key={m.label} className="metric">
+                                <span className="label">{m.label}</span>
+                                <span className="value">{m.value}</span>
+                            </div>
+                        ))}
+                    </div>
+                    <div className="monte-carlo-chart">
+                        <Line data={chartData} options={chartOptions} />
+                    </div>
+                    <div className="monte-carlo-note">
+                        自 {selected.label} 的 {result.historicalReturns} 筆歷史日報酬重複抽樣；過去報酬不代表未來績效。
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default MonteCarloProjection;
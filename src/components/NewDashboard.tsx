@@ -20,6 +20,9 @@ import ErrorBoundary from './ErrorBoundary';
 import FundBasicInfoComponent from './FundBasicInfo';
 import FundHistoricalRanking from './FundHistoricalRanking';
 import FundComparison from '../pages/FundComparison';
+import PortfolioBacktest from './PortfolioBacktest';
+import FundOwnershipPanel from './FundOwnershipPanel';
+import FundHoldingsChanges from './FundHoldingsChanges';
 // import { fundDataService, FundBasicInfo } from '../services/FundDataService';
 // Local interface to avoid import crash
 interface FundBasicInfo {
@@ -28,6 +31,9 @@ interface FundBasicInfo {
     dataType?: '淨值' | '市價'; // Data type for this selection
 }
 import fundList from '../data/fund-list.json';
+import { dateKey } from '../utils/tradingDate';
+import { assertValid, checkColumns, DATA_CATALOG } from '../services/dataCatalog';
+import { datasetUrl } from '../services/datasetLoader';
 import './NewDashboard.scss';
 
 // Types for Statistics
@@ -40,6 +46,12 @@ interface SheetData {
     industry_types: any[];
 }
 
+// Stock code from a query or broker-report company label, e.g. "2330", "2330 台積電", "台積電(2330)"
+const extractStockCode = (text: string): string | null => {
+    const match = text.toUpperCase().match(/(?:^|\D)(\d{4,6}[A-Z]?)(?!\d)/);
+    return match ? match[1] : null;
+};
+
 const NewDashboard: React.FC = () => {
     const [query, setQuery] = useState('2330');
     const [brokerData, setBrokerData] = useState<BrokerData[]>([]);
@@ -170,7 +182,10 @@ const NewDashboard: React.FC = () => {
     useEffect(() => {
         const fetchData = async () => {
             try {
-                const response = await fetch(`${import.meta.env.BASE_URL}data/brokers.csv`);
+                const response = await fetch(datasetUrl(DATA_CATALOG.brokers));
+                if (!response.ok) {
+                    throw new Error(`Failed to fetch ${DATA_CATALOG.brokers.path}: ${response.status}`);
+                }
                 const blob = await response.blob();
                 const arrayBuffer = await blob.arrayBuffer();
 
@@ -186,6 +201,8 @@ const NewDashboard: React.FC = () => {
 
                 Papa.parse(csvText, {
                     complete: (results) => {
+                        // Columns are read by position, so only their count can be checked
+                        assertValid(DATA_CATALOG.brokers, checkColumns(DATA_CATALOG.brokers, (results.data[0] as string[]) ?? []));
                         const parsedData: BrokerData[] = results.data.slice(1).map((row: any) => {
                             const targetPriceLow = parseFloat(row[4] ? row[4].replace(/,/g, '') : '0');
                             const targetPriceHigh = parseFloat(row[5] ? row[5].replace(/,/g, '') : '0');
@@ -238,11 +255,11 @@ const NewDashboard: React.FC = () => {
         );
 
         if (startDate) {
-            filtered = filtered.filter(d => new Date(d.date) >= new Date(startDate));
+            filtered = filtered.filter(d => dateKey(d.date) >= dateKey(startDate));
         }
 
         if (endDate) {
-            filtered = filtered.filter(d => new Date(d.date) <= new Date(endDate));
+            filtered = filtered.filter(d => dateKey(d.date) <= dateKey(endDate));
         }
 
         setFilteredData(filtered);
@@ -280,6 +297,13 @@ const NewDashboard: React.FC = () => {
         return chineseName || uniqueNames[0] || selectedCompany;
     }, [filteredData, selectedCompany]);
 
+    // Searches may be by name, so fall back to the code in the matched reports
+    const stockCode = useMemo(() => {
+        return extractStockCode(selectedCompany)
+            ?? filteredData.map(d => extractStockCode(d.company)).find(Boolean)
+            ?? null;
+    }, [filteredData, selectedCompany]);
+
     const getRatingClass = (rating: string) => {
         if (!rating) return 'neutral';
         if (rating.includes('買進') || rating.includes('優於大盤') || rating.includes('強烈買進')) return 'buy';
@@ -293,6 +317,8 @@ const NewDashboard: React.FC = () => {
             case 'fund-basic': return 'Fund Basic Information';
             case 'fund-ranking': return 'Fund Historical Ranking';
             case 'fund-comparison': return 'Fund Comparison';
+            case 'fund-holdings-changes': return 'Fund Holdings Changes';
+            case 'fund-backtest': return 'Portfolio Backtest';
             default: return tab.charAt(0).toUpperCase() + tab.slice(1);
         }
     };
@@ -874,6 +900,12 @@ const NewDashboard: React.FC = () => {
                                                 <h3>Latest PE by Broker</h3>
                                                 <LatestBarChart data={filteredData} dataKey="peNext" label="PE (Next)" color="#ef4444" />
                                             </div>
+
+                                            {/* Row 4: Fund ownership */}
+                                            <div className="chart-card full-width">
+                                                <h3>Fund Ownership</h3>
+                                                <FundOwnershipPanel stockCode={stockCode} />
+                                            </div>
                                         </div>
 
                                         <div className="summary-section">
@@ -953,9 +985,27 @@ const NewDashboard: React.FC = () => {
                                         <Articles />
                                     </ErrorBoundary>
                                 ) : activeTab === 'fund-basic' ? (
-                                    <FundBasicInfoComponent />
+                                    <ErrorBoundary>
+                                        <FundBasicInfoComponent
+                                            onAddToComparison={(fund) => {
+                                                // Compare by market price, the series every listed fund has
+                                                if (!selectedFunds.some(f => f.id === fund.id && f.dataType === '市價')) {
+                                                    setSelectedFunds([...selectedFunds, { id: fund.id, name: fund.name, dataType: '市價' }]);
+                                                }
+                                                setActiveTab('fund-comparison');
+                                            }}
+                                        />
+                                    </ErrorBoundary>
                                 ) : activeTab === 'fund-ranking' ? (
                                     <FundHistoricalRanking />
+                                ) : activeTab === 'fund-holdings-changes' ? (
+                                    <ErrorBoundary>
+                                        <FundHoldingsChanges />
+                                    </ErrorBoundary>
+                                ) : activeTab === 'fund-backtest' ? (
+                                    <ErrorBoundary>
+                                        <PortfolioBacktest />
+                                    </ErrorBoundary>
                                 ) : activeTab === 'fund-comparison' ? (
                                     <ErrorBoundary>
                                         <FundComparison
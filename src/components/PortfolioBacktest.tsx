@@ -0,0 +1,413 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Line } from 'react-chartjs-2';
+import '../utils/chartSetup';
+import type { TooltipItem } from 'chart.js';
+import { X } from 'lucide-react';
+import { fundDataService } from '../services/FundDataService';
+import type { AnnualCostRatio, CorporateAction, FundHistory } from '../services/FundDataService';
+import { alignOnDateUnion, calculateMetrics } from '../utils/FinancialMetrics';
+import { runBacktest } from '../utils/portfolioBacktest';
+import type { BacktestResult, RebalanceRule } from '../utils/portfolioBacktest';
+import { adjustForStockSplits } from '../utils/splitAdjustment';
+import { adjustForCorporateActions, fundCode } from '../utils/distributionAdjustment';
+import { parseToDate } from '../utils/tradingDate';
+import type { TradingCalendar } from '../utils/tradingDate';
+import MonteCarloProjection from './MonteCarloProjection';
+import type { RollingSeries } from './RollingMetricsChart';
+import './PortfolioBacktest.scss';
+
+interface HoldingInput {
+    fundId: string;
+    weight: number; // %
+}
+
+const REBALANCE_OPTIONS: { value: RebalanceRule; label: string }[] = [
+    { value: 'none', label: '不再平衡 (買入持有)' },
+    { value: 'monthly', label: '每月' },
+    { value: 'quarterly', label: '每季' },
+    { value: 'threshold', label: '偏離門檻' },
+];
+
+const formatPercent = (val: number | null) => (val === null ? '-' : `${val.toFixed(2)}%`);
+
+const formatAnnualFee = (fee: AnnualCostRatio | null | undefined) => {
+    if (fee === undefined) return '-';
+    if (fee === null) return <span className="fee-unknown" title="基金費用.csv 沒有此基金的費用率">未知</span>;
+    return (
+        <span title={fee.months >= 12 ? '近 12 個月費用率合計' : `近 ${fee.months} 個月費用率年化`}>
+            {formatPercent(fee.expense)}{fee.months < 12 && <small> (近 {fee.months} 月年化)</small>}
+        </span>
+    );
+};
+const formatAmount = (val: number) => Math.round(val).toLocaleString();
+
+const PortfolioBacktest: React.FC = () => {
+    const [dataType, setDataType] = useState<'淨值' | '市價'>('市價');
+    const [availableIds, setAvailableIds] = useState<string[]>([]);
+    const [holdings, setHoldings] = useState<HoldingInput[]>([]);
+    const [fundQuery, setFundQuery] = useState('');
+    const [startDate, setStartDate] = useState('');
+    const [endDate, setEndDate] = useState('');
+    const [initialAmount, setInitialAmount] = useState<number>(1000000);
+    const [rebalance, setRebalance] = useState<RebalanceRule>('quarterly');
+    const [threshold, setThreshold] = useState<number>(5); // %
+    const [applyFees, setApplyFees] = useState<boolean>(true);
+    const [adjustSplits, setAdjustSplits] = useState<boolean>(true);
+    const [histories, setHistories] = useState<FundHistory[]>([]);
+    // Annual expense ratio per fund; null when 基金費用.csv has nothing for it, absent while loading
+    const [annualFees, setAnnualFees] = useState<Map<string, AnnualCostRatio | null>>(new Map());
+    const [corporateActions, setCorporateActions] = useState<Map<string, CorporateAction[]>>(new Map());
+    const [calendar, setCalendar] = useState<TradingCalendar | undefined>(undefined);
+    const [loading, setLoading] = useState(false);
+    const [loadError, setLoadError] = useState('');
+
+    useEffect(() => {
+        fundDataService.getFundIdsWithHistory(dataType)
+            .then(setAvailableIds)
+            .catch(err => console.error('Failed to load fund list', err));
+    }, [dataType]);
+
+    useEffect(() => {
+        fundDataService.getCorporateActions().then(setCorporateActions);
+    }, []);
+
+    useEffect(() => {
+        fundDataService.getTradingCalendar()
+            .then(setCalendar)
+            .catch(err => console.error('Failed to load trading calendar', err));
+    }, []);
+
+    // Weight edits don't change this key, so they don't trigger a refetch
+    const fundIdsKey = holdings.map(h => h.fundId).join('|');
+
+    // Price history and expense ratios of the holdings; refetched only when the fund set changes
+    useEffect(() => {
+        const ids = fundIdsKey ? fundIdsKey.split('|') : [];
+        if (ids.length === 0) {
+            setHistories([]);
+            return;
+        }
+
+        let cancelled = false;
+        const fetchData = async () => {
+            setLoading(true);
+            setLoadError('');
+            try {
+                const history = await fundDataService.getFundHistory(
+                    ids, dataType,
+                    startDate ? startDate.replace(/-/g, '') : undefined,
+                    endDate ? endDate.replace(/-/g, '') : undefined
+                );
+                // 費用率 is reported monthly: the trailing 12-month sum, or the reported months (down to the
+                // latest one alone) scaled to a year
+                const trailing = await Promise.all(ids.map(id => fundDataService.getTrailingCostRatio(id)));
+                if (cancelled) return;
+                setHistories(history);
+                setAnnualFees(new Map(ids.map((id, i) => [id, trailing[i]])));
+            } catch (err) {
+                console.error('Failed to load backtest data', err);
+                if (!cancelled) setLoadError(`無法載入${dataType}資料`);
+            } finally {
+                if (!cancelled) setLoading(false);
+            }
+        };
+
+        fetchData();
+        return () => { cancelled = true; };
+    }, [fundIdsKey, dataType, startDate, endDate]);
+
+    const backtest = useMemo((): { result: BacktestResult | null; error: string } => {
+        if (holdings.length === 0 || histories.length === 0) return { result: null, error: '' };
+        const byId = new Map(histories.map(h => [h.fundId, h.data]));
+        if (holdings.some(h => !byId.has(h.fundId))) return { result: null, error: '' }; // still loading
+
+        // Recorded splits and distributions (reinvested) always apply; the split heuristic only covers
+        // funds with nothing in distributions.json
+        const series = holdings.map(h => {
+            const data = byId.get(h.fundId)!;
+            const actions = corporateActions.get(fundCode(h.fundId)) ?? [];
+            if (actions.length > 0) return adjustForCorporateActions(data, actions, 'total');
+            return adjustSplits ? adjustForStockSplits(data) : data;
+        });
+        const aligned = alignOnDateUnion(series);
+        try {
+            const result = runBacktest(aligned.dates, aligned.values, holdings.map(h => ({
+                key: h.fundId,
+                weight: h.weight,
+                // Funds with unknown fees are flagged in the holdings table rather than silently charged 0%
+                annualFee: applyFees ? (annualFees.get(h.fundId)?.expense ?? 0) / 100 : 0,
+            })), {
+                rebalance,
+                threshold: threshold / 100,
+                initialAmount,
+                calendar,
+            });
+            return { result, error: '' };
+        } catch (err) {
+            return { result: null, error: err instanceof Error ? err.message : String(err) };
+        }
+    }, [holdings, histories, adjustSplits, corporateActions, applyFees, annualFees, rebalance, threshold, initialAmount, calendar]);
+
+    const result = backtest.result;
+    const equitySeries = useMemo(
+        () => (result ? result.dates.map((date, i) => ({ date, value: result.equity[i] })) : []),
+        [result]
+    );
+    const metrics = useMemo(() => (result ? calculateMetrics(equitySeries) : null), [result, equitySeries]);
+    // The rebalanced portfolio's daily returns, resampled by the Monte Carlo projection
+    const projectionSeries = useMemo<RollingSeries[]>(
+        () => (equitySeries.length > 0 ? [{ key: 'portfolio', label: '投資組合', color: '#3b82f6', data: equitySeries }] : []),
+        [equitySeries]
+    );
+
+    const addFund = () => {
+        const fundId = availableIds.find(id => id === fundQuery.trim()) ??
+            availableIds.find(id => id.startsWith(`${fundQuery.trim()} `));
+        if (!fundId || holdings.some(h => h.fundId === fundId)) return;
+        setHoldings([...holdings, { fundId, weight: holdings.length === 0 ? 100 : 0 }]);
+        setFundQuery('');
+    };
+
+    const updateWeight = (fundId: string, weight: number) => {
+        setHoldings(holdings.map(h => (h.fundId === fundId ? { ...h, weight } : h)));
+    };
+
+    const equalWeights = () => {
+        setHoldings(holdings.map(h => ({ ...h, weight: +(100 / holdings.length).toFixed(2) })));
+    };
+
+    const weightTotal = holdings.reduce((sum, h) => sum + h.weight, 0);
+    const unknownFeeCount = holdings.filter(h => annualFees.get(h.fundId) === null).length;
+
+    const chartData = {
+        datasets: [{
+            label: '組合淨值',
+            data: result ? result.dates.map((date, i) => ({ x: parseToDate(date), y: result.equity[i] })) : [],
+            borderColor: '#3b82f6',
+            backgroundColor: '#3b82f6',
+            borderWidth: 1.5,
+            tension: 0.1,
+            pointRadius: 0,
+            pointHoverRadius: 4,
+        }],
+    };
+
+    const chartOptions = {
+        responsive: true,
+        maintainAspectRatio: false,
+        interaction: { mode: 'index' as const, intersect: false },
+        plugins: {
+            legend: { display: false },
+            tooltip: {
+                callbacks: {
+                    label: (ctx: TooltipItem<'line'>) => `${ctx.dataset.label}: ${formatAmount(ctx.parsed.y ?? 0)}`,
+                },
+            },
+        },
+        scales: {
+            x: {
+                type: 'time' as const,
+                time: { unit: 'month' as const, displayFormats: { month: 'yyyy/MM' } },
+                grid: { color: 'rgba(255, 255, 255, 0.1)' },
+            },
+            y: {
+                grid: { color: 'rgba(255, 255, 255, 0.1)' },
+                ticks: { callback: (value: string | number) => Number(value).toLocaleString() },
+            },
+        },
+    };
+
+    const finalValue = result ? result.equity[result.equity.length - 1] : null;
+
+    return (
+        <div className="portfolio-backtest">
+            <div className="backtest-card">
+                <h3>組合設定</h3>
+                <div className="backtest-controls">
+                    <label>
+                        資料
+                        <select value={dataType} onChange={(e) => setDataType(e.target.value as '淨值' | '市價')}>
+                            <option value="市價">市價</option>
+                            <option value="淨值">淨值</option>
+                        </select>
+                    </label>
+                    <label>
+                        起始日
+                        <input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+                    </label>
+                    <label>
+                        結束日
+                        <input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+                    </label>
+                    <label>
+                        初始金額
+                        <input
+                            type="number"
+                            min="1"
+                            step="10000"
+                            value={initialAmount}
+                            onChange={(e) => setInitialAmount(Number(e.target.value))}
+                        />
+                    </label>
+                    <label>
+                        再平衡
+                        <select value={rebalance} onChange={(e) => setRebalance(e.target.value as RebalanceRule)}>
+                            {REBALANCE_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                        </select>
+                    </label>
+                    {rebalance === 'threshold' && (
+                        <label title="任一基金權重偏離目標超過此值時再平衡">
+                            門檻
+                            <input
+                                type="number"
+                                min="0.5"
+                                step="0.5"
+                                value={threshold}
+                                onChange={(e) => setThreshold(Number(e.target.value))}
+                            />
+                            %
+                        </label>
+                    )}
+                    <label className="checkbox" title="依費用率 (經理費、保管費等) 逐日扣除。市價與淨值已反映費用，勾選代表再額外模擬一次費用拖累。">
+                        <input type="checkbox" checked={applyFees} onChange={(e) => setApplyFees(e.target.checked)} />
+                        扣除費用率
+                    </label>
+                    <label className="checkbox" title="distributions.json 記錄的拆分與配息一律調整；勾選後另對未記錄的基金自動偵測拆分">
+                        <input type="checkbox" checked={adjustSplits} onChange={(e) => setAdjustSplits(e.target.checked)} />
+                        自動偵測拆分
+                    </label>
+                </div>
+
+                <div className="holding-search">
+                    <input
+                        list="backtest-fund-ids"
+                        placeholder="輸入基金代碼或名稱"
+                        value={fundQuery}
+                        onChange={(e) => setFundQuery(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && addFund()}
+                    />
+                    <datalist id="backtest-fund-ids">
+                        {availableIds.map(id => <option key={id} value={id} />)}
+                    </datalist>
+                    <button className="toggle-btn" onClick={addFund}>加入</button>
+                    {holdings.length > 1 && <button className="toggle-btn" onClick={equalWeights}>平均權重</button>}
+                </div>
+
+                {holdings.length > 0 ? (
+                    <table className="holdings-table">
+                        <thead>
+                            <tr>
+                                <th>基金</th>
+                                <th>目標權重 (%)</th>
+                                <th title="近 12 個月費用率合計；不足 12 個月時依已揭露月份年化">年費用率</th>
+                                <th></th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {holdings.map(h => (
+                                <tr key={h.fundId}>
+                                    <td>{h.fundId}</td>
+                                    <td>
+                                        <input
+                                            type="number"
+                                            min="0"
+                                            step="5"
+                                            value={h.weight}
+                                            onChange={(e) => updateWeight(h.fundId, Number(e.target.value))}
+                                        />
+                                    </td>
+                                    <td>{formatAnnualFee(annualFees.get(h.fundId))}</td>
+                                    <td>
+                                        <button className="remove-btn" onClick={() => setHoldings(holdings.filter(o => o.fundId !== h.fundId))}>
+                                            <X size={14} />
+                                        </button>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                        <tfoot>
+                            <tr>
+                                <td>合計</td>
+                                <td className={Math.abs(weightTotal - 100) > 0.01 ? 'weight-warning' : ''}>
+                                    {weightTotal.toFixed(2)}%{Math.abs(weightTotal - 100) > 0.01 && ' (將依比例調整為 100%)'}
+                                </td>
+                                <td colSpan={2}></td>
+                            </tr>
+                        </tfoot>
+                    </table>
+                ) : (
+                    <span className="placeholder">加入基金以開始回測</span>
+                )}
+                {applyFees && unknownFeeCount > 0 && (
+                    <p className="fee-note">{unknownFeeCount} 檔基金沒有費用率資料，回測未扣除其費用。</p>
+                )}
+            </div>
+
+            {loadError && <div className="backtest-error">{loadError}</div>}
+            {backtest.error && <div className="backtest-error">{backtest.error}</div>}
+            {loading && <div className="placeholder">Loading Data...</div>}
+
+            {result && metrics && finalValue !== null && (
+                <>
+                    <div className="backtest-card">
+                        <h3>權益曲線 <small>({result.dates[0]} ~ {result.dates[result.dates.length - 1]})</small></h3>
+                        <div className="metric-strip">
+                            {[
+                                { label: '期末金額', value: formatAmount(finalValue), tone: null },
+                                { label: '總報酬', value: formatPercent((finalValue / initialAmount - 1) * 100), tone: finalValue - initialAmount },
+                                { label: '年化報酬', value: formatPercent(metrics.annualizedReturn), tone: metrics.annualizedReturn },
+                                { label: '年化波動', value: formatPercent(metrics.volatility), tone: null },
+                                { label: 'Sharpe', value: metrics.sharpeRatio?.toFixed(2) ?? '-', tone: null },
+                                { label: 'Sortino', value: metrics.sortinoRatio?.toFixed(2) ?? '-', tone: null },
+                                { label: 'Max DD', value: formatPercent(metrics.maxDrawdown !== null ? -metrics.maxDrawdown : null), tone: -1 },
+                                { label: '再平衡次數', value: String(result.rebalanceDates.length), tone: null },
+                                { label: '周轉率', value: formatPercent(result.turnover * 100), tone: null },
+                                { label: '費用', value: formatAmount(result.totalFees), tone: null },
+                            ].map(m => (
+                                <div key={m.label} className="metric">
+                                    <span className="label">{m.label}</span>
+                                    <span className={`value ${m.tone === null ? '' : m.tone >= 0 ? 'positive' : 'negative'}`}>{m.value}</span>
+                                </div>
+                            ))}
+                        </div>
+                        <div className="equity-chart">
+                            <Line data={chartData} options={chartOptions} />
+                        </div>
+                    </div>
+
+                    <div className="backtest-card">
+                        <h3>持有貢獻</h3>
+                        <table className="contribution-table">
+                            <thead>
+                                <tr>
+                                    <th>基金</th>
+                                    <th>目標權重</th>
+                                    <th>期末權重</th>
+                                    <th>期末市值</th>
+                                    <th title="對組合總報酬的貢獻 (百分點)，加總等於總報酬">報酬貢獻</th>
+                                    <th>費用</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {result.holdings.map(h => (
+                                    <tr key={h.key}>
+                                        <td>{h.key}</td>
+                                        <td>{formatPercent(h.targetWeight * 100)}</td>
+                                        <td>{formatPercent(h.endWeight * 100)}</td>
+                                        <td>{formatAmount(h.endValue)}</td>
+                                        <td className={h.contribution >= 0 ? 'positive' : 'negative'}>{formatPercent(h.contribution)}</td>
+                                        <td>{formatAmount(h.fees)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+
+                    <MonteCarloProjection series={projectionSeries} />
+                </>
+            )}
+        </div>
+    );
+};
+
+export default PortfolioBacktest;
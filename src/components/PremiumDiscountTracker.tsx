@@ -0,0 +1,227 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Line } from 'react-chartjs-2';
+import '../utils/chartSetup';
+import type { TooltipItem } from 'chart.js';
+import { fundDataService } from '../services/FundDataService';
+import type { FundBasicInfo, FundHistoryPoint } from '../services/FundDataService';
+import { calculatePremiumDiscount } from '../utils/premiumDiscount';
+import { parseToDate } from '../utils/tradingDate';
+import './PremiumDiscountTracker.scss';
+
+interface PremiumDiscountTrackerProps {
+    funds: FundBasicInfo[]; // Selected funds; each is tracked with both its 淨值 and 市價, whichever variant was picked
+    startDate: string; // YYYY-MM-DD
+    endDate: string;
+}
+
+const WINDOW_OPTIONS = [5, 20, 60];
+
+const formatPercent = (val: number | null) => (val === null ? '-' : `${val >= 0 ? '+' : ''}${val.toFixed(2)}%`);
+const toneClass = (val: number) => (val >= 0 ? 'positive' : 'negative');
+
+const PremiumDiscountTracker: React.FC<PremiumDiscountTrackerProps> = ({ funds, startDate, endDate }) => {
+    // Funds picked as both 淨值 and 市價 come first: those are the pairs the user asked to compare
+    const fundIds = useMemo(() => {
+        const ids = Array.from(new Set(funds.map(f => f.id)));
+        const paired = (id: string) => funds.filter(f => f.id === id).length > 1;
+        return [...ids.filter(paired), ...ids.filter(id => !paired(id))];
+    }, [funds]);
+
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [windowDays, setWindowDays] = useState<number>(20);
+    const [threshold, setThreshold] = useState<number>(1); // %
+    const [history, setHistory] = useState<{ request: string; nav: FundHistoryPoint[]; price: FundHistoryPoint[] } | null>(null);
+
+    const fundId = selectedId !== null && fundIds.includes(selectedId) ? selectedId : fundIds[0] ?? null;
+    const request = `${fundId}|${startDate}|${endDate}`;
+
+    useEffect(() => {
+        if (!fundId) return;
+        let cancelled = false;
+        const start = startDate.replace(/-/g, '');
+        const end = endDate ? endDate.replace(/-/g, '') : undefined;
+        Promise.all([
+            fundDataService.getFundHistory([fundId], '淨值', start, end),
+            fundDataService.getFundHistory([fundId], '市價', start, end),
+        ]).then(([nav, price]) => {
+            if (!cancelled) setHistory({ request: `${fundId}|${startDate}|${endDate}`, nav: nav[0]?.data ?? [], price: price[0]?.data ?? [] });
+        }).catch(error => {
+            console.error('Failed to load premium/discount history', error);
+            if (!cancelled) setHistory({ request: `${fundId}|${startDate}|${endDate}`, nav: [], price: [] });
+        });
+        return () => { cancelled = true; };
+    }, [fundId, startDate, endDate]);
+
+    // History of an earlier selection is ignored until the current one arrives
+    const current = history && history.request === request ? history : null;
+    const loading = current === null;
+    const result = useMemo(
+        () => (current ? calculatePremiumDiscount(current.nav, current.price, { window: windowDays, threshold }) : null),
+        [current, windowDays, threshold]
+    );
+
+    if (!fundId) return <div className="premium-discount"><span className="placeholder">請先選擇基金</span></div>;
+
+    const chartData = {
+        datasets: [
+            {
+                label: '折溢價',
+                data: (result?.points ?? []).map(p => ({ x: parseToDate(p.date), y: p.premium })),
+                borderColor: '#3b82f6',
+                backgroundColor: '#3b82f6',
+                borderWidth: 1,
+                pointRadius: (result?.points ?? []).map(p => (Math.abs(p.premium) >= threshold ? 2.5 : 0)),
+                pointBackgroundColor: (result?.points ?? []).map(p => (p.premium >= 0 ? '#ef4444' : '#10b981')),
+            },
+            {
+                label: `${windowDays} 日平均`,
+                data: (result?.points ?? []).map(p => ({ x: parseToDate(p.date), y: p.rollingAverage })),
+                borderColor: '#f59e0b',
+                backgroundColor: '#f59e0b',
+                borderWidth: 1.5,
+                pointRadius: 0,
+            },
+            {
+                label: `+${threshold}%`,
+                data: (result?.points ?? []).map(p => ({ x: parseToDate(p.date), y: threshold })),
+                borderColor: 'rgba(239, 68, 68, 0.5)',
+                backgroundColor: 'rgba(239, 68, 68, 0.5)',
+                borderDash: [4, 4],
+                borderWidth: 1,
+                pointRadius: 0,
+            },
+            {
+                label: `-${threshold}%`,
+                data: (result?.points ?? []).map(p => ({ x: parseToDate(p.date), y: -threshold })),
+                borderColor: 'rgba(16, 185, 129, 0.5)',
+                backgroundColor: 'rgba(16, 185, 129, 0.5)',
+                borderDash: [4, 4],
+                borderWidth: 1,
+                pointRadius: 0,
+            },
+        ].map(d => ({ tension: 0, pointHoverRadius: 3, ...d })),
+    };
+
+    const chartOptions = {
+        responsive: true,
+        maintainAspectRatio: false,
+        interaction: { mode: 'index' as const, intersect: false },
+        plugins: {
+            legend: { display: true, position: 'bottom' as const, labels: { boxWidth: 12 } },
+            tooltip: {
+                callbacks: {
+                    label: (ctx: TooltipItem<'line'>) => `${ctx.dataset.label}: ${formatPercent(ctx.parsed.y)}`,
+                },
+            },
+        },
+        scales: {
+            x: {
+                type: 'time' as const,
+                time: { unit: 'month' as const, displayFormats: { month: 'yyyy/MM' } },
+                grid: { color: 'rgba(255, 255, 255, 0.1)' },
+            },
+            y: {
+                grid: { color: 'rgba(255, 255, 255, 0.1)' },
+                ticks: { callback: (value: string | number) => `${Number(value).toFixed(1)}%` },
+            },
+        },
+    };
+
+    return (
+        <div className="premium-discount">
+            <div className="premium-discount-controls">
+                <label>
+                    基金
+                    <select value={fundId} onChange={(e) => setSelectedId(e.target.value)}>
+                        {fundIds.map(id => <option key={id} value={id}>{id}</option>)}
+                    </select>
+                </label>
+                <label>
+                    移動平均
+                    <select value={windowDays} onChange={(e) => setWindowDays(Number(e.target.value))}>
+                        {WINDOW_OPTIONS.map(n => <option key={n} value={n}>{n} 日</option>)}
+                    </select>
+                </label>
+                <label title="折溢價絕對值達此門檻的交易日會被標記">
+                    門檻
+                    <input type="number" min="0.1" step="0.1" value={threshold} onChange={(e) => setThreshold(Number(e.target.value))} />
+                    %
+                </label>
+            </div>
+
+            {loading && <span className="placeholder">Loading Data...</span>}
+            {!loading && current && !result && (
+                <span className="placeholder">
+                    {current.nav.length === 0 ? `${fundId} 沒有淨值資料` : current.price.length === 0 ? `${fundId} 沒有市價資料` : '淨值與市價沒有共同的交易日'}
+                </span>
+            )}
+
+            {!loading && result && (
+                <>
+                    <div className="premium-summary">
+                        {[
+                            { label: `最新 (${result.latest.date})`, value: result.latest.premium },
+                            { label: `${windowDays} 日平均`, value: result.latest.rollingAverage },
+                            { label: '期間平均', value: result.average },
+                            { label: `最大溢價 (${result.maxPremium.date})`, value: result.maxPremium.premium },
+                            { label: `最大折價 (${result.maxDiscount.date})`, value: result.maxDiscount.premium },
+                        ].map(m => (
+                            <div key={m.label} className="metric">
+                                <span className="label">{m.label}</span>
+                                <span className={`value ${m.value === null ? '' : toneClass(m.value)}`}>{formatPercent(m.value)}</span>
+                            </div>
+                        ))}
+                        <div className="metric">
+                            <span className="label">Z-Score</span>
+                            <span className="value">{result.latest.zScore !== null ? result.latest.zScore.toFixed(2) : '-'}</span>
+                        </div>
+                        <div className="metric">
+                            <span className="label">溢價天數</span>
+                            <span className="value">{result.premiumDays.toFixed(1)}%</span>
+                        </div>
+                    </div>
+
+                    <div className="premium-chart">
+                        <Line data={chartData} options={chartOptions} />
+                    </div>
+
+                    <div className="premium-flags">
+                        <h4>超過 ±{threshold}% 的交易日 ({result.flagged.length})</h4>
+                        {result.flagged.length > 0 ? (
+                            <div className="table-container">
+                                <table>
+                                    <thead>
+                                        <tr>
+                                            <th>日期</th>
+                                            <th>淨值</th>
+                                            <th>市價</th>
+                                            <th>折溢價</th>
+                                            <th>{windowDays} 日平均</th>
+                                            <th>Z-Score</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {result.flagged.map(p => (
+                                            <tr key={p.date}>
+                                                <td>{p.date}</td>
+                                                <td>{p.nav.toFixed(2)}</td>
+                                                <td>{p.price.toFixed(2)}</td>
+                                                <td className={toneClass(p.premium)}>{formatPercent(p.premium)}</td>
+                                                <td>{formatPercent(p.rollingAverage)}</td>
+                                                <td>{p.zScore !== null ? p.zScore.toFixed(2) : '-'}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        ) : (
+                            <span className="placeholder">無</span>
+                        )}
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default PremiumDiscountTracker;
@@ -0,0 +1,144 @@
+import React, { useMemo, useState } from 'react';
+import { Line } from 'react-chartjs-2';
+import '../utils/chartSetup';
+import type { TooltipItem } from 'chart.js';
+import type { FundHistoryPoint } from '../services/FundDataService';
+import { calculateRollingMetrics } from '../utils/FinancialMetrics';
+import type { MetricsConfig, RollingMetricsPoint } from '../utils/FinancialMetrics';
+import { parseToDate } from '../utils/tradingDate';
+import './RollingMetricsChart.scss';
+
+export interface RollingSeries {
+    key: string;
+    label: string;
+    color: string;
+    data: FundHistoryPoint[];
+}
+
+interface RollingMetricsChartProps {
+    series: RollingSeries[];
+    benchmark: { label: string; data: FundHistoryPoint[] } | null;
+    config: MetricsConfig;
+}
+
+type RollingMetric = 'return' | 'volatility' | 'sharpeRatio' | 'beta' | 'maxDrawdown';
+
+const WINDOWS = [
+    { label: '3M', months: 3 },
+    { label: '6M', months: 6 },
+    { label: '1Y', months: 12 },
+];
+
+const METRICS: { key: RollingMetric; label: string; unit: string }[] = [
+    { key: 'return', label: '報酬率', unit: '%' },
+    { key: 'volatility', label: '波動率', unit: '%' },
+    { key: 'sharpeRatio', label: '夏普比率', unit: '' },
+    { key: 'beta', label: 'Beta', unit: '' },
+    { key: 'maxDrawdown', label: '最大回撤', unit: '%' },
+];
+
+// Drawdown is stored as a positive depth but plotted below zero, like the main table shows it
+const metricValue = (point: RollingMetricsPoint, metric: RollingMetric): number | null =>
+    metric === 'maxDrawdown' ? -point.maxDrawdown : point[metric];
+
+const RollingMetricsChart: React.FC<RollingMetricsChartProps> = ({ series, benchmark, config }) => {
+    const [windowMonths, setWindowMonths] = useState<number>(6);
+    const [metric, setMetric] = useState<RollingMetric>('return');
+
+    const needsBenchmark = metric === 'beta';
+
+    const rolling = useMemo(() => {
+        // Beta needs the benchmark; skip aligning it when another metric is shown
+        const benchmarkData = needsBenchmark ? benchmark?.data : undefined;
+        return series.map(s => ({
+            ...s,
+            points: calculateRollingMetrics(s.data, windowMonths, config, benchmarkData),
+        }));
+    }, [series, benchmark, windowMonths, config, needsBenchmark]);
+
+    const unit = METRICS.find(m => m.key === metric)!.unit;
+
+    const chartData = {
+        datasets: rolling.map(s => ({
+            label: s.label,
+            data: s.points.flatMap(p => {
+                const value = metricValue(p, metric);
+                return value === null ? [] : [{ x: parseToDate(p.date), y: value }];
+            }),
+            borderColor: s.color,
+            backgroundColor: s.color,
+            borderWidth: 1.5,
+            tension: 0.1,
+            pointRadius: 0,
+            pointHoverRadius: 4,
+        })),
+    };
+
+    const chartOptions = {
+        responsive: true,
+        maintainAspectRatio: false,
+        interaction: { mode: 'index' as const, intersect: false },
+        plugins: {
+            legend: { display: true, position: 'bottom' as const, labels: { boxWidth: 12 } },
+            tooltip: {
+                callbacks: {
+                    label: (ctx: TooltipItem<'line'>) => `${ctx.dataset.label}: ${(ctx.parsed.y ?? 0).toFixed(2)}${unit}`,
+                },
+            },
+        },
+        scales: {
+            x: {
+                type: 'time' as const,
+                time: { unit: 'month' as const, displayFormats: { month: 'yyyy/MM' } },
+                grid: { color: 'rgba(255, 255, 255, 0.1)' },
+            },
+            y: {
+                grid: { color: 'rgba(255, 255, 255, 0.1)' },
+                ticks: { callback: (value: string | number) => `${value}${unit}` },
+            },
+        },
+    };
+
+    const hasPoints = chartData.datasets.some(d => d.data.length > 0);
+
+    return (
+        <div className="rolling-metrics">
+            <div className="rolling-metrics-header">
+                <h3>Rolling {WINDOWS.find(w => w.months === windowMonths)?.label} Metrics</h3>
+                <div className="rolling-metrics-controls">
+                    {WINDOWS.map(w => (
+                        <button
+                            key={w.label}
+                            className={`toggle-btn ${windowMonths === w.months ? 'active' : ''}`}
+                            onClick={() => setWindowMonths(w.months)}
+                        >
+                            {w.label}
+                        </button>
+                    ))}
+                    <span className="control-divider">|</span>
+                    {METRICS.map(m => (
+                        <button
+                            key={m.key}
+                            className={`toggle-btn ${metric === m.key ? 'active' : ''}`}
+                            onClick={() => setMetric(m.key)}
+                        >
+                            {m.label}
+                        </button>
+                    ))}
+                </div>
+            </div>
+            <div className="rolling-metrics-chart">
+                {needsBenchmark && !benchmark ? (
+                    <span className="placeholder">請先在 Benchmark-Relative Metrics 設定基準</span>
+                ) : hasPoints ? (
+                    <Line data={chartData} options={chartOptions} />
+                ) : (
+                    <span className="placeholder">資料期間不足一個完整視窗</span>
+                )}
+            </div>
+            {needsBenchmark && benchmark && <div className="rolling-metrics-note">基準：{benchmark.label}</div>}
+        </div>
+    );
+};
+
+export default RollingMetricsChart;
@@ -51,7 +51,9 @@ const Sidebar: React.FC<SidebarProps> = ({ activeTab, onTabChange, onLogout, onL
             subItems: [
                 { id: 'fund-basic', label: 'Basic Information' },
                 { id: 'fund-ranking', label: 'Historical Ranking' },
-                { id: 'fund-comparison', label: 'Comparison' }
+                { id: 'fund-comparison', label: 'Comparison' },
+                { id: 'fund-holdings-changes', label: 'Holdings Changes' },
+                { id: 'fund-backtest', label: 'Portfolio Backtest' }
             ]
         },
         { id: 'articles', label: 'Articles', icon: FileText },
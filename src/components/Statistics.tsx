@@ -1,5 +1,7 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import { ArrowUp, ArrowDown, ChevronLeft, ChevronRight } from 'lucide-react';
+import { DATA_CATALOG } from '../services/dataCatalog';
+import { fetchJsonDataset } from '../services/datasetLoader';
 import './MarketOverview.scss'; // Reuse styles
 
 interface RankingData {
@@ -88,25 +90,22 @@ const Statistics: React.FC<StatisticsProps> = ({ filters, setFilters }) => {
                 // 1. Stock Info (if not loaded)
                 if (stockInfo.length === 0) {
                     promises.push(
-                        fetch(`${import.meta.env.BASE_URL}data/stock_info.json`)
-                            .then(res => res.json())
+                        fetchJsonDataset<StockInfo[]>(DATA_CATALOG.stockInfo)
                             .then(data => setStockInfo(data))
                     );
                 }
 
                 // 2. Raw Stats (always needed)
                 promises.push(
-                    fetch(`${import.meta.env.BASE_URL}data/raw_stats_${suffix}.json`)
-                        .then(res => res.json())
-                        .then((data: RawStatData[]) => setRawData(data))
+                    fetchJsonDataset<RawStatData[]>(suffix === '3y' ? DATA_CATALOG.rawStats3y : DATA_CATALOG.rawStats5y)
+                        .then(data => setRawData(data))
                 );
 
                 // 3. Rankings (only if in rankings mode)
                 if (viewMode === 'rankings') {
                     promises.push(
-                        fetch(`${import.meta.env.BASE_URL}data/rankings_${suffix}.json`)
-                            .then(res => res.json())
-                            .then((data: RankingsMap) => {
+                        fetchJsonDataset<RankingsMap>(suffix === '3y' ? DATA_CATALOG.rankings3y : DATA_CATALOG.rankings5y)
+                            .then(data => {
                                 setRankingsData(data);
                                 // Update available sheets in parent
                                 const sheets = Object.keys(data);
@@ -1,5 +1,11 @@
 import { useState, useEffect } from 'react';
 import JSZip from 'jszip';
+import { getChipZip, saveChipZip } from '../utils/db';
+import { csvWorkerService } from '../services/CsvWorkerService';
+import { convertDate } from '../utils/tradingDate';
+import { DATA_CATALOG } from '../services/dataCatalog';
+import { fetchJsonDataset } from '../services/datasetLoader';
+import type { BrokerTradeRow } from '../services/CsvWorkerService';
 
 export interface BrokerSummary {
     broker: string;
@@ -25,8 +31,7 @@ export const useBrokerageData = () => {
     const [zipCache, setZipCache] = useState<Map<string, JSZip>>(new Map());
 
     useEffect(() => {
-        fetch(`${import.meta.env.BASE_URL}data/chips/dates.json?t=${new Date().getTime()}`)
-            .then(res => res.json())
+        fetchJsonDataset<string[]>(DATA_CATALOG.chipsDates, { bustCache: true })
             .then(data => {
                 const sortedDates = data.sort((a: string, b: string) => b.localeCompare(a));
                 setDates(sortedDates);
@@ -35,83 +40,13 @@ export const useBrokerageData = () => {
                     setEndDate(sortedDates[0]);
                 }
             })
-            .catch(err => console.error('Failed to load dates:', err));
+            .catch(err => {
+                console.error('Failed to load dates:', err);
+                setError(err instanceof Error ? err.message : String(err));
+            });
     }, []);
 
-    const parseDoubleColumnCSV = (text: string) => {
-        const lines = text.split(/\r?\n/).filter(line => line.trim() !== '');
-        const rows: any[] = [];
-
-        // Skip header (first line)
-        for (let i = 1; i < lines.length; i++) {
-            const line = lines[i];
-            const parts = line.split(',');
-
-            // Left column (0-4)
-            if (parts.length >= 5) {
-                const broker = parts[1]?.trim();
-                if (broker) {
-                    rows.push({
-                        broker: broker,
-                        price: parseFloat(parts[2]),
-                        buyVol: parseInt(parts[3]) || 0,
-                        sellVol: parseInt(parts[4]) || 0
-                    });
-                }
-            }
-
-            // Right column (6-10)
-            if (parts.length >= 11) {
-                const broker = parts[7]?.trim();
-                if (broker) {
-                    rows.push({
-                        broker: broker,
-                        price: parseFloat(parts[8]),
-                        buyVol: parseInt(parts[9]) || 0,
-                        sellVol: parseInt(parts[10]) || 0
-                    });
-                }
-            }
-        }
-        return rows;
-    };
-
-    const parseOTCcsv = (text: string) => {
-        const lines = text.split(/\r?\n/).filter(line => line.trim() !== '');
-        const rows: any[] = [];
-        let startIndex = 0;
-
-        // Look for the header line "序號,券商,價格,買進股數,賣出股數"
-        for (let i = 0; i < lines.length; i++) {
-            if (lines[i].includes('序號,券商,價格')) {
-                startIndex = i + 1;
-                break;
-            }
-        }
-
-        for (let i = startIndex; i < lines.length; i++) {
-            const line = lines[i];
-            // Format: "1","1040 臺銀證券","56.50","1000","0"
-            // Simple split by comma might work if no commas in values, but safer to respect quotes
-            // Strip quotes first
-            const parts = line.split(',').map(p => p.trim().replace(/^"|"$/g, ''));
-
-            if (parts.length >= 5) {
-                const broker = parts[1];
-                if (broker) {
-                    rows.push({
-                        broker: broker,
-                        price: parseFloat(parts[2]),
-                        buyVol: parseInt(parts[3]) || 0,
-                        sellVol: parseInt(parts[4]) || 0
-                    });
-                }
-            }
-        }
-        return rows;
-    };
-
-    const processStockData = (rawRows: any[]) => {
+    const processStockData = (rawRows: BrokerTradeRow[]) => {
         const brokerMap = new Map<string, BrokerSummary>();
 
         rawRows.forEach(row => {
@@ -168,7 +103,7 @@ export const useBrokerageData = () => {
 
             console.log(`Fetching data for ${targetDates.length} days...`);
 
-            const allRows: any[] = [];
+            const allRows: BrokerTradeRow[] = [];
 
             const BATCH_SIZE = 5;
             for (let i = 0; i < targetDates.length; i += BATCH_SIZE) {
@@ -180,10 +115,14 @@ export const useBrokerageData = () => {
                         let zip = zipCache.get(date);
 
                         if (!zip) {
-                            const response = await fetch(`${import.meta.env.BASE_URL}data/chips/${date}.zip`);
-                            if (!response.ok) return;
-                            const blob = await response.blob();
-                            zip = await JSZip.loadAsync(blob);
+                            let buffer = await getChipZip(date);
+                            if (!buffer) {
+                                const response = await fetch(`${import.meta.env.BASE_URL}data/chips/${date}.zip`);
+                                if (!response.ok) return;
+                                buffer = await response.arrayBuffer();
+                                await saveChipZip(date, buffer);
+                            }
+                            zip = await JSZip.loadAsync(buffer);
                             setZipCache(prev => new Map(prev).set(date, zip!));
                         }
 
@@ -199,12 +138,8 @@ export const useBrokerageData = () => {
                         if (!file) {
                             // Try ROC Date format (e.g. 1141111 for 20251111)
                             // user reported: 1240_1141111.csv
-                            try {
-                                const year = parseInt(date.substring(0, 4));
-                                const monthDay = date.substring(4);
-                                const rocYear = year - 1911;
-                                const rocDate = `${rocYear}${monthDay}`;
-
+                            const rocDate = convertDate(date, 'rocCompact');
+                            if (rocDate) {
                                 // Try with folder
                                 fileName = `${date}/${stockCode}_${rocDate}.csv`;
                                 file = zip.file(fileName);
@@ -214,8 +149,8 @@ export const useBrokerageData = () => {
                                     fileName = `${stockCode}_${rocDate}.csv`;
                                     file = zip.file(fileName);
                                 }
-                            } catch (e) {
-                                console.warn('Failed to convert to ROC date', e);
+                            } else {
+                                console.warn('Failed to convert to ROC date', date);
                             }
                         }
 
@@ -227,23 +162,9 @@ export const useBrokerageData = () => {
 
                         if (!file) return;
 
-                        const uint8Array = await file.async('uint8array');
-                        let decodedText = '';
-                        try {
-                            const decoder = new TextDecoder('big5', { fatal: true });
-                            decodedText = decoder.decode(uint8Array);
-                        } catch (e) {
-                            const decoder = new TextDecoder('utf-8');
-                            decodedText = decoder.decode(uint8Array);
-                        }
-
-                        let dayRows = [];
-                        // Detect file type
-                        if (decodedText.includes('券商買賣證券成交價量資訊')) {
-                            dayRows = parseOTCcsv(decodedText);
-                        } else {
-                            dayRows = parseDoubleColumnCSV(decodedText);
-                        }
+                        // Decoding (Big5 or UTF-8) and parsing happen in the CSV worker
+                        const buffer = await file.async('arraybuffer');
+                        const dayRows = await csvWorkerService.parseBrokerTrades({ buffer, encoding: 'big5' });
                         for (const row of dayRows) {
                             allRows.push(row);
                         }
@@ -280,32 +201,10 @@ export const useBrokerageData = () => {
         const reader = new FileReader();
 
         reader.readAsArrayBuffer(file);
-        reader.onload = (e) => {
+        reader.onload = async (e) => {
             try {
                 const buffer = e.target?.result as ArrayBuffer;
-                let decodedText = '';
-                try {
-                    const decoder = new TextDecoder('big5', { fatal: true });
-                    decodedText = decoder.decode(buffer);
-                } catch (e) {
-                    const decoder = new TextDecoder('utf-8');
-                    decodedText = decoder.decode(buffer);
-                }
-
-                let rows = [];
-                if (decodedText.includes('券商買賣證券成交價量資訊')) {
-                    rows = parseOTCcsv(decodedText);
-                } else {
-                    rows = parseDoubleColumnCSV(decodedText);
-                }
-
-                if (rows.length === 0) {
-                    // Try the other parser just in case
-                    if (!decodedText.includes('券商買賣證券成交價量資訊')) {
-                        const retryRows = parseOTCcsv(decodedText);
-                        if (retryRows.length > 0) rows = retryRows;
-                    }
-                }
+                const rows = await csvWorkerService.parseBrokerTrades({ buffer, encoding: 'big5' });
                 if (rows.length === 0) {
                     throw new Error('No valid data found in CSV');
                 }
@@ -1,27 +1,46 @@
-import React, { useState, useEffect, useMemo, useRef } from 'react';
-import { Line } from 'react-chartjs-2';
+import React, { useState, useEffect, useMemo, useRef, useCallback } from 'react';
+import { Line, Bar } from 'react-chartjs-2';
 import {
     Chart as ChartJS,
     CategoryScale,
     LinearScale,
     PointElement,
     LineElement,
+    BarElement,
     Title,
     Tooltip,
     Legend,
-    TimeScale
+    TimeScale,
+    type TooltipItem
 } from 'chart.js';
 import 'chartjs-adapter-date-fns';
-import { fundDataService } from '../services/FundDataService';
-import type { FundHistory, FundBasicInfo, FundFee } from '../services/FundDataService';
+import { fundDataService, PORTFOLIO_ALLOCATION_LABELS } from '../services/FundDataService';
+import type { AnnualCostRatio, CorporateAction, FundHistory, FundHistoryPoint, FundBasicInfo, FundFee, FundPortfolio } from '../services/FundDataService';
+import { parseToDate } from '../utils/tradingDate';
+import { adjustForStockSplits } from '../utils/splitAdjustment';
+import { adjustForCorporateActions, fundCode } from '../utils/distributionAdjustment';
+import type { ReturnBasis } from '../utils/distributionAdjustment';
+import { alignOnDateUnion, calculateDetailedStats, calculateMetrics, calculateRelativeMetrics, DEFAULT_METRICS_CONFIG } from '../utils/FinancialMetrics';
+import type { DetailedMetrics, FinancialMetrics, MetricsConfig, RelativeMetrics, ReturnFrequency } from '../utils/FinancialMetrics';
 import './FundComparison.scss';
-import { X, Eye, EyeOff, FileText, BarChart2 } from 'lucide-react';
+import { X, Eye, EyeOff, FileText, BarChart2, Layers, PiggyBank, Sparkles, Scale, PieChart } from 'lucide-react';
+import FundSectorExposure from '../components/FundSectorExposure';
+import FundHoldingsOverlap from '../components/FundHoldingsOverlap';
+import RollingMetricsChart from '../components/RollingMetricsChart';
+import FundCorrelationMatrix from '../components/FundCorrelationMatrix';
+import EfficientFrontier from '../components/EfficientFrontier';
+import DrawdownAnalysis from '../components/DrawdownAnalysis';
+import DcaSimulator from '../components/DcaSimulator';
+import MonteCarloProjection from '../components/MonteCarloProjection';
+import PremiumDiscountTracker from '../components/PremiumDiscountTracker';
+import type { RollingSeries } from '../components/RollingMetricsChart';
 
 ChartJS.register(
     CategoryScale,
     LinearScale,
     PointElement,
     LineElement,
+    BarElement,
     Title,
     Tooltip,
     Legend,
@@ -37,21 +56,28 @@ interface FundComparisonProps {
     setAlignment: (val: 'price' | 'percentage') => void;
 }
 
-interface FundMetrics {
-    roi1M: number | null;
-    roi3M: number | null;
-    roi6M: number | null;
-    roi1Y: number | null;
-    roi2Y: number | null;
-    roiYTD: number | null;
-    volatility: number | null;
-    sharpeRatio: number | null;
-    sortinoRatio: number | null;
-    maxDrawdown: number | null;
-    winRate: number | null;
+interface SeriesRef {
+    id: string;
+    type: '淨值' | '市價';
 }
 
+// Benchmarks offered even when not selected: ETFs tracking 台灣50 and the 加權指數
+const BENCHMARK_PRESETS: SeriesRef[] = [
+    { id: '0050 元大台灣50', type: '市價' },
+    { id: '006204 永豐臺灣加權', type: '市價' },
+];
+
+const seriesKey = (ref: SeriesRef) => `${ref.id}-${ref.type}`;
+
+const SERIES_COLORS = ['#3b82f6', '#ef4444', '#10b981', '#f59e0b', '#8b5cf6', '#ec4899'];
 
+// Annual cost cell with the period behind it; fewer than 12 reported months are scaled up to a year
+const formatAnnualCost = (cost: AnnualCostRatio | null | undefined, key: 'expense' | 'total') => {
+    if (cost === undefined) return '-';
+    if (cost === null) return '無費用資料';
+    const basis = cost.months >= 12 ? '近 12 個月' : `近 ${cost.months} 個月年化`;
+    return `${cost[key].toFixed(2)}% (${basis})`;
+};
 
 // Hover data type
 interface HoverData {
@@ -59,273 +85,6 @@ interface HoverData {
     values: { fundId: string; shortName: string; dataType: string; label: string; value: number; color: string }[];
 }
 
-interface DetailedMetrics {
-    positiveMonths: number;
-    negativeMonths: number;
-    annualizedReturn: number | null;
-    annualizedVolatility: number | null;
-    annualizedDownsideDeviation: number | null;
-    maxDrawdown: number | null;
-    monthlyVaR95: number | null;
-    monthlyCVaR95: number | null;
-    sharpeRatio: number | null;
-    sortinoRatio: number | null;
-    calmarRatio: number | null;
-    skewness: number | null;
-    kurtosis: number | null;
-    profitFactor: number | null;
-    avgMonthlyGain: number | null;
-    avgMonthlyLoss: number | null;
-}
-
-// --- Statistical Helper Functions ---
-
-const calculateDetailedStats = (data: { date: string; value: number }[]): DetailedMetrics | null => {
-    if (data.length < 30) return null;
-
-    // 1. Resample to Monthly
-    // Group by Year-Month, take the last value of each month
-    const monthlyMap = new Map<string, number>();
-    const sortedData = [...data].sort((a, b) => {
-        const da = new Date(a.date.split('/').map(Number) as [number, number, number] | any); // quick parse assuming yyyy/mm/dd
-        const db = new Date(b.date.split('/').map(Number) as [number, number, number] | any);
-        return da.getTime() - db.getTime();
-    });
-
-    // Helper to parse "yyyy/mm/dd"
-    const parseDate = (d: string) => {
-        const parts = d.split('/');
-        return new Date(parseInt(parts[0]), parseInt(parts[1]) - 1, parseInt(parts[2]));
-    };
-
-    // Sort by date object
-    sortedData.sort((a, b) => parseDate(a.date).getTime() - parseDate(b.date).getTime());
-
-    sortedData.forEach(d => {
-        const date = parseDate(d.date);
-        const key = `${date.getFullYear()}-${date.getMonth()}`; // e.g. "2023-0" for Jan
-        monthlyMap.set(key, d.value); // Overwrite, so last one stays
-    });
-
-    const monthlyValues = Array.from(monthlyMap.values());
-    const monthlyReturns: number[] = [];
-    for (let i = 1; i < monthlyValues.length; i++) {
-        monthlyReturns.push((monthlyValues[i] - monthlyValues[i - 1]) / monthlyValues[i - 1]);
-    }
-
-    // Also need Daily Returns for some stats (Vol, Sharpe, Sortino are usually daily annualized)
-    // But request asks for "Year Stats" in context of comparison table. 
-    // The "Annualized Volatility" in the example (34.02%) matches Daily Volatility * sqrt(252).
-    // So sticking to DAILY for Vol, Sharpe, Sortino. 
-    // MONTHLY for VaR, CVaR, Skew, Kurtosis, Profit Factor.
-
-    const dailyReturns: number[] = [];
-    for (let i = 1; i < sortedData.length; i++) {
-        dailyReturns.push((sortedData[i].value - sortedData[i - 1].value) / sortedData[i - 1].value);
-    }
-
-    // --- Calculations ---
-
-    // Basic
-    const positiveMonths = monthlyReturns.filter(r => r > 0).length;
-    const negativeMonths = monthlyReturns.filter(r => r < 0).length;
-
-    // Annualized Return (CAGR)
-    const totalYears = (parseDate(sortedData[sortedData.length - 1].date).getTime() - parseDate(sortedData[0].date).getTime()) / (1000 * 3600 * 24 * 365.25);
-    const totalReturn = (sortedData[sortedData.length - 1].value - sortedData[0].value) / sortedData[0].value;
-    const annualizedReturn = Math.pow(1 + totalReturn, 1 / totalYears) - 1;
-
-    // Volatility (Daily Annualized)
-    const meanDaily = dailyReturns.reduce((a, b) => a + b, 0) / dailyReturns.length;
-    const varDaily = dailyReturns.reduce((a, b) => a + Math.pow(b - meanDaily, 2), 0) / dailyReturns.length;
-    const annualizedVolatility = Math.sqrt(varDaily) * Math.sqrt(252);
-
-    // Downside Deviation (Daily Annualized for Sortino) - Need to match typical definition
-    // Note: The user prompt asked for "Annualized Downside Deviation (%)" in the Risk Metrics section. 
-    // Usually matched with Sortino.
-
-    const sumSqNegDaily = dailyReturns.reduce((acc, r) => r < 0 ? acc + r * r : acc, 0); // Target=0
-    const downsideDevDaily = Math.sqrt(sumSqNegDaily / dailyReturns.length) * Math.sqrt(252);
-
-    // Max Drawdown
-    let maxDD = 0;
-    let peak = sortedData[0].value;
-    for (const d of sortedData) {
-        if (d.value > peak) peak = d.value;
-        const dd = (d.value - peak) / peak;
-        if (dd < maxDD) maxDD = dd;
-    }
-
-    // Monthly VaR 95% (5th percentile)
-    const sortedMonthlyReturns = [...monthlyReturns].sort((a, b) => a - b);
-    const index95 = Math.floor(monthlyReturns.length * 0.05);
-    const monthlyVaR95 = sortedMonthlyReturns[index95] || 0;
-
-    // Monthly CVaR 95%
-    const tailReturns = sortedMonthlyReturns.slice(0, index95 + 1); // +1 to include the VaR point or just below? Usually below.
-    // If index is 0, just take the first one.
-    const effectiveTail = tailReturns.length > 0 ? tailReturns : [monthlyVaR95];
-    const monthlyCVaR95 = effectiveTail.reduce((a, b) => a + b, 0) / effectiveTail.length;
-
-    // Risk Free Rate
-    const rf = 0.012; // 1.2%
-
-    // Sharpe (using annualized daily stats)
-    const sharpeRatio = annualizedVolatility > 0 ? (annualizedReturn - rf) / annualizedVolatility : 0;
-
-    // Sortino (using annualized daily stats)
-    const sortinoRatio = downsideDevDaily > 0 ? (annualizedReturn - rf) / downsideDevDaily : 0;
-
-    // Calmar Ratio
-    const calmarRatio = maxDD < 0 ? annualizedReturn / Math.abs(maxDD) : 0;
-
-    // Distribution (Monthly)
-    // Skewness = E[((x-mu)/sigma)^3]
-    const meanMonthly = monthlyReturns.reduce((a, b) => a + b, 0) / monthlyReturns.length;
-    const stdMonthly = Math.sqrt(monthlyReturns.reduce((a, b) => a + Math.pow(b - meanMonthly, 2), 0) / monthlyReturns.length);
-
-    let skewnessSum = 0;
-    let kurtosisSum = 0;
-    monthlyReturns.forEach(r => {
-        skewnessSum += Math.pow((r - meanMonthly) / stdMonthly, 3);
-        kurtosisSum += Math.pow((r - meanMonthly) / stdMonthly, 4);
-    });
-    const skewness = skewnessSum / monthlyReturns.length;
-    const kurtosis = (kurtosisSum / monthlyReturns.length) - 3; // Excess Kurtosis
-
-    // Profit Factor (Gross Gain / |Gross Loss|) - using Monthly or Daily?
-    // "赚的总金额是赔的总金额的几倍" - usually trade by trade. Here monthly is a good proxy for "periodic outcome".
-    // Using Monthly returns sum
-    const grossGain = monthlyReturns.filter(r => r > 0).reduce((a, b) => a + b, 0);
-    const grossLoss = Math.abs(monthlyReturns.filter(r => r < 0).reduce((a, b) => a + b, 0));
-    const profitFactor = grossLoss > 0 ? grossGain / grossLoss : grossGain > 0 ? 999 : 0;
-
-    // Avg Monthly Gain/Loss
-    const posMonths = monthlyReturns.filter(r => r > 0);
-    const negMonths = monthlyReturns.filter(r => r < 0);
-    const avgMonthlyGain = posMonths.length > 0 ? posMonths.reduce((a, b) => a + b, 0) / posMonths.length : 0;
-    const avgMonthlyLoss = negMonths.length > 0 ? negMonths.reduce((a, b) => a + b, 0) / negMonths.length : 0;
-
-    return {
-        positiveMonths,
-        negativeMonths,
-        annualizedReturn: annualizedReturn * 100,
-        annualizedVolatility: annualizedVolatility * 100,
-        annualizedDownsideDeviation: downsideDevDaily * 100,
-        maxDrawdown: maxDD * 100,
-        monthlyVaR95: monthlyVaR95 * 100,
-        monthlyCVaR95: monthlyCVaR95 * 100,
-        sharpeRatio,
-        sortinoRatio,
-        calmarRatio,
-        skewness,
-        kurtosis,
-        profitFactor,
-        avgMonthlyGain: avgMonthlyGain * 100,
-        avgMonthlyLoss: avgMonthlyLoss * 100
-    };
-};
-
-// Helper function to detect stock splits and adjust historical data
-// Only detects ONE split - looks for a sharp drop that matches a known split ratio
-function adjustForStockSplits(data: { date: string; value: number }[]): { date: string; value: number }[] {
-    if (data.length < 2) return data;
-
-    // Filter out invalid values (0, negative, or very small values)
-    const validData = data.filter(d => d.value > 1);
-    if (validData.length < 2) return data;
-
-    // Helper to parse date string to Date object
-    const parseDate = (dateStr: string): Date => {
-        const parts = dateStr.split('/');
-        return new Date(parseInt(parts[0]), parseInt(parts[1]) - 1, parseInt(parts[2]));
-    };
-
-    // Sort by date ascending using Date objects
-    const sorted = [...validData].sort((a, b) => {
-        return parseDate(a.date).getTime() - parseDate(b.date).getTime();
-    });
-
-    // Build a map of date -> adjusted value for the result
-    const dateValueMap = new Map(sorted.map(d => [d.date, d.value]));
-
-    const splitRatios = [
-        { ratio: 2, minDrop: 0.48, maxDrop: 0.52 },  // 1:2 = 50%
-        { ratio: 3, minDrop: 0.64, maxDrop: 0.68 },  // 1:3 = 66.7%
-        { ratio: 4, minDrop: 0.73, maxDrop: 0.77 },  // 1:4 = 75%
-        { ratio: 5, minDrop: 0.78, maxDrop: 0.82 },  // 1:5 = 80%
-        { ratio: 10, minDrop: 0.88, maxDrop: 0.92 }, // 1:10 = 90%
-    ];
-
-    let bestSplit: { index: number; ratio: number; preSplitValue: number; date1: string; date2: string } | null = null;
-
-    for (let i = 0; i < sorted.length - 1; i++) {
-        const currentValue = sorted[i].value;
-        const nextValue = sorted[i + 1].value;
-        const currentDate = parseDate(sorted[i].date);
-        const nextDate = parseDate(sorted[i + 1].date);
-
-        // Calculate days between data points
-        const daysDiff = Math.abs((nextDate.getTime() - currentDate.getTime()) / (1000 * 60 * 60 * 24));
-
-        // Skip if dates are too far apart (more than 14 days) - indicates data gap, not real split
-        if (daysDiff > 14) continue;
-
-        // Both values must be reasonable (> 10 to avoid noise)
-        if (currentValue < 10 || nextValue < 10) continue;
-
-        const dropRatio = 1 - (nextValue / currentValue);
-
-        // Must be a significant drop (at least 40%)
-        if (dropRatio < 0.40) continue;
-
-        // Check if this matches a known split pattern
-        for (const split of splitRatios) {
-            if (dropRatio >= split.minDrop && dropRatio <= split.maxDrop) {
-                // Additional validation: the ratio of values should match the split ratio closely
-                const actualRatio = currentValue / nextValue;
-                const expectedRatio = split.ratio;
-                const ratioError = Math.abs(actualRatio - expectedRatio) / expectedRatio;
-
-                // Only accept if the ratio is within 15% of expected
-                if (ratioError > 0.15) continue;
-
-                // Keep the split with the highest pre-split value (most significant)
-                if (!bestSplit || currentValue > bestSplit.preSplitValue) {
-                    bestSplit = {
-                        index: i,
-                        ratio: split.ratio,
-                        preSplitValue: currentValue,
-                        date1: sorted[i].date,
-                        date2: sorted[i + 1].date
-                    };
-                    console.log(`[Split Detection] Found 1:${split.ratio} split at ${sorted[i].date} -> ${sorted[i + 1].date} (${daysDiff.toFixed(0)} days apart)`);
-                    console.log(`  Values: ${currentValue.toFixed(2)} -> ${nextValue.toFixed(2)}, drop: ${(dropRatio * 100).toFixed(1)}%`);
-                }
-                break;
-            }
-        }
-    }
-
-    // Apply adjustment to the result
-    if (bestSplit) {
-        console.log(`[Split Detection] Applying 1:${bestSplit.ratio} adjustment to all dates before ${bestSplit.date2}`);
-        // Divide all values at or before the split index
-        for (let j = 0; j <= bestSplit.index; j++) {
-            const adjustedValue = sorted[j].value / bestSplit.ratio;
-            dateValueMap.set(sorted[j].date, adjustedValue);
-        }
-    } else {
-        console.log('[Split Detection] No valid split detected');
-    }
-
-    // Return adjusted data maintaining original order
-    return data.map(d => ({
-        date: d.date,
-        value: dateValueMap.get(d.date) ?? d.value
-    }));
-}
-
 const FundComparison: React.FC<FundComparisonProps> = ({
     selectedFunds,
     setSelectedFunds,
@@ -336,12 +95,19 @@ const FundComparison: React.FC<FundComparisonProps> = ({
 }) => {
     const [fundHistory, setFundHistory] = useState<FundHistory[]>([]);
     const [fundFees, setFundFees] = useState<Map<string, FundFee>>(new Map());
+    const [fundPortfolios, setFundPortfolios] = useState<Map<string, FundPortfolio | null>>(new Map());
+    const [trailingCosts, setTrailingCosts] = useState<Map<string, AnnualCostRatio | null>>(new Map());
     const [loading, setLoading] = useState<boolean>(false);
-    const [activeTab, setActiveTab] = useState<'performance' | 'basic'>('performance');
+    const [activeTab, setActiveTab] = useState<'performance' | 'basic' | 'sector' | 'holdings' | 'dca' | 'projection' | 'premium'>('performance');
     const [adjustForSplits, setAdjustForSplits] = useState<boolean>(false);
+    const [returnBasis, setReturnBasis] = useState<ReturnBasis>('price');
+    const [corporateActions, setCorporateActions] = useState<Map<string, CorporateAction[]>>(new Map());
     const [hoverData, setHoverData] = useState<HoverData | null>(null);
     const [sortConfig, setSortConfig] = useState<{ key: string; direction: 'asc' | 'desc' } | null>(null);
     const [showDescription, setShowDescription] = useState<boolean>(true);
+    const [metricsConfig, setMetricsConfig] = useState<MetricsConfig>(DEFAULT_METRICS_CONFIG);
+    const [benchmark, setBenchmark] = useState<SeriesRef | null>(null);
+    const [benchmarkHistory, setBenchmarkHistory] = useState<FundHistoryPoint[] | null>(null);
     const chartRef = useRef<any>(null);
 
     // Fetch data when selected funds change
@@ -392,204 +158,146 @@ const FundComparison: React.FC<FundComparisonProps> = ({
             try {
                 const fees = await fundDataService.getFundFees();
                 setFundFees(fees);
+
+                const uniqueIds = Array.from(new Set(selectedFunds.map(f => f.id)));
+                const trailing = await Promise.all(uniqueIds.map(id => fundDataService.getTrailingCostRatio(id)));
+                setTrailingCosts(new Map(uniqueIds.map((id, i) => [id, trailing[i]])));
             } catch (error) {
                 console.error("Failed to load fund fees", error);
             }
         };
 
+        const fetchPortfolios = async () => {
+            try {
+                const uniqueIds = Array.from(new Set(selectedFunds.map(f => f.id)));
+                const portfolios = await Promise.all(uniqueIds.map(id => fundDataService.getFundPortfolio(id)));
+                setFundPortfolios(new Map(uniqueIds.map((id, i) => [id, portfolios[i]])));
+            } catch (error) {
+                console.error("Failed to load fund portfolios", error);
+            }
+        };
+
         fetchData();
         fetchFees();
+        fetchPortfolios();
     }, [selectedFunds, startDate, endDate]);
 
+    useEffect(() => {
+        fundDataService.getCorporateActions().then(setCorporateActions);
+    }, []);
+
+    // Series as analysed everywhere on the page. Splits recorded in distributions.json are applied on
+    // both bases (總報酬 also reinvests cash distributions); the split heuristic, when enabled, only
+    // covers funds with no recorded actions.
+    const adjustSeries = useCallback((fundId: string, data: FundHistoryPoint[]): FundHistoryPoint[] => {
+        const actions = corporateActions.get(fundCode(fundId)) ?? [];
+        if (actions.length > 0) return adjustForCorporateActions(data, actions, returnBasis);
+        return adjustForSplits ? adjustForStockSplits(data) : data;
+    }, [adjustForSplits, returnBasis, corporateActions]);
+
+    // 總報酬 only differs from 價格報酬 where distributions.json lists cash distributions
+    const hasCashDistributions = useMemo(
+        () => selectedFunds.some(f => corporateActions.get(fundCode(f.id))?.some(a => a.type === 'cash')),
+        [selectedFunds, corporateActions]
+    );
+
     // Calculate metrics
     const metricsMap = useMemo(() => {
-        const map = new Map<string, FundMetrics>();
-
+        const map = new Map<string, FinancialMetrics>();
         fundHistory.forEach(fh => {
-            const data = adjustForSplits ? adjustForStockSplits(fh.data) : fh.data;
+            const data = adjustSeries(fh.fundId, fh.data);
             if (data.length < 2) return;
+            map.set(`${fh.fundId}-${fh.type}`, calculateMetrics(data, metricsConfig));
+        });
+        return map;
+    }, [fundHistory, adjustSeries, metricsConfig]);
 
-            // Sort by date for metrics calculation
-            const parseDateValues = (dateStr: string) => {
-                const parts = dateStr.split('/');
-                return new Date(parseInt(parts[0]), parseInt(parts[1]) - 1, parseInt(parts[2]));
-            };
-
-            const sortedData = [...data].sort((a, b) => {
-                return parseDateValues(a.date).getTime() - parseDateValues(b.date).getTime();
-            });
-
-            const latestValue = sortedData[sortedData.length - 1].value;
-            const latestDate = parseDateValues(sortedData[sortedData.length - 1].date);
-
-            const getReturn = (months: number) => {
-                const targetDate = new Date(latestDate);
-                targetDate.setMonth(targetDate.getMonth() - months);
-
-                // Find closest data point accurately using parseDateValues
-                const point = sortedData.find(d => {
-                    const dDate = parseDateValues(d.date);
-                    return dDate >= targetDate;
-                });
-
-                if (point) {
-                    return ((latestValue - point.value) / point.value) * 100;
-                }
-                return null;
-            };
-
-            // Calculate volatility, Sharpe, Sortino, Win Rate
-            let volatility = null;
-            let sharpeRatio = null;
-            let sortinoRatio = null;
-            let winRate = null;
-
-
-            if (sortedData.length > 30) {
-                const returns = [];
-                let positiveDays = 0;
-                let negativeReturnSumSq = 0;
-
-                for (let i = 1; i < sortedData.length; i++) {
-                    const dailyReturn = (sortedData[i].value - sortedData[i - 1].value) / sortedData[i - 1].value;
-                    returns.push(dailyReturn);
-
-                    if (dailyReturn > 0) positiveDays++;
-                    if (dailyReturn < 0) negativeReturnSumSq += Math.pow(dailyReturn, 2);
-                }
-
-                const mean = returns.reduce((a, b) => a + b, 0) / returns.length;
-                const variance = returns.reduce((a, b) => a + Math.pow(b - mean, 2), 0) / returns.length;
-
-                // Volatility (Annualized Standard Deviation)
-                volatility = Math.sqrt(variance) * Math.sqrt(252) * 100;
-
-                // Risk Free Rate = 1.2% (0.012)
-                const annualizedReturn = mean * 252;
-                const riskFreeRate = 0.012;
-
-                // Sharpe Ratio
-                if (volatility > 0) {
-                    sharpeRatio = (annualizedReturn - riskFreeRate) / (volatility / 100);
-                }
-
-                // Sortino Ratio (uses Downside Deviation)
-                // Downside Deviation = sqrt( sum(min(r - target, 0)^2) / N )
-                // Using 0 as target return for downside risk
-                const downsideVariance = negativeReturnSumSq / returns.length;
-                const downsideDeviation = Math.sqrt(downsideVariance) * Math.sqrt(252); // Annualized
-
-                if (downsideDeviation > 0) {
-                    sortinoRatio = (annualizedReturn - riskFreeRate) / downsideDeviation;
-                }
-
-                // Win Rate (Daily)
-                winRate = (positiveDays / returns.length) * 100;
-            }
-
-            // Calculate YTD
-            const getYTD = () => {
-                const currentYear = latestDate.getFullYear();
-                const jan1 = new Date(currentYear, 0, 1);
-
-                // Find first data point of the year or after
-                const point = sortedData.find(d => {
-                    const dDate = parseDateValues(d.date);
-                    return dDate >= jan1;
-                });
-
-                if (point) {
-                    return ((latestValue - point.value) / point.value) * 100;
-                }
-                return null;
-            };
-
-            // Calculate Max Drawdown
-            let maxDrawdown = 0;
-            let peak = sortedData[0].value; // Initial peak
-            for (const d of sortedData) {
-                if (d.value > peak) peak = d.value;
-                const drawdown = (d.value - peak) / peak;
-                if (drawdown < maxDrawdown) maxDrawdown = drawdown;
-            }
-
-            map.set(`${fh.fundId}-${fh.type}`, {
-                roi1M: getReturn(1),
-                roi3M: getReturn(3),
-                roi6M: getReturn(6),
-                roi1Y: getReturn(12),
-                roi2Y: getReturn(24),
-                roiYTD: getYTD(),
-                volatility,
-                sharpeRatio,
-                sortinoRatio,
-                maxDrawdown: maxDrawdown * 100,
-                winRate
-            });
+    // Benchmark series over the same range; fetched separately since it need not be one of the selected funds
+    useEffect(() => {
+        if (!benchmark) {
+            setBenchmarkHistory(null);
+            return;
+        }
+        let cancelled = false;
+        fundDataService.getFundHistory(
+            [benchmark.id], benchmark.type,
+            startDate.replace(/-/g, ''),
+            endDate ? endDate.replace(/-/g, '') : undefined
+        ).then(history => {
+            if (!cancelled) setBenchmarkHistory(history[0]?.data ?? []);
+        }).catch(error => {
+            console.error("Failed to load benchmark history", error);
+            if (!cancelled) setBenchmarkHistory([]);
         });
+        return () => { cancelled = true; };
+    }, [benchmark, startDate, endDate]);
 
+    const benchmarkOptions = useMemo(() => {
+        const options: SeriesRef[] = selectedFunds.flatMap(f => (f.dataType ? [{ id: f.id, type: f.dataType }] : []));
+        BENCHMARK_PRESETS.forEach(preset => {
+            if (!options.some(o => seriesKey(o) === seriesKey(preset))) options.push(preset);
+        });
+        return options;
+    }, [selectedFunds]);
+
+    // Benchmark-relative metrics of every other selected fund
+    const relativeMetricsMap = useMemo(() => {
+        const map = new Map<string, RelativeMetrics>();
+        if (!benchmark || !benchmarkHistory) return map;
+        const benchmarkData = adjustSeries(benchmark.id, benchmarkHistory);
+        fundHistory.forEach(fh => {
+            const key = `${fh.fundId}-${fh.type}`;
+            if (key === seriesKey(benchmark)) return;
+            const data = adjustSeries(fh.fundId, fh.data);
+            map.set(key, calculateRelativeMetrics(data, benchmarkData, metricsConfig));
+        });
         return map;
-        return map;
-    }, [fundHistory, adjustForSplits]);
+    }, [fundHistory, benchmark, benchmarkHistory, adjustSeries, metricsConfig]);
+
+    // Adjusted series in fundHistory order with their chart colours
+    const chartSeries = useMemo<RollingSeries[]>(() => fundHistory.map((fh, index) => {
+        const fundInfo = selectedFunds.find(f => f.id === fh.fundId);
+        return {
+            key: `${fh.fundId}-${fh.type}`,
+            label: `${fundInfo?.name ?? fh.fundId} (${fh.type})`,
+            color: SERIES_COLORS[index % SERIES_COLORS.length],
+            data: adjustSeries(fh.fundId, fh.data),
+        };
+    }), [fundHistory, selectedFunds, adjustSeries]);
+
+    const rollingBenchmark = useMemo(() => {
+        if (!benchmark || !benchmarkHistory?.length) return null;
+        return {
+            label: `${benchmark.id} (${benchmark.type})`,
+            data: adjustSeries(benchmark.id, benchmarkHistory),
+        };
+    }, [benchmark, benchmarkHistory, adjustSeries]);
 
     // Calculate Detailed Statistics (Transposed view)
     const detailedStatsMap = useMemo(() => {
         const map = new Map<string, DetailedMetrics | null>();
         fundHistory.forEach(fh => {
-            const data = adjustForSplits ? adjustForStockSplits(fh.data) : fh.data;
-            const stats = calculateDetailedStats(data);
+            const data = adjustSeries(fh.fundId, fh.data);
+            const stats = calculateDetailedStats(data, metricsConfig);
             map.set(`${fh.fundId}-${fh.type}`, stats);
         });
         return map;
-    }, [fundHistory, adjustForSplits]);
+    }, [fundHistory, adjustSeries, metricsConfig]);
+
+    // Every fund on the union of their dates, carried forward; shared by the line chart and the correlation view
+    const alignedSeries = useMemo(() => alignOnDateUnion(chartSeries.map(s => s.data)), [chartSeries]);
 
     // Prepare chart data
     const chartData = useMemo(() => {
-        if (fundHistory.length === 0) return { datasets: [] };
-
-        const colors = ['#3b82f6', '#ef4444', '#10b981', '#f59e0b', '#8b5cf6', '#ec4899'];
+        if (chartSeries.length === 0) return { datasets: [] };
 
-        // 1. Collect all unique dates from all funds
-        const allDatesSet = new Set<number>();
-        fundHistory.forEach(fh => {
-            const dataToUse = adjustForSplits ? adjustForStockSplits(fh.data) : fh.data;
-            dataToUse.forEach(d => {
-                const parts = d.date.split('/');
-                const time = new Date(parseInt(parts[0]), parseInt(parts[1]) - 1, parseInt(parts[2])).getTime();
-                allDatesSet.add(time);
-            });
-        });
-        const allDates = Array.from(allDatesSet).sort((a, b) => a - b);
-
-        // Create datasets - interpolate missing values
-        const datasets = fundHistory.map((fh, index) => {
+        const datasets = chartSeries.map((series, index) => {
+            const fh = fundHistory[index];
             const fundInfo = selectedFunds.find(f => f.id === fh.fundId);
-            const color = colors[index % colors.length];
-            const dataToUse = adjustForSplits ? adjustForStockSplits(fh.data) : fh.data;
-
-            // Create a map for quick lookup
-            const dataMap = new Map<number, number>();
-            dataToUse.forEach(d => {
-                const parts = d.date.split('/');
-                const time = new Date(parseInt(parts[0]), parseInt(parts[1]) - 1, parseInt(parts[2])).getTime();
-                if (d.value > 0) dataMap.set(time, d.value);
-            });
 
-            // Generate data points for all dates, using forward fill
-            let lastKnownValue: number | null = null;
             const dataPoints: { x: Date, y: number }[] = [];
-
-            allDates.forEach(time => {
-                if (dataMap.has(time)) {
-                    lastKnownValue = dataMap.get(time)!;
-                }
-
-                if (lastKnownValue !== null) {
-                    dataPoints.push({
-                        x: new Date(time),
-                        y: lastKnownValue
-                    });
-                }
+            alignedSeries.values[index].forEach((value, i) => {
+                if (value !== null) dataPoints.push({ x: parseToDate(alignedSeries.dates[i]), y: value });
             });
 
             // Handle percentage alignment
@@ -603,8 +311,8 @@ const FundComparison: React.FC<FundComparisonProps> = ({
             return {
                 label: fundInfo ? `${fundInfo.name} (${fh.fundId})` : fh.fundId,
                 data: dataPoints,
-                borderColor: color,
-                backgroundColor: color,
+                borderColor: series.color,
+                backgroundColor: series.color,
                 tension: 0.1,
                 pointRadius: 0,
                 pointHoverRadius: 6,
@@ -612,7 +320,59 @@ const FundComparison: React.FC<FundComparisonProps> = ({
         });
 
         return { datasets };
-    }, [fundHistory, selectedFunds, alignment, adjustForSplits]);
+    }, [chartSeries, alignedSeries, fundHistory, selectedFunds, alignment]);
+
+    // Stacked allocation bars: one bar per selected fund (淨值/市價 variants share a portfolio)
+    const allocationChartData = useMemo(() => {
+        const funds = selectedFunds.filter((f, i) => selectedFunds.findIndex(o => o.id === f.id) === i);
+        const segments = [
+            { label: '國內有價證券', color: '#3b82f6', value: (p: FundPortfolio) => p.domesticSecurities },
+            { label: '國外投資', color: '#8b5cf6', value: (p: FundPortfolio) => p.overseas },
+            { label: '短期投資 / 現金', color: '#10b981', value: (p: FundPortfolio) => p.shortTerm },
+        ];
+
+        return {
+            labels: funds.map(f => f.name.length > 10 ? f.name.substring(0, 10) : f.name),
+            datasets: segments.map(segment => ({
+                label: segment.label,
+                data: funds.map(f => {
+                    const portfolio = fundPortfolios.get(f.id);
+                    return portfolio ? segment.value(portfolio) ?? 0 : 0;
+                }),
+                backgroundColor: segment.color,
+                stack: 'allocation',
+            })),
+        };
+    }, [selectedFunds, fundPortfolios]);
+
+    const allocationChartOptions = {
+        responsive: true,
+        maintainAspectRatio: false,
+        indexAxis: 'y' as const,
+        plugins: {
+            legend: {
+                position: 'top' as const,
+                labels: { color: '#94a3b8' }
+            },
+            tooltip: {
+                callbacks: {
+                    label: (ctx: TooltipItem<'bar'>) => `${ctx.dataset.label}: ${(ctx.parsed.x ?? 0).toFixed(2)}%`
+                }
+            }
+        },
+        scales: {
+            x: {
+                stacked: true,
+                grid: { color: 'rgba(255, 255, 255, 0.1)' },
+                ticks: { color: '#94a3b8', callback: (value: string | number) => `${value}%` }
+            },
+            y: {
+                stacked: true,
+                grid: { display: false },
+                ticks: { color: '#94a3b8' }
+            }
+        }
+    };
 
     const handleSort = (key: string) => {
         setSortConfig(current => {
@@ -634,7 +394,7 @@ const FundComparison: React.FC<FundComparisonProps> = ({
                 return nameB.localeCompare(nameA);
             }
 
-            const key = sortConfig.key as keyof FundMetrics;
+            const key = sortConfig.key as keyof FinancialMetrics;
             const metricsA = metricsMap.get(`${a.id}-${a.dataType}`);
             const metricsB = metricsMap.get(`${b.id}-${b.dataType}`);
 
@@ -765,6 +525,41 @@ const FundComparison: React.FC<FundComparisonProps> = ({
                     <FileText size={18} style={{ display: 'inline', marginRight: '6px', marginBottom: '-3px' }} />
                     Basic Information
                 </button>
+                <button
+                    className={`tab-btn ${activeTab === 'sector' ? 'active' : ''}`}
+                    onClick={() => setActiveTab('sector')}
+                >
+                    <Layers size={18} style={{ display: 'inline', marginRight: '6px', marginBottom: '-3px' }} />
+                    Sector Exposure
+                </button>
+                <button
+                    className={`tab-btn ${activeTab === 'holdings' ? 'active' : ''}`}
+                    onClick={() => setActiveTab('holdings')}
+                >
+                    <PieChart size={18} style={{ display: 'inline', marginRight: '6px', marginBottom: '-3px' }} />
+                    Holdings Overlap
+                </button>
+                <button
+                    className={`tab-btn ${activeTab === 'dca' ? 'active' : ''}`}
+                    onClick={() => setActiveTab('dca')}
+                >
+                    <PiggyBank size={18} style={{ display: 'inline', marginRight: '6px', marginBottom: '-3px' }} />
+                    定期定額
+                </button>
+                <button
+                    className={`tab-btn ${activeTab === 'projection' ? 'active' : ''}`}
+                    onClick={() => setActiveTab('projection')}
+                >
+                    <Sparkles size={18} style={{ display: 'inline', marginRight: '6px', marginBottom: '-3px' }} />
+                    情境模擬
+                </button>
+                <button
+                    className={`tab-btn ${activeTab === 'premium' ? 'active' : ''}`}
+                    onClick={() => setActiveTab('premium')}
+                >
+                    <Scale size={18} style={{ display: 'inline', marginRight: '6px', marginBottom: '-3px' }} />
+                    折溢價
+                </button>
             </div>
 
             {activeTab === 'performance' ? (
@@ -820,12 +615,81 @@ const FundComparison: React.FC<FundComparisonProps> = ({
                         <button
                             className={`toggle-btn split-btn ${adjustForSplits ? 'active' : ''}`}
                             onClick={() => setAdjustForSplits(!adjustForSplits)}
-                            title="自動偵測並調整股票拆分"
+                            title="distributions.json 記錄的拆分一律調整；開啟後另對未記錄的基金自動偵測拆分"
                         >
-                            調整拆分
+                            自動偵測拆分
                         </button>
+                        <span className="control-divider">|</span>
+                        <button
+                            className={`toggle-btn ${returnBasis === 'price' ? 'active' : ''}`}
+                            onClick={() => setReturnBasis('price')}
+                            title="除息日價格下跌視為損失"
+                        >
+                            價格報酬
+                        </button>
+                        <button
+                            className={`toggle-btn ${returnBasis === 'total' ? 'active' : ''}`}
+                            onClick={() => setReturnBasis('total')}
+                            title="依 distributions.json 將配息於除息前收盤價再投入"
+                        >
+                            總報酬
+                        </button>
+                        {returnBasis === 'total' && !hasCashDistributions && (
+                            <span className="basis-note" title="distributions.json 沒有所選基金的現金配息紀錄">
+                                無配息資料，總報酬等同價格報酬
+                            </span>
+                        )}
+                        <span className="control-divider">|</span>
+                        <label className="metrics-setting" title="夏普、索提諾比率使用的年化無風險利率">
+                            無風險利率
+                            <input
+                                type="number"
+                                step="0.1"
+                                min="0"
+                                value={+(metricsConfig.riskFreeRate * 100).toFixed(4)}
+                                onChange={(e) => {
+                                    const rate = parseFloat(e.target.value);
+                                    if (!isNaN(rate)) setMetricsConfig({ ...metricsConfig, riskFreeRate: rate / 100 });
+                                }}
+                            />
+                            %
+                        </label>
+                        <label className="metrics-setting" title="日報酬年化所用的每年交易日數">
+                            年化基準
+                            <select
+                                value={metricsConfig.tradingDaysPerYear}
+                                onChange={(e) => setMetricsConfig({ ...metricsConfig, tradingDaysPerYear: Number(e.target.value) })}
+                            >
+                                <option value={252}>252 日</option>
+                                <option value={250}>250 日</option>
+                                <option value={365}>365 日</option>
+                            </select>
+                        </label>
+                        <label className="metrics-setting" title="計算波動率、夏普、索提諾與勝率的報酬頻率">
+                            報酬頻率
+                            <select
+                                value={metricsConfig.returnFrequency}
+                                onChange={(e) => setMetricsConfig({ ...metricsConfig, returnFrequency: e.target.value as ReturnFrequency })}
+                            >
+                                <option value="daily">日</option>
+                                <option value="weekly">週</option>
+                                <option value="monthly">月</option>
+                            </select>
+                        </label>
                     </div>
 
+                    {/* Rolling-window charts */}
+                    <RollingMetricsChart series={chartSeries} benchmark={rollingBenchmark} config={metricsConfig} />
+
+                    {/* Correlation heatmap and rolling pair correlation */}
+                    <FundCorrelationMatrix series={chartSeries} aligned={alignedSeries} />
+
+                    {/* Mean-variance frontier with min-variance, max-Sharpe and risk-parity portfolios */}
+                    <EfficientFrontier series={chartSeries} aligned={alignedSeries} config={metricsConfig} />
+
+                    {/* Underwater curves and drawdown episodes */}
+                    <DrawdownAnalysis series={chartSeries} />
+
                     {/* Metrics Table */}
                     <div className="table-container">
                         <table>
@@ -928,7 +792,7 @@ const FundComparison: React.FC<FundComparisonProps> = ({
                                                 {formatNumber(metrics?.winRate)}{metrics?.winRate ? '%' : ''}
                                             </td>
                                             <td className="drawdown-cell">
-                                                {getMetricDisplay(metrics?.maxDrawdown).value}
+                                                {getMetricDisplay(metrics?.maxDrawdown != null ? -metrics.maxDrawdown : null).value}
                                             </td>
                                         </tr>
                                     );
@@ -937,6 +801,71 @@ const FundComparison: React.FC<FundComparisonProps> = ({
                         </table>
                     </div>
 
+                    {/* Benchmark-Relative Metrics */}
+                    <div className="detailed-stats-header">
+                        <h3 className="detailed-stats-title">Benchmark-Relative Metrics</h3>
+                        <label className="benchmark-select">
+                            基準
+                            <select
+                                value={benchmark ? seriesKey(benchmark) : ''}
+                                onChange={(e) => setBenchmark(benchmarkOptions.find(o => seriesKey(o) === e.target.value) ?? null)}
+                            >
+                                <option value="">未設定</option>
+                                {benchmarkOptions.map(option => (
+                                    <option key={seriesKey(option)} value={seriesKey(option)}>
+                                        {option.id} ({option.type})
+                                    </option>
+                                ))}
+                            </select>
+                        </label>
+                    </div>
+                    {benchmark && (
+                        <div className="table-container relative-metrics-table">
+                            <table>
+                                <thead>
+                                    <tr>
+                                        <th>Fund</th>
+                                        <th title="對基準的敏感度：基準漲 1%，基金平均漲幾 %">Beta</th>
+                                        <th title="Jensen's Alpha：扣除 Beta 所能解釋的報酬後，每年多賺(少賺)的部分">Alpha</th>
+                                        <th title="基金報酬可被基準解釋的比例">R²</th>
+                                        <th title="與基準報酬差異的年化標準差">Tracking Error</th>
+                                        <th title="超越基準的年化報酬 ÷ 追蹤誤差">Info Ratio</th>
+                                        <th title="基準上漲期間，基金平均漲幅相對基準的比例">Up Capture</th>
+                                        <th title="基準下跌期間，基金平均跌幅相對基準的比例">Down Capture</th>
+                                        <th title="對齊後的報酬期數">N</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {sortedFunds.filter(fund => `${fund.id}-${fund.dataType}` !== seriesKey(benchmark)).map(fund => {
+                                        const relative = relativeMetricsMap.get(`${fund.id}-${fund.dataType}`);
+                                        const formatValue = (val: number | null | undefined, suffix = '') =>
+                                            val === undefined || val === null ? '-' : `${val.toFixed(2)}${suffix}`;
+
+                                        return (
+                                            <tr key={`${fund.id}-${fund.dataType}`}>
+                                                <td className="company-cell">
+                                                    <div className="name">{fund.name}</div>
+                                                    <div className="code">{fund.id} · {fund.dataType}</div>
+                                                </td>
+                                                <td>{formatValue(relative?.beta)}</td>
+                                                <td className={relative?.alpha != null ? (relative.alpha >= 0 ? 'positive' : 'negative') : ''}>
+                                                    {formatValue(relative?.alpha, '%')}
+                                                </td>
+                                                <td>{formatValue(relative?.rSquared)}</td>
+                                                <td>{formatValue(relative?.trackingError, '%')}</td>
+                                                <td>{formatValue(relative?.informationRatio)}</td>
+                                                <td>{formatValue(relative?.upCapture, '%')}</td>
+                                                <td>{formatValue(relative?.downCapture, '%')}</td>
+                                                <td>{relative ? relative.observations : '-'}</td>
+                                            </tr>
+                                        );
+                                    })}
+                                </tbody>
+                            </table>
+                            {!benchmarkHistory?.length && <div className="relative-metrics-empty">Loading benchmark...</div>}
+                        </div>
+                    )}
+
                     {/* Detailed Statistics Table (Transposed) */}
                     <div className="detailed-stats-header">
                         <h3 className="detailed-stats-title">Detailed Statistics</h3>
@@ -1031,7 +960,18 @@ const FundComparison: React.FC<FundComparisonProps> = ({
 
 
                 </>
+            ) : activeTab === 'sector' ? (
+                <FundSectorExposure funds={selectedFunds} />
+            ) : activeTab === 'holdings' ? (
+                <FundHoldingsOverlap funds={selectedFunds} />
+            ) : activeTab === 'dca' ? (
+                <DcaSimulator series={chartSeries} />
+            ) : activeTab === 'projection' ? (
+                <MonteCarloProjection series={chartSeries} tradingDaysPerYear={metricsConfig.tradingDaysPerYear} />
+            ) : activeTab === 'premium' ? (
+                <PremiumDiscountTracker funds={selectedFunds} startDate={startDate} endDate={endDate} />
             ) : (
+                <>
                 <div className="table-container basic-info-table">
                     <table>
                         <thead>
@@ -1080,38 +1020,83 @@ const FundComparison: React.FC<FundComparisonProps> = ({
                             </tr>
 
                             {/* Fees Section */}
-                            <tr className="section-header-row"><td colSpan={selectedFunds.length + 1}>費用與稅率</td></tr>
+                            <tr className="section-header-row"><td colSpan={selectedFunds.length + 1}>費用與交易成本</td></tr>
                             <tr>
-                                <td className="label-cell">總費用率 (TER)</td>
-                                {selectedFunds.map(fund => {
-                                    const fee = fundFees.get(fund.id);
-                                    return <td key={fund.id} className="value-cell">{fee?.totalExpenseRatio ? `${fee.totalExpenseRatio.toFixed(2)}%` : '-'}</td>
-                                })}
+                                <td className="label-cell">年化總費用率 (TER)</td>
+                                {selectedFunds.map(fund => (
+                                    <td key={fund.id} className="value-cell">{formatAnnualCost(trailingCosts.get(fund.id), 'expense')}</td>
+                                ))}
                             </tr>
                             <tr>
-                                <td className="label-cell">經理費</td>
-                                {selectedFunds.map(fund => {
-                                    const fee = fundFees.get(fund.id);
-                                    return <td key={fund.id} className="value-cell">{fee?.managementFee ? `${fee.managementFee.toFixed(2)}%` : '-'}</td>
-                                })}
+                                <td className="label-cell">年化總持有成本</td>
+                                {selectedFunds.map(fund => (
+                                    <td key={fund.id} className="value-cell">{formatAnnualCost(trailingCosts.get(fund.id), 'total')}</td>
+                                ))}
                             </tr>
                             <tr>
-                                <td className="label-cell">保管費</td>
-                                {selectedFunds.map(fund => {
-                                    const fee = fundFees.get(fund.id);
-                                    return <td key={fund.id} className="value-cell">{fee?.custodianFee ? `${fee.custodianFee.toFixed(2)}%` : '-'}</td>
-                                })}
+                                <td className="label-cell">資料月份</td>
+                                {selectedFunds.map(fund => <td key={fund.id} className="value-cell">{fundFees.get(fund.id)?.month || '-'}</td>)}
+                            </tr>
+                            {/* 費用率 and the rates below are reported per month, not annualized */}
+                            {([
+                                { label: '當月費用率', key: 'totalExpenseRatio' },
+                                { label: '經理費', key: 'managementFee' },
+                                { label: '保管費', key: 'custodianFee' },
+                                { label: '保證費', key: 'guaranteeFee' },
+                                { label: '其他費用', key: 'otherFee' },
+                                { label: '直接交易成本率', key: 'tradingCostRate' },
+                                { label: '手續費率', key: 'commissionRate' },
+                                { label: '交易稅率', key: 'transactionTaxRate' },
+                                { label: 'ETF申購買回交易費率', key: 'etfCreationRedemptionRate' },
+                                { label: '當月總持有成本 (費用率 + 交易成本)', key: 'totalCostRatio' },
+                            ] as { label: string; key: keyof FundFee }[]).map(row => (
+                                <tr key={row.key}>
+                                    <td className="label-cell">{row.label}</td>
+                                    {selectedFunds.map(fund => {
+                                        const val = fundFees.get(fund.id)?.[row.key];
+                                        return <td key={fund.id} className="value-cell">{typeof val === 'number' ? `${val.toFixed(2)}%` : '-'}</td>
+                                    })}
+                                </tr>
+                            ))}
+
+                            {/* Asset Allocation Section */}
+                            <tr className="section-header-row"><td colSpan={selectedFunds.length + 1}>資產配置</td></tr>
+                            <tr>
+                                <td className="label-cell">資料月份</td>
+                                {selectedFunds.map(fund => <td key={fund.id} className="value-cell">{fundPortfolios.get(fund.id)?.date || '-'}</td>)}
                             </tr>
                             <tr>
-                                <td className="label-cell">其他費用</td>
+                                <td className="label-cell">基金淨資產 (千元)</td>
                                 {selectedFunds.map(fund => {
-                                    const fee = fundFees.get(fund.id);
-                                    return <td key={fund.id} className="value-cell">{fee?.otherFee ? `${fee.otherFee.toFixed(2)}%` : '-'}</td>
+                                    const netAssets = fundPortfolios.get(fund.id)?.netAssets;
+                                    return <td key={fund.id} className="value-cell">{netAssets != null ? netAssets.toLocaleString() : '-'}</td>
                                 })}
                             </tr>
+                            {Object.entries(PORTFOLIO_ALLOCATION_LABELS).map(([code, label]) => (
+                                <tr key={code}>
+                                    <td className="label-cell">{code} {label}</td>
+                                    {selectedFunds.map(fund => {
+                                        const val = fundPortfolios.get(fund.id)?.allocations[code];
+                                        return <td key={fund.id} className="value-cell">{val ? `${val.toFixed(2)}%` : '-'}</td>
+                                    })}
+                                </tr>
+                            ))}
                         </tbody>
                     </table>
                 </div>
+
+                {/* Allocation Chart */}
+                <div className="chart-card allocation-card">
+                    <h3 className="detailed-stats-title">資產配置比較</h3>
+                    {selectedFunds.some(f => fundPortfolios.get(f.id)) ? (
+                        <div className="allocation-chart">
+                            <Bar data={allocationChartData} options={allocationChartOptions} />
+                        </div>
+                    ) : (
+                        <span className="hover-placeholder">所選基金尚無投資組合資料</span>
+                    )}
+                </div>
+                </>
             )
             }
 
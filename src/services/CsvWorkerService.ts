@@ -0,0 +1,109 @@
+import CsvParserWorker from '../workers/csvParser.worker?worker';
+import type {
+    BrokerTradeRow,
+    CsvSource,
+    CsvWorkerMessage,
+    CsvWorkerRequest,
+    CsvWorkerResponse,
+    CsvWorkerResults,
+    FundHistoryMatrix,
+} from '../workers/csvParserProtocol';
+
+export type { BrokerTradeRow, CsvSource, FundHistoryMatrix } from '../workers/csvParserProtocol';
+
+interface PendingRequest {
+    resolve: (result: CsvWorkerResults[keyof CsvWorkerResults]) => void;
+    reject: (error: Error) => void;
+    onChunk?: (rows: Record<string, string>[]) => void;
+}
+
+// Promise-based front end for csvParser.worker.ts. One worker is shared by every caller and
+// started on first use; requests are matched to responses by id.
+class CsvWorkerService {
+    private worker: Worker | null = null;
+    private pending: Map<number, PendingRequest> = new Map();
+    private nextId = 1;
+
+    private getWorker(): Worker {
+        if (this.worker) return this.worker;
+
+        const worker = new CsvParserWorker();
+        worker.onmessage = (event: MessageEvent<CsvWorkerResponse>) => {
+            const response = event.data;
+            const request = this.pending.get(response.id);
+            if (!request) return;
+
+            if (response.type === 'chunk') {
+                request.onChunk?.(response.rows);
+                return;
+            }
+            this.pending.delete(response.id);
+            if (response.type === 'result') {
+                request.resolve(response.result);
+            } else {
+                request.reject(new Error(response.message));
+            }
+        };
+        worker.onerror = (event) => {
+            // The worker failed to load or crashed; fail everything in flight and start fresh next time
+            console.error('CSV worker error:', event.message);
+            this.pending.forEach(request => request.reject(new Error(event.message || 'CSV worker failed')));
+            this.pending.clear();
+            worker.terminate();
+            this.worker = null;
+        };
+
+        this.worker = worker;
+        return worker;
+    }
+
+    private request<K extends keyof CsvWorkerResults>(
+        request: Extract<CsvWorkerRequest, { op: K }>,
+        onChunk?: (rows: Record<string, string>[]) => void
+    ): Promise<CsvWorkerResults[K]> {
+        const id = this.nextId++;
+        const message = { ...request, id } as CsvWorkerMessage;
+        // Raw bytes are handed over rather than copied; the caller's buffer is detached afterwards
+        const transfer = 'buffer' in request.source ? [request.source.buffer] : [];
+
+        return new Promise<CsvWorkerResults[K]>((resolve, reject) => {
+            this.pending.set(id, {
+                resolve: result => resolve(result as CsvWorkerResults[K]),
+                reject,
+                onChunk,
+            });
+            this.getWorker().postMessage(message, transfer);
+        });
+    }
+
+    // Rows of a "Current / blank / header" style export, keyed by the header whose first cell is in firstColumns
+    parseTable(source: CsvSource, firstColumns: string[]): Promise<Record<string, string>[]> {
+        return this.request({ op: 'parseTable', source, firstColumns });
+    }
+
+    // Rows keyed by the first line. onChunk sees each batch as it is parsed, so large files can render early.
+    async parseRecords(
+        source: CsvSource,
+        onChunk?: (rows: Record<string, string>[]) => void,
+        batchSize?: number
+    ): Promise<Record<string, string>[]> {
+        const rows: Record<string, string>[] = [];
+        await this.request({ op: 'parseRecords', source, batchSize }, chunk => {
+            for (const row of chunk) rows.push(row);
+            onChunk?.(chunk);
+        });
+        return rows;
+    }
+
+    // A wide 淨值/市價 history file reshaped to one row of values per fund
+    parseHistory(source: CsvSource): Promise<FundHistoryMatrix> {
+        return this.request({ op: 'parseHistory', source });
+    }
+
+    // Broker lines of a TWSE or TPEx daily broker report
+    parseBrokerTrades(source: CsvSource): Promise<BrokerTradeRow[]> {
+        return this.request({ op: 'parseBrokerTrades', source });
+    }
+}
+
+export const csvWorkerService = new CsvWorkerService();
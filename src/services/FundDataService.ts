@@ -1,4 +1,13 @@
-import Papa from 'papaparse';
+import { getFundHistoryFile, saveFundHistoryFile } from '../utils/db';
+import { csvWorkerService } from './CsvWorkerService';
+import { compareDates, dateKey, parseDate, sortByDate, TradingCalendar } from '../utils/tradingDate';
+import type { FundHistoryMatrix } from './CsvWorkerService';
+import fundList from '../data/fund-list.json';
+import { FUND_SERIES_DIR, FUND_SERIES_INDEX, FUND_SERIES_VERSION } from './fundSeriesFormat';
+import type { FundSeriesChunk, FundSeriesIndex, FundSeriesTypeIndex } from './fundSeriesFormat';
+import { DATA_CATALOG } from './dataCatalog';
+import type { DatasetSpec } from './dataCatalog';
+import { assertRowColumns, datasetUrl, fetchJsonDataset } from './datasetLoader';
 
 export interface FundBasicInfo {
     id: string; // 基金碼
@@ -14,13 +23,98 @@ export interface FundBasicInfo {
     dataType?: '淨值' | '市價'; // 資料類型
 }
 
+// One month of 基金費用.csv. Rates are % of net assets as reported for that month.
 export interface FundFee {
     fundId: string;
-    managementFee: number; // A1經理費
-    custodianFee: number; // B2保管費
-    guaranteeFee: number; // B3保證費
-    otherFee: number; // B4其他費用
-    totalExpenseRatio: number; // 費用率 (Total Expense Ratio)
+    month: string; // 年/月, YYYY/MM
+    netAssets: number | null; // 基金淨資產
+    commissionRate: number | null; // 手續費率 (A1)
+    transactionTaxRate: number | null; // 交易稅率 (A2)
+    etfCreationRedemptionRate: number | null; // ETF申購買回交易費率 (A3)
+    tradingCostRate: number | null; // 直接交易成本率 (A1+A2-A3)
+    managementFee: number | null; // 經理費率 (B1)
+    custodianFee: number | null; // 保管費率 (B2)
+    guaranteeFee: number | null; // 保證費率 (B3)
+    otherFee: number | null; // 其他費用率 (B4)
+    totalExpenseRatio: number | null; // 費用率 (B1+..+B4)
+    totalCostRatio: number | null; // 直接交易成本率 + 費用率
+    totalCost: number | null; // 成本+費用總計
+}
+
+// Annual cost ratios (%) derived from the monthly 基金費用.csv rates
+export interface AnnualCostRatio {
+    tradingCost: number; // 直接交易成本率
+    expense: number; // 費用率 (TER)
+    total: number;
+    months: number; // Reported months behind the figures; fewer than 12 means they were scaled up to a year
+}
+
+// Position of a fund in one stock for a given month
+export interface FundStockPosition {
+    fundId: string; // 基金名稱, e.g. "0052 富邦科技" (same form as fund-list ids)
+    month: string; // 年月, YYYY/MM
+    shares: number | null; // 投資股數
+    weight: number | null; // 投資比率％
+    ownershipPct: number | null; // 持股數/流通在外股數%
+    monthlyReturn: number | null; // 個股月報酬率％
+}
+
+export interface FundHolding extends FundStockPosition {
+    stockCode: string; // 標的碼
+    stockName: string; // 標的名稱
+    amount: number | null; // 投資金額(千元)
+    isin?: string;
+}
+
+// All funds' combined position in one security for a month (基金月持股(全體).csv). Despite the file's
+// 基金名稱 header it has one row per security, e.g. "2330 台積電".
+export interface AllFundsStockPosition extends Omit<FundStockPosition, 'fundId'> {
+    stockCode: string;
+    stockName: string;
+}
+
+// Allocation codes used by 基金投資組合.csv (values are % of net assets)
+export const PORTFOLIO_ALLOCATION_LABELS: Record<string, string> = {
+    A1: '國內上市股票',
+    A2: '國內台灣存託憑證',
+    A3: '國內基金',
+    A4: '國內上櫃股票',
+    A5: '國內買斷債券',
+    A6: '國內RP',
+    A7: '國內資產證券化商品',
+    A8: '國內其他有價證券',
+    B1: '短期投資-短票',
+    B2: '短期投資-其他',
+    B3: '短期投資-一般存款',
+    B4: '短期投資-短期票券RP',
+    C1: '日本',
+    C2: '紐澳',
+    C3: '國外其他區域',
+    C4: '北美',
+};
+
+export interface FundPortfolio {
+    fundId: string;
+    date: string; // 日期, YYYY/MM
+    netAssets: number | null; // 基金淨資產 (千元)
+    allocations: Record<string, number | null>; // Keyed by code in PORTFOLIO_ALLOCATION_LABELS
+    domesticSecurities: number | null; // A0 投資國內有價證券比例
+    shortTerm: number | null; // B0 國內短期投資小計 (cash and equivalents)
+    domesticTotal: number | null; // A+B 投資國內合計
+    overseas: number | null; // Sum of C-series regions
+}
+
+// TWSE industry index code from 基金周持股(產業).csv, e.g. M2324 半導體業 (parent M2300 電子工業)
+export interface IndustrySector {
+    code: string;
+    name: string;
+    parent?: string; // Set for sub-industries such as M1721 / M2324
+}
+
+export interface FundSectorWeights {
+    fundId: string;
+    date: string; // 年月日, YYYY/M/D
+    weights: Record<string, number | null>; // % of net assets keyed by sector code
 }
 
 export interface FundManifestEntry {
@@ -42,62 +136,224 @@ export interface FundHistory {
     data: FundHistoryPoint[];
 }
 
+// One entry of distributions.json. fundId is the fund code ("0056"); exDate is the first trading day
+// at the adjusted price, YYYY/M/D. A split turns every `from` units into `to` units.
+export type CorporateAction =
+    | { fundId: string; exDate: string; type: 'cash'; amount: number }
+    | { fundId: string; exDate: string; type: 'split'; from: number; to: number };
+
+// Numeric cells use thousands separators and '-' for missing values
+const parseNumber = (val: string | undefined): number | null => {
+    if (!val) return null;
+    const cleaned = val.replace(/,/g, '').replace('%', '').trim();
+    if (cleaned === '' || cleaned === '-') return null;
+    const num = parseFloat(cleaned);
+    return isNaN(num) ? null : num;
+};
+
+const isPositive = (val: unknown): val is number => typeof val === 'number' && isFinite(val) && val > 0;
+
+// Validates one distributions.json entry; null (with a warning) when it can't be used
+const parseCorporateAction = (raw: unknown): CorporateAction | null => {
+    const entry = raw as Record<string, unknown> | null;
+    if (entry && typeof entry.fundId === 'string' && typeof entry.exDate === 'string' && parseDate(entry.exDate)) {
+        if (entry.type === 'cash' && isPositive(entry.amount)) {
+            return { fundId: entry.fundId, exDate: entry.exDate, type: 'cash', amount: entry.amount };
+        }
+        if (entry.type === 'split' && isPositive(entry.from) && isPositive(entry.to)) {
+            return { fundId: entry.fundId, exDate: entry.exDate, type: 'split', from: entry.from, to: entry.to };
+        }
+    }
+    console.warn('Skipping malformed corporate action', raw);
+    return null;
+};
+
+// A history CSV as returned by the CSV worker, plus a fundId -> matrix row lookup
+interface ParsedHistoryFile extends FundHistoryMatrix {
+    rowIndex: Map<string, number>;
+}
+
+// Range arguments are YYYYMMDD or YYYY-MM-DD; a missing bound is open
+const rangeBounds = (startDate?: string, endDate?: string): [number, number] => [
+    startDate ? dateKey(startDate) : -Infinity,
+    endDate ? dateKey(endDate) : Infinity,
+];
+
 class FundDataService {
     private manifest: FundManifestEntry[] | null = null;
     private basicInfoCache: FundBasicInfo[] | null = null;
     private feeCache: Map<string, FundFee> | null = null;
-    private historyCache: Map<string, any[]> = new Map(); // Cache parsed CSV data by file path
+    private feeHistoryCache: Map<string, FundFee[]> | null = null;
+    private historyCache: Map<string, ParsedHistoryFile> = new Map(); // Cache parsed CSV data by file path
+    private seriesIndex: Promise<FundSeriesIndex | null> | null = null;
+    private seriesChunkCache: Map<string, Promise<FundSeriesChunk>> = new Map();
+    private tradingCalendar: TradingCalendar | null = null;
+    private holdingsCache: FundHolding[] | null = null;
+    private allFundsPositionCache: AllFundsStockPosition[] | null = null;
+    private portfolioCache: FundPortfolio[] | null = null;
+    private sectorCache: { sectors: IndustrySector[]; weights: FundSectorWeights[] } | null = null;
+    private corporateActions: Promise<Map<string, CorporateAction[]>> | null = null;
     private readonly BASE_URL = import.meta.env.BASE_URL || '/';
 
     async loadManifest(): Promise<FundManifestEntry[]> {
         if (this.manifest) return this.manifest;
-        const url = `${this.BASE_URL}data/fund/manifest.json`;
-        console.log('Loading manifest from:', url);
+        this.manifest = await fetchJsonDataset<FundManifestEntry[]>(DATA_CATALOG.fundManifest);
+        return this.manifest;
+    }
+
+    // Fetch a data file as text, reusing the IndexedDB copy while the server's Last-Modified is unchanged
+    private async fetchCachedText(url: string): Promise<string> {
+        let lastModified: string | null = null;
+        try {
+            const headResponse = await fetch(url, { method: 'HEAD' });
+            lastModified = headResponse.headers.get('Last-Modified');
+        } catch (error) {
+            console.warn('HEAD request failed for', url, error);
+        }
+
+        if (lastModified) {
+            const cached = await getFundHistoryFile(url);
+            if (cached && cached.lastModified === lastModified) {
+                console.log('IndexedDB hit for:', url);
+                return cached.text;
+            }
+        }
+
         const response = await fetch(url);
-        this.manifest = await response.json();
-        return this.manifest!;
+        if (!response.ok) {
+            throw new Error(`Failed to fetch ${url}: ${response.status}`);
+        }
+        const text = await response.text();
+        if (lastModified) {
+            await saveFundHistoryFile(url, text, lastModified);
+        }
+        return text;
     }
 
-    async getFundBasicInfo(): Promise<FundBasicInfo[]> {
-        if (this.basicInfoCache) return this.basicInfoCache;
+    // The pre-built series index (scripts/build-fund-series.ts), or null when it hasn't been generated
+    private loadSeriesIndex(): Promise<FundSeriesIndex | null> {
+        if (!this.seriesIndex) {
+            const url = `${this.BASE_URL}${FUND_SERIES_DIR}/${FUND_SERIES_INDEX}`;
+            this.seriesIndex = fetch(url)
+                .then(async response => {
+                    if (!response.ok) return null;
+                    const index: FundSeriesIndex = await response.json();
+                    if (index.version !== FUND_SERIES_VERSION) {
+                        console.warn(`Ignoring fund series index version ${index.version}, expected ${FUND_SERIES_VERSION}`);
+                        return null;
+                    }
+                    return index;
+                })
+                .catch(error => {
+                    // Dev servers answer missing files with index.html, which fails to parse as JSON
+                    console.warn('Fund series index unavailable, falling back to history CSVs', error);
+                    return null;
+                });
+        }
+        return this.seriesIndex;
+    }
 
-        const url = `${this.BASE_URL}data/fund/基金基本資料.csv`;
-        return new Promise((resolve, reject) => {
-            Papa.parse(url, {
-                download: true,
-                header: true,
-                skipEmptyLines: true,
-                complete: (results) => {
-                    const data = results.data.map((row: any) => ({
-                        id: row['基金碼'],
-                        name: row['基金全稱'],
-                        manager: row['經理公司'],
-                        type: row['類型'],
-                        riskLevel: row['風險收益等級'],
-                        custodian: row['保管機構'],
-                        guarantor: row['保證機構'],
-                        inceptionDate: row['成立日'],
-                        currency: row['計價幣別'] || 'TWD', // Default to TWD if missing
-                    })).filter(item => item.id); // Filter out empty rows
-                    this.basicInfoCache = data;
-                    resolve(data);
-                },
-                error: (error) => reject(error),
-            });
-        });
+    private loadSeriesChunk(chunkName: string): Promise<FundSeriesChunk> {
+        let chunk = this.seriesChunkCache.get(chunkName);
+        if (!chunk) {
+            const url = `${this.BASE_URL}${FUND_SERIES_DIR}/${chunkName}`;
+            chunk = this.fetchCachedText(url).then(text => JSON.parse(text) as FundSeriesChunk);
+            // Drop failed fetches so a later call can retry
+            chunk.catch(() => this.seriesChunkCache.delete(chunkName));
+            this.seriesChunkCache.set(chunkName, chunk);
+        }
+        return chunk;
     }
 
-    async getFundHistory(
+    // getFundHistory backed by the series index: fetches only the chunks holding the requested funds
+    private async getIndexedFundHistory(
+        typeIndex: FundSeriesTypeIndex,
         fundIds: string[],
         type: '淨值' | '市價',
         startDate?: string,
         endDate?: string
     ): Promise<FundHistory[]> {
-        console.log('=== FundDataService.getFundHistory ===');
-        console.log('fundIds:', fundIds);
-        console.log('type:', type);
-        console.log('startDate:', startDate, 'endDate:', endDate);
+        const chunkNames = Array.from(new Set(
+            fundIds.filter(id => id in typeIndex.funds).map(id => typeIndex.chunks[typeIndex.funds[id]])
+        ));
+        const chunks = new Map(await Promise.all(
+            chunkNames.map(async name => [name, await this.loadSeriesChunk(name)] as const)
+        ));
+
+        const [start, end] = rangeBounds(startDate, endDate);
+
+        return fundIds.map(fundId => {
+            const chunkIndex = typeIndex.funds[fundId];
+            const column = chunkIndex === undefined ? undefined : chunks.get(typeIndex.chunks[chunkIndex])?.[fundId];
+            const data: FundHistoryPoint[] = [];
+
+            column?.values.forEach((value, offset) => {
+                if (value === null) return;
+                const date = typeIndex.dates[column.start + offset];
+                const key = dateKey(date);
+                if (key >= start && key <= end) data.push({ date, value });
+            });
 
+            return { fundId, type, data };
+        });
+    }
+
+    // Download a catalogued "Current / blank / header" style CSV and return its rows keyed by header name.
+    // Throws when the file has no rows or lacks a column the catalog lists.
+    private async loadTable(spec: DatasetSpec): Promise<Record<string, string>[]> {
+        const url = datasetUrl(spec);
+        const response = await fetch(url);
+        if (!response.ok) {
+            throw new Error(`Failed to fetch ${spec.path}: ${response.status}`);
+        }
+        const rows = await csvWorkerService.parseTable({ buffer: await response.arrayBuffer() }, [spec.headerColumn!])
+            .catch(error => {
+                throw new Error(`Invalid ${spec.path}: ${error instanceof Error ? error.message : error}`);
+            });
+        assertRowColumns(spec, rows);
+        return rows;
+    }
+
+    async getFundBasicInfo(): Promise<FundBasicInfo[]> {
+        if (this.basicInfoCache) return this.basicInfoCache;
+
+        // 基金基本資料.csv has the same "Current / blank / header" preamble as the other exports
+        let rows: Record<string, string>[] = [];
+        try {
+            rows = await this.loadTable(DATA_CATALOG.fundBasicInfo);
+        } catch (error) {
+            console.warn('基金基本資料.csv unavailable, falling back to bundled fund list', error);
+        }
+
+        const data: FundBasicInfo[] = rows.length > 0
+            ? rows.map(row => ({
+                id: row['基金碼'],
+                name: row['基金全稱'],
+                manager: row['經理公司'] || undefined,
+                type: row['類型'] || undefined,
+                riskLevel: row['風險收益等級'] || undefined,
+                custodian: row['保管機構'] || undefined,
+                guarantor: row['保證機構'] || undefined,
+                inceptionDate: row['成立日'] || undefined,
+                currency: row['計價幣別'] || 'TWD', // Default to TWD if missing
+            }))
+            : (fundList as { id: string; name: string; type?: string }[]).map(fund => ({
+                id: fund.id,
+                name: fund.name,
+                type: fund.type,
+                currency: 'TWD',
+            }));
+
+        this.basicInfoCache = data.filter(item => item.id); // Filter out empty rows
+        return this.basicInfoCache;
+    }
+
+    // Fetch and parse every yearly history file of the given type that overlaps the date range
+    private async loadHistoryFiles(
+        type: '淨值' | '市價',
+        startDate?: string,
+        endDate?: string
+    ): Promise<{ file: FundManifestEntry, data: ParsedHistoryFile }[]> {
         await this.loadManifest();
         console.log('Manifest loaded, entries:', this.manifest?.length);
 
@@ -107,16 +363,12 @@ class FundDataService {
             // Simple overlap check. If no dates provided, load all.
             if (!startDate && !endDate) return true;
 
-            const fileStart = entry.startDate;
-            const fileEnd = entry.endDate;
-            const reqStart = startDate || '00000000';
-            const reqEnd = endDate || '99999999';
-
-            return fileStart <= reqEnd && fileEnd >= reqStart;
+            const [reqStart, reqEnd] = rangeBounds(startDate, endDate);
+            return dateKey(entry.startDate) <= reqEnd && dateKey(entry.endDate) >= reqStart;
         });
         console.log('Relevant files:', relevantFiles);
 
-        // 2. Fetch and parse files (with caching)
+        // 2. Fetch and parse files (with caching); parsing runs in the CSV worker
         const filePromises = relevantFiles.map(async (file) => {
             // Construct full path with BASE_URL
             const fullPath = `${this.BASE_URL}${file.path.replace(/^\//, '')}`;
@@ -127,61 +379,44 @@ class FundDataService {
             }
 
             console.log('Fetching file:', fullPath);
-            return new Promise<{ file: FundManifestEntry, data: any[] }>((resolve, reject) => {
-                Papa.parse(fullPath, {
-                    download: true,
-                    header: false, // Don't use first row as header
-                    skipEmptyLines: true,
-                    complete: (results) => {
-                        console.log('Raw parsed file:', fullPath, 'rows:', results.data.length);
-
-                        // Find the header row (the one that starts with 基金碼)
-                        const rawData = results.data as string[][];
-                        let headerRowIndex = -1;
-                        for (let i = 0; i < Math.min(10, rawData.length); i++) {
-                            if (rawData[i] && rawData[i][0] === '基金碼') {
-                                headerRowIndex = i;
-                                break;
-                            }
-                        }
-
-                        if (headerRowIndex === -1) {
-                            console.error('Could not find header row with 基金碼');
-                            resolve({ file, data: [] });
-                            return;
-                        }
-
-                        console.log('Found header at row:', headerRowIndex);
-                        const headers = rawData[headerRowIndex];
-                        const dataRows = rawData.slice(headerRowIndex + 1);
-
-                        // Convert to objects with headers as keys
-                        const processedData = dataRows.map(row => {
-                            const obj: any = {};
-                            headers.forEach((header, index) => {
-                                obj[header] = row[index];
-                            });
-                            return obj;
-                        }).filter(row => row['基金碼']); // Filter out rows without fund code
-
-                        console.log('Processed data rows:', processedData.length);
-                        if (processedData.length > 0) {
-                            console.log('Sample processed row 基金碼:', processedData[0]['基金碼']);
-                        }
-
-                        this.historyCache.set(fullPath, processedData);
-                        resolve({ file, data: processedData });
-                    },
-                    error: (error) => {
-                        console.error('Parse error for', fullPath, error);
-                        reject(error);
-                    },
-                });
+            const csvText = await this.fetchCachedText(fullPath);
+            const matrix = await csvWorkerService.parseHistory({ text: csvText }).catch(error => {
+                // Name the file: a manifest entry without a file on the server parses as index.html
+                throw new Error(`Invalid ${file.path}: ${error instanceof Error ? error.message : error}`);
             });
+            const data: ParsedHistoryFile = {
+                ...matrix,
+                rowIndex: new Map(matrix.fundIds.map((fundId, row) => [fundId, row])),
+            };
+            console.log('Parsed file:', fullPath, 'funds:', data.fundIds.length, 'dates:', data.dates.length);
+
+            this.historyCache.set(fullPath, data);
+            return { file, data };
         });
 
         const loadedFiles = await Promise.all(filePromises);
         console.log('Loaded files count:', loadedFiles.length);
+        return loadedFiles;
+    }
+
+    async getFundHistory(
+        fundIds: string[],
+        type: '淨值' | '市價',
+        startDate?: string,
+        endDate?: string
+    ): Promise<FundHistory[]> {
+        console.log('=== FundDataService.getFundHistory ===');
+        console.log('fundIds:', fundIds);
+        console.log('type:', type);
+        console.log('startDate:', startDate, 'endDate:', endDate);
+
+        const seriesIndex = await this.loadSeriesIndex();
+        const typeIndex = seriesIndex?.types[type];
+        if (typeIndex) {
+            return this.getIndexedFundHistory(typeIndex, fundIds, type, startDate, endDate);
+        }
+
+        const loadedFiles = await this.loadHistoryFiles(type, startDate, endDate);
 
         // 3. Merge data for requested funds
         const result: FundHistory[] = fundIds.map(fundId => ({
@@ -195,30 +430,20 @@ class FundDataService {
         fundIds.forEach(id => fundDataMaps.set(id, new Map()));
 
         loadedFiles.forEach(({ data }) => {
-            console.log('Processing file with', data.length, 'rows');
-            // Log first few rows to see structure
-            if (data.length > 0) {
-                console.log('Sample row 基金碼:', data[0]['基金碼']);
-            }
+            console.log('Processing file with', data.fundIds.length, 'funds');
 
             let matchCount = 0;
-            data.forEach((row: any) => {
-                const rowFundId = row['基金碼'];
-                if (fundIds.includes(rowFundId)) {
-                    matchCount++;
-                    const fundMap = fundDataMaps.get(rowFundId)!;
-                    // Iterate over date columns
-                    Object.keys(row).forEach(key => {
-                        if (key !== '基金碼' && key.match(/^\d{4}\/\d{1,2}\/\d{1,2}$/)) {
-                            // Date format in CSV is YYYY/MM/DD
-                            const date = key;
-                            const value = parseFloat(row[key]);
-                            if (!isNaN(value)) {
-                                fundMap.set(date, value);
-                            }
-                        }
-                    });
-                }
+            fundDataMaps.forEach((fundMap, fundId) => {
+                const row = data.rowIndex.get(fundId);
+                if (row === undefined) return;
+                matchCount++;
+                const offset = row * data.dates.length;
+                data.dates.forEach((date, column) => {
+                    const value = data.values[offset + column];
+                    if (!isNaN(value)) {
+                        fundMap.set(date, value);
+                    }
+                });
             });
             console.log('Matched funds in this file:', matchCount);
         });
@@ -226,27 +451,14 @@ class FundDataService {
         // Convert maps to sorted arrays
         result.forEach(fund => {
             const fundMap = fundDataMaps.get(fund.fundId)!;
-            const sortedDates = Array.from(fundMap.keys()).sort((a, b) => {
-                const partsA = a.split('/');
-                const partsB = b.split('/');
-                const dateA = new Date(parseInt(partsA[0]), parseInt(partsA[1]) - 1, parseInt(partsA[2]));
-                const dateB = new Date(parseInt(partsB[0]), parseInt(partsB[1]) - 1, parseInt(partsB[2]));
-                return dateA.getTime() - dateB.getTime();
-            });
+            const sortedDates = Array.from(fundMap.keys()).sort(compareDates);
             console.log('Fund', fund.fundId, 'has', sortedDates.length, 'date points');
 
             // Filter by requested date range if provided
+            const [start, end] = rangeBounds(startDate, endDate);
             const filteredDates = sortedDates.filter(date => {
-                // Convert YYYY/M/D to YYYYMMDD with proper padding
-                const parts = date.split('/');
-                const year = parts[0];
-                const month = parts[1].padStart(2, '0');
-                const day = parts[2].padStart(2, '0');
-                const dateStr = `${year}${month}${day}`;
-
-                const start = startDate ? startDate.replace(/-/g, '') : '00000000';
-                const end = endDate ? endDate.replace(/-/g, '') : '99999999';
-                return dateStr >= start && dateStr <= end;
+                const key = dateKey(date);
+                return key >= start && key <= end;
             });
             console.log('After date filter:', filteredDates.length, 'points (start:', startDate, 'end:', endDate, ')');
 
@@ -260,70 +472,299 @@ class FundDataService {
         return result;
     }
 
+    // Every fund that has at least one value in the history files of the given type
+    async getFundIdsWithHistory(type: '淨值' | '市價', startDate?: string, endDate?: string): Promise<string[]> {
+        const typeIndex = (await this.loadSeriesIndex())?.types[type];
+        if (typeIndex) {
+            const ids = Object.keys(typeIndex.funds);
+            if (!startDate && !endDate) return ids;
+            const history = await this.getIndexedFundHistory(typeIndex, ids, type, startDate, endDate);
+            return history.filter(h => h.data.length > 0).map(h => h.fundId);
+        }
+
+        const loadedFiles = await this.loadHistoryFiles(type, startDate, endDate);
+        // The worker keeps only funds with at least one value
+        const ids = new Set<string>();
+        loadedFiles.forEach(({ data }) => data.fundIds.forEach(id => ids.add(id)));
+        return Array.from(ids);
+    }
+
+    // TWSE sessions, taken from the 市價 history axis (listed funds only trade when the exchange is open)
+    async getTradingCalendar(): Promise<TradingCalendar> {
+        if (this.tradingCalendar) return this.tradingCalendar;
+
+        const typeIndex = (await this.loadSeriesIndex())?.types['市價'];
+        const dates = typeIndex
+            ? typeIndex.dates
+            : (await this.loadHistoryFiles('市價')).flatMap(({ data }) => data.dates);
+        this.tradingCalendar = new TradingCalendar(dates);
+        return this.tradingCalendar;
+    }
+
+    // Distributions and splits from distributions.json keyed by fund code, oldest first.
+    // A missing or unreadable file means no adjustments rather than an error.
+    getCorporateActions(): Promise<Map<string, CorporateAction[]>> {
+        if (!this.corporateActions) {
+            this.corporateActions = fetchJsonDataset<{ actions: unknown[] }>(DATA_CATALOG.fundDistributions)
+                .then(file => {
+                    const byFund = new Map<string, CorporateAction[]>();
+                    file.actions.map(parseCorporateAction).forEach(action => {
+                        if (!action) return;
+                        if (!byFund.has(action.fundId)) byFund.set(action.fundId, []);
+                        byFund.get(action.fundId)!.push(action);
+                    });
+                    byFund.forEach(actions => actions.sort((a, b) => compareDates(a.exDate, b.exDate)));
+                    return byFund;
+                })
+                .catch(error => {
+                    console.warn('Corporate actions unavailable, series stay unadjusted', error);
+                    return new Map<string, CorporateAction[]>();
+                });
+        }
+        return this.corporateActions;
+    }
+
+    private async loadFeeHistory(): Promise<Map<string, FundFee[]>> {
+        if (this.feeHistoryCache) return this.feeHistoryCache;
+
+        // Header: 基金碼, 年/月, 基金淨資產, A1手續費, 手續費率, A2交易稅, 交易稅率, A3 ETF申購買回交易費, ...,
+        // 直接交易成本率, B1經理費, 經理費率, ..., 費用合計(B1+..+B4), 費用率, 成本+費用總計
+        const rows = await this.loadTable(DATA_CATALOG.fundFees);
+        const history = new Map<string, FundFee[]>();
+
+        rows.forEach(row => {
+            const tradingCostRate = parseNumber(row['直接交易成本率']);
+            const totalExpenseRatio = parseNumber(row['費用率']);
+            const fee: FundFee = {
+                fundId: row['基金碼'],
+                month: row['年/月'],
+                netAssets: parseNumber(row['基金淨資產']),
+                commissionRate: parseNumber(row['手續費率']),
+                transactionTaxRate: parseNumber(row['交易稅率']),
+                etfCreationRedemptionRate: parseNumber(row['ETF申購買回交易費率']),
+                tradingCostRate,
+                managementFee: parseNumber(row['經理費率']),
+                custodianFee: parseNumber(row['保管費率']),
+                guaranteeFee: parseNumber(row['保證費率']),
+                otherFee: parseNumber(row['其他費用率']),
+                totalExpenseRatio,
+                totalCostRatio: tradingCostRate === null && totalExpenseRatio === null
+                    ? null
+                    : (tradingCostRate ?? 0) + (totalExpenseRatio ?? 0),
+                totalCost: parseNumber(row['成本+費用總計']),
+            };
+
+            if (!history.has(fee.fundId)) history.set(fee.fundId, []);
+            history.get(fee.fundId)!.push(fee);
+        });
+
+        // Oldest month first
+        history.forEach(entries => entries.sort((a, b) => a.month.localeCompare(b.month)));
+
+        this.feeHistoryCache = history;
+        return history;
+    }
+
+    // Latest month with reported fees for every fund (falls back to the latest row, e.g. net assets only)
     async getFundFees(): Promise<Map<string, FundFee>> {
         if (this.feeCache) return this.feeCache;
 
-        const url = `${this.BASE_URL}data/fund/基金費用.csv`;
-        return new Promise((resolve, reject) => {
-            Papa.parse(url, {
-                download: true,
-                header: true, // Auto-detect header
-                skipEmptyLines: true,
-                complete: (results) => {
-                    const feeMap = new Map<string, FundFee>();
-                    // Group by fund and take the latest entry usually, but here we scan all
-                    // Assuming we want the latest available fee data? 
-                    // Or maybe the file structure is one row per fund per month?
-                    // Let's assume we want the most recent 'Current' data or similar. 
-                    // Based on CSV observation, it seems to have 'Current' column or similar? 
-                    // Wait, the previous `get-content` showed: "Current,,,淨資產,A1手續費..." then next line "基金碼,年月日..."
-                    // It seems the file defines fields like A1經理費, B2保管費 etc.
-                    // Let's rely on standard parsing.
-
-                    results.data.forEach((row: any) => {
-                        const id = row['基金碼'];
-                        if (!id) return;
-
-                        // Parse fees - handle % signs or raw numbers
-                        const parseFee = (val: string) => {
-                            if (!val) return 0;
-                            return parseFloat(val.replace('%', ''));
-                        };
-
-                        // Construct fee object
-                        // Note: Column names based on user provided data/header inspection
-                        // "A1經理費", "B2保管費", "B3保證費", "B4其他費用", "費用率"
-                        const fee: FundFee = {
-                            fundId: id,
-                            managementFee: parseFee(row['A1經理費'] || row['經理費率']), // Try both potentially
-                            custodianFee: parseFee(row['B2保管費'] || row['保管費率']),
-                            guaranteeFee: parseFee(row['B3保證費'] || row['保證費率']),
-                            otherFee: parseFee(row['B4其他費用']),
-                            totalExpenseRatio: parseFee(row['費用率']),
-                        };
-
-                        // If multiple entries exist (e.g. historical), we might overwrite. 
-                        // Usually we want the latest. If the CSV is sorted by date, last one wins.
-                        // If not, we might need to check date. "年月日" column exists.
-                        const existing = feeMap.get(id);
-                        if (!existing) {
-                            feeMap.set(id, fee);
-                        } else {
-                            // Check date if available to always keep latest
-                            const newDate = row['年月日'];
-                            const oldEntry = (existing as any)._date; // temporary storage
-                            if (newDate > oldEntry) {
-                                feeMap.set(id, { ...fee, _date: newDate } as any);
-                            }
-                        }
-                    });
+        const history = await this.loadFeeHistory();
+        const feeMap = new Map<string, FundFee>();
+        history.forEach((entries, fundId) => {
+            const reported = entries.filter(f => f.totalCostRatio !== null);
+            const latest = reported.length > 0 ? reported[reported.length - 1] : entries[entries.length - 1];
+            feeMap.set(fundId, latest);
+        });
+
+        this.feeCache = feeMap;
+        return feeMap;
+    }
+
+    // Full monthly fee history of one fund, oldest month first
+    async getFundFeeHistory(fundId: string): Promise<FundFee[]> {
+        const history = await this.loadFeeHistory();
+        return history.get(fundId) ?? [];
+    }
+
+    // Annual trading cost and expense ratios from the latest `months` reported months: their sum when all
+    // of them are reported, otherwise the available months scaled to a year. Null when none are reported.
+    async getTrailingCostRatio(fundId: string, months = 12): Promise<AnnualCostRatio | null> {
+        const reported = (await this.getFundFeeHistory(fundId)).filter(f => f.totalCostRatio !== null);
+        if (reported.length === 0) return null;
+
+        const window = reported.slice(-months);
+        const scale = 12 / window.length;
+        const tradingCost = window.reduce((sum, f) => sum + (f.tradingCostRate ?? 0), 0) * scale;
+        const expense = window.reduce((sum, f) => sum + (f.totalExpenseRatio ?? 0), 0) * scale;
+        return { tradingCost, expense, total: tradingCost + expense, months: window.length };
+    }
+
+    private async loadHoldings(): Promise<FundHolding[]> {
+        if (this.holdingsCache) return this.holdingsCache;
+
+        const rows = await this.loadTable(DATA_CATALOG.fundHoldings);
+        this.holdingsCache = rows
+            // Funds without a filing have '-' codes; M*/TT* codes are industry subtotals and fund size
+            .filter(row => /^\d/.test(row['標的碼']))
+            .map(row => ({
+                fundId: row['基金名稱'],
+                month: row['年月'],
+                stockCode: row['標的碼'],
+                stockName: row['標的名稱'],
+                shares: parseNumber(row['投資股數(千股)']),
+                weight: parseNumber(row['投資比率％']),
+                amount: parseNumber(row['投資金額(千元)']),
+                ownershipPct: parseNumber(row['持股數/流通在外股數%']),
+                monthlyReturn: parseNumber(row['個股月報酬率％']),
+                isin: row['ISIN'] || undefined,
+            }));
+        console.log('Loaded fund holdings:', this.holdingsCache.length);
+        return this.holdingsCache;
+    }
 
-                    this.feeCache = feeMap;
-                    resolve(feeMap);
-                },
-                error: (error) => reject(error),
+    // Months (YYYY/MM) that have holdings data, newest first
+    async getHoldingMonths(): Promise<string[]> {
+        const holdings = await this.loadHoldings();
+        return Array.from(new Set(holdings.map(h => h.month))).sort((a, b) => b.localeCompare(a));
+    }
+
+    // Holdings of one fund, sorted by weight. Defaults to the fund's latest reported month.
+    async getFundHoldings(fundId: string, month?: string): Promise<FundHolding[]> {
+        const holdings = (await this.loadHoldings()).filter(h => h.fundId === fundId);
+        const targetMonth = month ?? holdings.reduce((latest, h) => h.month > latest ? h.month : latest, '');
+        return holdings
+            .filter(h => h.month === targetMonth)
+            .sort((a, b) => (b.weight ?? 0) - (a.weight ?? 0));
+    }
+
+    // Every fund's holdings in one month
+    async getHoldingsForMonth(month: string): Promise<FundHolding[]> {
+        return (await this.loadHoldings()).filter(h => h.month === month);
+    }
+
+    // Funds holding the given stock, sorted by weight. Defaults to the latest month the stock appears in.
+    async getHoldersOfStock(stockCode: string, month?: string): Promise<FundHolding[]> {
+        const holders = (await this.loadHoldings()).filter(h => h.stockCode === stockCode);
+        const targetMonth = month ?? holders.reduce((latest, h) => h.month > latest ? h.month : latest, '');
+        return holders
+            .filter(h => h.month === targetMonth)
+            .sort((a, b) => (b.weight ?? 0) - (a.weight ?? 0));
+    }
+
+    private async loadAllFundsPositions(): Promise<AllFundsStockPosition[]> {
+        if (this.allFundsPositionCache) return this.allFundsPositionCache;
+
+        const rows = await this.loadTable(DATA_CATALOG.fundStockPositions);
+        this.allFundsPositionCache = rows.flatMap(row => {
+            const match = row['基金名稱'].trim().match(/^(\S+)\s+(.*)$/);
+            if (!match) return [];
+            return [{
+                stockCode: match[1],
+                stockName: match[2],
+                month: row['年月'],
+                shares: parseNumber(row['投資股數']),
+                weight: parseNumber(row['投資比率％']),
+                ownershipPct: parseNumber(row['持股數/流通在外股數%']),
+                monthlyReturn: parseNumber(row['個股月報酬率％']),
+            }];
+        });
+        return this.allFundsPositionCache;
+    }
+
+    // All funds' combined position in the stock in its latest reported month; null when no fund held it
+    async getAllFundsPosition(stockCode: string): Promise<AllFundsStockPosition | null> {
+        const positions = (await this.loadAllFundsPositions())
+            .filter(p => p.stockCode === stockCode && p.shares !== null);
+        return positions.reduce<AllFundsStockPosition | null>(
+            (latest, p) => (!latest || p.month > latest.month ? p : latest),
+            null
+        );
+    }
+
+    private async loadPortfolios(): Promise<FundPortfolio[]> {
+        if (this.portfolioCache) return this.portfolioCache;
+
+        const rows = await this.loadTable(DATA_CATALOG.fundPortfolios);
+        this.portfolioCache = rows.map(row => {
+            // Headers look like "A1  投資國內上市股票比例"; key them by the leading code
+            const byCode: Record<string, number | null> = {};
+            Object.keys(row).forEach(header => {
+                const match = header.match(/^(A\+B|[ABC]\d)\s/);
+                if (match) byCode[match[1]] = parseNumber(row[header]);
+            });
+
+            const allocations: Record<string, number | null> = {};
+            Object.keys(PORTFOLIO_ALLOCATION_LABELS).forEach(code => {
+                allocations[code] = byCode[code] ?? null;
             });
+
+            const overseasValues = Object.keys(byCode)
+                .filter(code => code.startsWith('C'))
+                .map(code => byCode[code])
+                .filter((v): v is number => v !== null);
+
+            return {
+                fundId: row['基金碼'],
+                date: row['日期'],
+                netAssets: parseNumber(row['基金淨資產 (千元)']),
+                allocations,
+                domesticSecurities: byCode['A0'] ?? null,
+                shortTerm: byCode['B0'] ?? null,
+                domesticTotal: byCode['A+B'] ?? null,
+                overseas: overseasValues.length > 0 ? overseasValues.reduce((a, b) => a + b, 0) : null,
+            };
+        });
+        return this.portfolioCache;
+    }
+
+    // Asset allocation of one fund. Defaults to the latest reported month; null when the fund did not report.
+    async getFundPortfolio(fundId: string, date?: string): Promise<FundPortfolio | null> {
+        const portfolios = (await this.loadPortfolios())
+            .filter(p => p.fundId === fundId && p.domesticTotal !== null)
+            .sort((a, b) => b.date.localeCompare(a.date));
+        if (date) return portfolios.find(p => p.date === date) ?? null;
+        return portfolios[0] ?? null;
+    }
+
+    private async loadSectorWeights(): Promise<{ sectors: IndustrySector[]; weights: FundSectorWeights[] }> {
+        if (this.sectorCache) return this.sectorCache;
+
+        const rows = await this.loadTable(DATA_CATALOG.fundSectorWeights);
+        const sectorHeaders = rows.length > 0
+            ? Object.keys(rows[0]).filter(header => /^M\d{4}\s/.test(header))
+            : [];
+
+        // "M1721 化學工業 %" -> { code: 'M1721', name: '化學工業' }; codes ending in 00 are top-level
+        const sectors: IndustrySector[] = sectorHeaders.map(header => {
+            const [code, ...rest] = header.replace(/%$/, '').trim().split(/\s+/);
+            const parent = code.endsWith('00') ? undefined : `${code.substring(0, 3)}00`;
+            return { code, name: rest.join(' '), parent };
         });
+
+        const weights: FundSectorWeights[] = rows.map(row => {
+            const fundWeights: Record<string, number | null> = {};
+            sectorHeaders.forEach((header, i) => {
+                fundWeights[sectors[i].code] = parseNumber(row[header]);
+            });
+            return { fundId: row['公司代碼'], date: row['年月日'], weights: fundWeights };
+        });
+
+        this.sectorCache = { sectors, weights };
+        return this.sectorCache;
+    }
+
+    async getIndustrySectors(): Promise<IndustrySector[]> {
+        return (await this.loadSectorWeights()).sectors;
+    }
+
+    // Weekly industry weights for one fund, oldest week first. Weeks the fund did not report are dropped.
+    async getSectorExposure(fundId: string): Promise<FundSectorWeights[]> {
+        const { weights } = await this.loadSectorWeights();
+        return sortByDate(
+            weights.filter(w => w.fundId === fundId && Object.values(w.weights).some(v => v !== null)),
+            w => w.date
+        );
     }
 }
 
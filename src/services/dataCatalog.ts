@@ -0,0 +1,322 @@
+// Catalog of the data files the app loads from public/data, shared by the runtime loaders and
+// scripts/validate-data.ts. Each entry says where the file lives, which columns or JSON shape the
+// code relies on and which column dates it, so a changed export fails with a message naming the file
+// instead of quietly producing empty tables.
+//
+// No imports: the validation script loads this module directly with node --experimental-strip-types.
+// The pre-built fund series (data/fund/series) are generated from the history CSVs by
+// scripts/build-fund-series.ts and version-checked by FundDataService, so they are not listed here.
+
+// table:   "Current / blank / header" export; the header row is found by its first cell
+// history: wide yearly fund history, "基金碼, 2025/12/3, 2025/12/2, ...", one file per period in manifest.json
+// csv:     plain CSV with the header on the first line
+export type DatasetFormat = 'table' | 'history' | 'csv' | 'json';
+
+export interface DatasetSpec {
+    path: string; // Relative to public/ (BASE_URL at runtime); the directory for 'history'
+    format: DatasetFormat;
+    description: string;
+    required: boolean; // Optional files are uploaded separately and may be missing from a checkout
+    encoding?: 'utf-8' | 'big5';
+    headerColumn?: string; // First header cell of 'table' and 'history' files
+    columns?: string[]; // Columns the loaders read by name
+    minColumns?: number; // Positional CSVs whose header names aren't relied on
+    dateColumn?: string; // Column whose values give the date coverage
+    validate?: (data: unknown) => string[]; // JSON shape check, one message per problem
+    warn?: (data: unknown) => string[]; // Non-fatal notes on valid JSON, e.g. data a feature needs is absent
+    dates?: (data: unknown) => string[]; // JSON dates for the coverage report
+}
+
+export interface DateCoverage {
+    start: string; // As written in the file
+    end: string;
+    count: number; // Distinct dates
+}
+
+export interface FundHistoryFileName {
+    startDate: string; // YYYYMMDD
+    endDate: string;
+    type: string; // 淨值 or 市價
+}
+
+// e.g. "20240101-20241231(淨值).csv"
+export const FUND_HISTORY_FILE = /^(\d{8})-(\d{8})\((.+)\)\.csv$/;
+export const FUND_HISTORY_TYPES = ['淨值', '市價'];
+export const HISTORY_DATE_COLUMN = /^\d{4}\/\d{1,2}\/\d{1,2}$/;
+
+// Problems are capped per dataset so one systematic error doesn't bury the rest
+const MAX_PROBLEMS = 5;
+
+export const parseHistoryFileName = (file: string): FundHistoryFileName | null => {
+    const match = file.match(FUND_HISTORY_FILE);
+    return match ? { startDate: match[1], endDate: match[2], type: match[3] } : null;
+};
+
+// YYYYMMDD / YYYYMM key for the date forms used across the files (2025/1/5, 2025-01-05, 20250105, 2025/01),
+// or null when the value isn't a date
+export const sortableDate = (value: string): string | null => {
+    const match = value.trim().match(/^(\d{4})[/-]?(\d{1,2})(?:[/-]?(\d{1,2}))?$/);
+    if (!match) return null;
+    const [, year, month, day] = match;
+    if (+month < 1 || +month > 12 || (day !== undefined && (+day < 1 || +day > 31))) return null;
+    return `${year}${month.padStart(2, '0')}${day !== undefined ? day.padStart(2, '0') : ''}`;
+};
+
+export const dateCoverage = (values: string[]): DateCoverage | null => {
+    const dates = new Map<string, string>();
+    values.forEach(value => {
+        const key = sortableDate(value);
+        if (key && !dates.has(key)) dates.set(key, value.trim());
+    });
+    if (dates.size === 0) return null;
+    const keys = Array.from(dates.keys()).sort();
+    return { start: dates.get(keys[0])!, end: dates.get(keys[keys.length - 1])!, count: keys.length };
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const cap = (problems: string[]) =>
+    problems.length > MAX_PROBLEMS
+        ? [...problems.slice(0, MAX_PROBLEMS), `...and ${problems.length - MAX_PROBLEMS} more`]
+        : problems;
+
+// Array of objects carrying the given string fields
+const recordArray = (fields: string[]) => (data: unknown): string[] => {
+    if (!Array.isArray(data)) return ['expected an array'];
+    if (data.length === 0) return ['is empty'];
+    const problems: string[] = [];
+    data.forEach((item, i) => {
+        if (!isRecord(item)) {
+            problems.push(`[${i}] is not an object`);
+            return;
+        }
+        const missing = fields.filter(field => typeof item[field] !== 'string');
+        if (missing.length > 0) problems.push(`[${i}] is missing ${missing.join(', ')}`);
+    });
+    return cap(problems);
+};
+
+const validateFundManifest = (data: unknown): string[] => {
+    if (!Array.isArray(data)) return ['expected an array of history files'];
+    const problems: string[] = [];
+    data.forEach((entry, i) => {
+        if (!isRecord(entry) || typeof entry.file !== 'string') {
+            problems.push(`[${i}] has no file name`);
+            return;
+        }
+        const parsed = parseHistoryFileName(entry.file);
+        if (!parsed) {
+            problems.push(`${entry.file} doesn't follow the YYYYMMDD-YYYYMMDD(類型).csv naming`);
+            return;
+        }
+        if (entry.path !== `/data/fund/${entry.file}`) problems.push(`${entry.file}: path should be /data/fund/${entry.file}`);
+        if (entry.startDate !== parsed.startDate || entry.endDate !== parsed.endDate) {
+            problems.push(`${entry.file}: startDate/endDate don't match the file name`);
+        }
+        if (entry.type !== parsed.type) problems.push(`${entry.file}: type doesn't match the file name`);
+        if (!FUND_HISTORY_TYPES.includes(parsed.type)) problems.push(`${entry.file}: unknown history type ${parsed.type}`);
+        if (parsed.startDate > parsed.endDate) problems.push(`${entry.file}: period ends before it starts`);
+    });
+    return cap(problems);
+};
+
+const validateChipsDates = (data: unknown): string[] => {
+    if (!Array.isArray(data)) return ['expected an array of YYYYMMDD dates'];
+    if (data.length === 0) return ['is empty'];
+    return cap(data
+        .filter(date => typeof date !== 'string' || !/^\d{8}$/.test(date) || !sortableDate(date))
+        .map(date => `${JSON.stringify(date)} is not a YYYYMMDD date`));
+};
+
+// Sheet name ("1月", "第1季", ...) -> category -> rows
+const RANKING_CATEGORIES = ['stocks', 'industries', 'sub_industries', 'related_industries', 'related_groups', 'industry_types'];
+const validateRankings = (data: unknown): string[] => {
+    if (!isRecord(data)) return ['expected an object of sheets'];
+    const sheets = Object.entries(data);
+    if (sheets.length === 0) return ['has no sheets'];
+    const problems: string[] = [];
+    sheets.forEach(([sheet, categories]) => {
+        if (!isRecord(categories)) {
+            problems.push(`sheet ${sheet} is not an object`);
+            return;
+        }
+        const missing = RANKING_CATEGORIES.filter(category => !Array.isArray(categories[category]));
+        if (missing.length > 0) problems.push(`sheet ${sheet} is missing ${missing.join(', ')}`);
+    });
+    return cap(problems);
+};
+
+const validateDistributions = (data: unknown): string[] => {
+    if (!isRecord(data)) return ['expected an object'];
+    if (data.version !== 1) return [`unsupported version ${JSON.stringify(data.version)}, expected 1`];
+    if (!Array.isArray(data.actions)) return ['actions must be an array'];
+    return [];
+};
+
+// Without cash entries the 總報酬 basis silently equals price return
+const warnDistributions = (data: unknown): string[] =>
+    isRecord(data) && Array.isArray(data.actions) && !data.actions.some(action => isRecord(action) && action.type === 'cash')
+        ? ['no cash distributions: the total-return basis equals price return for every fund']
+        : [];
+
+export const DATA_CATALOG = {
+    fundManifest: {
+        path: 'data/fund/manifest.json',
+        format: 'json',
+        description: 'History files by period and type (scripts/generate-fund-manifest.js)',
+        required: true,
+        validate: validateFundManifest,
+    },
+    fundHistory: {
+        path: 'data/fund',
+        format: 'history',
+        description: 'Daily 淨值/市價 per fund, one CSV per period',
+        required: true,
+        headerColumn: '基金碼',
+    },
+    fundBasicInfo: {
+        path: 'data/fund/基金基本資料.csv',
+        format: 'table',
+        description: 'Fund names, managers and types; the bundled fund list is used without it',
+        required: false,
+        headerColumn: '基金碼',
+        columns: ['基金碼', '基金全稱'],
+    },
+    fundFees: {
+        path: 'data/fund/基金費用.csv',
+        format: 'table',
+        description: 'Monthly trading costs and expense ratios',
+        required: true,
+        headerColumn: '基金碼',
+        columns: ['基金碼', '年/月', '基金淨資產', '手續費率', '交易稅率', 'ETF申購買回交易費率', '直接交易成本率',
+            '經理費率', '保管費率', '保證費率', '其他費用率', '費用率', '成本+費用總計'],
+        dateColumn: '年/月',
+    },
+    fundHoldings: {
+        path: 'data/fund/基金月持股.csv',
+        format: 'table',
+        description: 'Monthly disclosed stock holdings per fund',
+        required: true,
+        headerColumn: '基金名稱',
+        columns: ['基金名稱', '年月', '標的碼', '標的名稱', '投資股數(千股)', '投資比率％', '投資金額(千元)',
+            '持股數/流通在外股數%', '個股月報酬率％'],
+        dateColumn: '年月',
+    },
+    fundStockPositions: {
+        path: 'data/fund/基金月持股(全體).csv',
+        format: 'table',
+        description: "All funds' combined monthly position per security (rows are securities despite the 基金名稱 header)",
+        required: true,
+        headerColumn: '基金名稱',
+        columns: ['基金名稱', '年月', '投資股數', '投資比率％', '持股數/流通在外股數%', '個股月報酬率％'],
+        dateColumn: '年月',
+    },
+    fundPortfolios: {
+        path: 'data/fund/基金投資組合.csv',
+        format: 'table',
+        description: 'Monthly asset allocation (A*/B*/C* columns are matched by code)',
+        required: true,
+        headerColumn: '基金碼',
+        columns: ['基金碼', '日期', '基金淨資產 (千元)'],
+        dateColumn: '日期',
+    },
+    fundSectorWeights: {
+        path: 'data/fund/基金周持股(產業).csv',
+        format: 'table',
+        description: 'Weekly industry weights (M* columns are matched by code)',
+        required: true,
+        headerColumn: '公司代碼',
+        columns: ['公司代碼', '年月日'],
+        dateColumn: '年月日',
+    },
+    fundDistributions: {
+        path: 'data/fund/distributions.json',
+        format: 'json',
+        description: 'Cash distributions and splits for total-return adjustment',
+        required: false,
+        validate: validateDistributions,
+        warn: warnDistributions,
+        dates: data => (isRecord(data) && Array.isArray(data.actions)
+            ? data.actions.filter(isRecord).map(action => String(action.exDate))
+            : []),
+    },
+    brokers: {
+        path: 'data/brokers.csv',
+        format: 'csv',
+        description: 'Broker research reports; columns are read by position up to 22 (摘要)',
+        required: false,
+        encoding: 'big5',
+        minColumns: 23,
+    },
+    articles: {
+        path: 'data/history.csv',
+        format: 'csv',
+        description: 'Summarized research articles',
+        required: false,
+        columns: ['處理時間', '原始檔案', '原始檔案上傳時間', '來源資料夾', 'SUMMARY', '判斷', '理由', 'KEY_POINTS', 'TAGS'],
+    },
+    chipsDates: {
+        path: 'data/chips/dates.json',
+        format: 'json',
+        description: 'Trading days with a broker branch archive in data/chips/<date>.zip',
+        required: true,
+        validate: validateChipsDates,
+        dates: data => (Array.isArray(data) ? data.map(String) : []),
+    },
+    stockInfo: {
+        path: 'data/stock_info.json',
+        format: 'json',
+        description: 'Listed stocks with industry, group and market',
+        required: true,
+        validate: recordArray(['代碼', '名稱']),
+    },
+    rankings3y: {
+        path: 'data/rankings_3y.json',
+        format: 'json',
+        description: 'Seasonality rankings by month/quarter over 3 years',
+        required: true,
+        validate: validateRankings,
+    },
+    rankings5y: {
+        path: 'data/rankings_5y.json',
+        format: 'json',
+        description: 'Seasonality rankings by month/quarter over 5 years',
+        required: true,
+        validate: validateRankings,
+    },
+    rawStats3y: {
+        path: 'data/raw_stats_3y.json',
+        format: 'json',
+        description: 'Per-stock monthly up/down statistics over 3 years',
+        required: true,
+        validate: recordArray(['代碼', '商品']),
+    },
+    rawStats5y: {
+        path: 'data/raw_stats_5y.json',
+        format: 'json',
+        description: 'Per-stock monthly up/down statistics over 5 years',
+        required: true,
+        validate: recordArray(['代碼', '商品']),
+    },
+} satisfies Record<string, DatasetSpec>;
+
+export type DatasetId = keyof typeof DATA_CATALOG;
+
+// Problems with a header row: missing named columns or too few positional ones
+export const checkColumns = (spec: DatasetSpec, headers: string[]): string[] => {
+    const present = new Set(headers.map(h => h.replace(/^\uFEFF/, '').trim()));
+    const problems: string[] = [];
+    const missing = (spec.columns ?? []).filter(column => !present.has(column));
+    if (missing.length > 0) problems.push(`missing columns ${missing.join(', ')}`);
+    if (spec.minColumns && headers.length < spec.minColumns) {
+        problems.push(`expected at least ${spec.minColumns} columns, found ${headers.length}`);
+    }
+    return problems;
+};
+
+export const checkJson = (spec: DatasetSpec, data: unknown): string[] => spec.validate?.(data) ?? [];
+
+export const assertValid = (spec: DatasetSpec, problems: string[]): void => {
+    if (problems.length > 0) throw new Error(`Invalid ${spec.path}: ${problems.join('; ')}`);
+};
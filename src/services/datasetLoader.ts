@@ -0,0 +1,34 @@
+import { assertValid, checkColumns, checkJson } from './dataCatalog';
+import type { DatasetSpec } from './dataCatalog';
+
+// Runtime side of the data catalog: fetch a catalogued file and check it against its spec, so a missing or
+// reshaped file surfaces as an error naming the file rather than as an empty view.
+
+const BASE_URL = import.meta.env.BASE_URL || '/';
+
+export const datasetUrl = (spec: DatasetSpec, file?: string) =>
+    `${BASE_URL}${file ? `${spec.path}/${file}` : spec.path}`;
+
+export async function fetchJsonDataset<T>(spec: DatasetSpec, options: { bustCache?: boolean } = {}): Promise<T> {
+    const url = datasetUrl(spec);
+    const response = await fetch(options.bustCache ? `${url}?t=${Date.now()}` : url);
+    if (!response.ok) {
+        throw new Error(`Failed to fetch ${spec.path}: ${response.status}`);
+    }
+
+    let data: unknown;
+    try {
+        data = await response.json();
+    } catch {
+        // Dev servers answer missing files with index.html
+        throw new Error(`${spec.path} is not valid JSON (is the file missing?)`);
+    }
+    assertValid(spec, checkJson(spec, data));
+    return data as T;
+}
+
+// Throws when rows parsed from a catalogued CSV lack the columns the loaders read
+export const assertRowColumns = (spec: DatasetSpec, rows: Record<string, string>[]): void => {
+    if (rows.length === 0) throw new Error(`${spec.path} has no data rows`);
+    assertValid(spec, checkColumns(spec, Object.keys(rows[0])));
+};
@@ -0,0 +1,36 @@
+// Pre-indexed fund history produced by scripts/build-fund-series.ts from the yearly wide CSVs at build time.
+//
+// public/data/fund/series/index.json holds, per history type, the shared trading-day axis and
+// the chunk each fund lives in. Chunks hold up to FUND_SERIES_CHUNK_SIZE funds, each stored as a
+// column of values starting at an offset into that axis, so a lookup fetches only its chunks.
+
+export type FundSeriesType = '淨值' | '市價';
+
+export const FUND_SERIES_DIR = 'data/fund/series';
+export const FUND_SERIES_INDEX = 'index.json';
+export const FUND_SERIES_VERSION = 1;
+export const FUND_SERIES_CHUNK_SIZE = 100;
+
+// ASCII file prefixes so chunk URLs need no encoding
+export const FUND_SERIES_SLUGS: Record<FundSeriesType, string> = {
+    '淨值': 'nav',
+    '市價': 'price',
+};
+
+export interface FundSeriesTypeIndex {
+    dates: string[]; // Ascending trading days, YYYY/M/D as in the source CSV headers
+    chunks: string[]; // Chunk file names relative to the series directory
+    funds: Record<string, number>; // fundId -> index into chunks
+}
+
+export interface FundSeriesIndex {
+    version: number;
+    types: Partial<Record<FundSeriesType, FundSeriesTypeIndex>>;
+}
+
+export interface FundSeriesColumn {
+    start: number; // Index into FundSeriesTypeIndex.dates of values[0]
+    values: (number | null)[]; // null where the fund has no value that day
+}
+
+export type FundSeriesChunk = Record<string, FundSeriesColumn>;
@@ -0,0 +1,240 @@
+import { describe, expect, it } from 'vitest';
+import type { FundHistoryPoint } from '../services/FundDataService';
+import {
+    alignOnDateUnion,
+    calculateCalendarYearReturns,
+    calculateMetrics,
+    calculateRiskMetrics,
+    DEFAULT_METRICS_CONFIG,
+    drawdownEpisodes,
+    xirr,
+} from './FinancialMetrics';
+import type { MetricsConfig } from './FinancialMetrics';
+
+const series = (points: [string, number][]): FundHistoryPoint[] => points.map(([date, value]) => ({ date, value }));
+
+// Population standard deviation, written out independently of the module under test
+const populationStd = (values: number[]) => {
+    const mu = values.reduce((a, b) => a + b, 0) / values.length;
+    return Math.sqrt(values.reduce((acc, v) => acc + (v - mu) ** 2, 0) / values.length);
+};
+
+const config = (overrides: Partial<MetricsConfig>): MetricsConfig => ({ ...DEFAULT_METRICS_CONFIG, ...overrides });
+
+describe('calculateRiskMetrics', () => {
+    // Exactly four years (1461 days), so the CAGR is 1.6^(1/4) - 1
+    const data = series([['2020/1/1', 100], ['2021/1/1', 120], ['2022/1/1', 90], ['2024/1/1', 160]]);
+    const returns = [0.2, -0.25, 160 / 90 - 1];
+    const cagr = Math.pow(1.6, 1 / 4) - 1;
+
+    it('uses the CAGR over daily volatility and downside deviation by default', () => {
+        const result = calculateRiskMetrics(data);
+        const volatility = populationStd(returns) * Math.sqrt(252);
+        const downside = Math.sqrt(0.25 ** 2 / 3) * Math.sqrt(252);
+
+        expect(result.annualizedReturn).toBeCloseTo(cagr, 10);
+        expect(result.volatility).toBeCloseTo(volatility, 10);
+        expect(result.downsideDeviation).toBeCloseTo(downside, 10);
+        expect(result.sharpeRatio).toBeCloseTo((cagr - 0.012) / volatility, 10);
+        expect(result.sortinoRatio).toBeCloseTo((cagr - 0.012) / downside, 10);
+        expect(result.maxDrawdown).toBeCloseTo(0.25, 10);
+        expect(result.winRate).toBeCloseTo(2 / 3, 10);
+    });
+
+    it('subtracts the configured risk-free rate', () => {
+        const volatility = populationStd(returns) * Math.sqrt(252);
+        expect(calculateRiskMetrics(data, config({ riskFreeRate: 0 })).sharpeRatio).toBeCloseTo(cagr / volatility, 10);
+        expect(calculateRiskMetrics(data, config({ riskFreeRate: 0.05 })).sharpeRatio)
+            .toBeCloseTo((cagr - 0.05) / volatility, 10);
+    });
+
+    it('annualizes daily returns with tradingDaysPerYear', () => {
+        const base = calculateRiskMetrics(data);
+        const result = calculateRiskMetrics(data, config({ tradingDaysPerYear: 365 }));
+        expect(result.volatility).toBeCloseTo(base.volatility! * Math.sqrt(365 / 252), 10);
+        expect(result.sharpeRatio).toBeCloseTo(base.sharpeRatio! * Math.sqrt(252 / 365), 10);
+        expect(result.sortinoRatio).toBeCloseTo(base.sortinoRatio! * Math.sqrt(252 / 365), 10);
+    });
+
+    it('samples weekly returns at the last close of each ISO week', () => {
+        const weekly = series([
+            ['2024/1/1', 100], ['2024/1/3', 105], ['2024/1/5', 102],
+            ['2024/1/8', 98], ['2024/1/12', 110],
+            ['2024/1/19', 99],
+        ]);
+        const weeklyReturns = [110 / 102 - 1, 99 / 110 - 1];
+        const result = calculateRiskMetrics(weekly, config({ returnFrequency: 'weekly', tradingDaysPerYear: 365 }));
+        const volatility = populationStd(weeklyReturns) * Math.sqrt(52);
+
+        expect(result.volatility).toBeCloseTo(volatility, 10);
+        expect(result.sharpeRatio).toBeCloseTo((result.annualizedReturn! - 0.012) / volatility, 10);
+        expect(result.winRate).toBeCloseTo(0.5, 10);
+    });
+
+    it('samples monthly returns at the last close of each month', () => {
+        const monthly = series([
+            ['2024/1/15', 90], ['2024/1/31', 100],
+            ['2024/2/10', 130], ['2024/2/29', 110],
+            ['2024/3/15', 80], ['2024/3/29', 99],
+            ['2024/4/30', 121],
+        ]);
+        const monthlyReturns = [0.1, -0.1, 121 / 99 - 1];
+        const result = calculateRiskMetrics(monthly, config({ returnFrequency: 'monthly' }));
+        const volatility = populationStd(monthlyReturns) * Math.sqrt(12);
+        const downside = Math.sqrt(0.1 ** 2 / 3) * Math.sqrt(12);
+
+        expect(result.volatility).toBeCloseTo(volatility, 10);
+        expect(result.sharpeRatio).toBeCloseTo((result.annualizedReturn! - 0.012) / volatility, 10);
+        expect(result.sortinoRatio).toBeCloseTo((result.annualizedReturn! - 0.012) / downside, 10);
+        // The intra-month 130 -> 80 swing still counts towards the drawdown
+        expect(result.maxDrawdown).toBeCloseTo(50 / 130, 10);
+    });
+
+    it('has no ratios for an empty or one-point series', () => {
+        [[], series([['2024/1/2', 100]])].forEach(data => {
+            expect(calculateRiskMetrics(data)).toEqual({
+                annualizedReturn: null, volatility: null, downsideDeviation: null,
+                sharpeRatio: null, sortinoRatio: null, calmarRatio: null, maxDrawdown: 0, winRate: null,
+            });
+        });
+    });
+
+    it('has no Sortino ratio without a losing period', () => {
+        const rising = series([['2024/1/1', 100], ['2024/1/2', 101], ['2024/1/3', 103]]);
+        const result = calculateRiskMetrics(rising);
+        expect(result.sortinoRatio).toBeNull();
+        expect(result.sharpeRatio).not.toBeNull();
+    });
+});
+
+describe('calculateMetrics', () => {
+    it('returns percentages for the same inputs as calculateRiskMetrics', () => {
+        const data = series([['2020/1/1', 100], ['2021/1/1', 120], ['2022/1/1', 90], ['2024/1/1', 160]]);
+        const risk = calculateRiskMetrics(data, config({ returnFrequency: 'monthly' }));
+        const result = calculateMetrics(data, config({ returnFrequency: 'monthly' }));
+        expect(result.annualizedReturn).toBeCloseTo(risk.annualizedReturn! * 100, 10);
+        expect(result.volatility).toBeCloseTo(risk.volatility! * 100, 10);
+        expect(result.sharpeRatio).toBeCloseTo(risk.sharpeRatio!, 10);
+        expect(result.roi2Y).toBeCloseTo((160 / 90 - 1) * 100, 10);
+    });
+
+    it('is all nulls for an empty series', () => {
+        expect(Object.values(calculateMetrics([])).every(value => value === null)).toBe(true);
+    });
+
+    it('has no returns for a one-point series', () => {
+        const result = calculateMetrics(series([['2024/6/3', 100]]));
+        expect(result.roi1M).toBeNull();
+        expect(result.roiYTD).toBeNull();
+        expect(result.annualizedReturn).toBeNull();
+        expect(result.sharpeRatio).toBeNull();
+        expect(result.maxDrawdown).toBe(0);
+    });
+});
+
+describe('calculateCalendarYearReturns', () => {
+    it('measures each year from the previous year-end close', () => {
+        const data = series([
+            ['2022/12/30', 100], ['2023/6/30', 130], ['2023/12/29', 110], ['2024/12/31', 121], ['2025/3/31', 60.5],
+        ]);
+        const returns = calculateCalendarYearReturns(data);
+        expect(Array.from(returns.keys()).sort()).toEqual([2023, 2024, 2025]);
+        expect(returns.get(2023)).toBeCloseTo(10, 10);
+        expect(returns.get(2024)).toBeCloseTo(10, 10);
+        expect(returns.get(2025)).toBeCloseTo(-50, 10);
+    });
+
+    it('leaves out a partial first year without a prior year-end close', () => {
+        // Launched mid-2023: its 2023 return would not be comparable with full-year returns
+        const launchedMidYear = series([['2023/7/3', 10], ['2023/12/29', 15], ['2024/12/31', 18]]);
+        const returns = calculateCalendarYearReturns(launchedMidYear);
+        expect(returns.has(2023)).toBe(false);
+        expect(returns.get(2024)).toBeCloseTo(20, 10);
+    });
+
+    it('is empty for an empty or single-year series', () => {
+        expect(calculateCalendarYearReturns([]).size).toBe(0);
+        expect(calculateCalendarYearReturns(series([['2024/1/2', 10], ['2024/12/31', 12]])).size).toBe(0);
+    });
+});
+
+describe('alignOnDateUnion', () => {
+    it('puts every series on the sorted union of dates, carrying values forward', () => {
+        const a = series([['2024/1/4', 12], ['2024/1/2', 10]]);
+        const b = series([['2024/1/3', 5], ['2024/1/4', 0], ['2024/1/5', 6]]);
+        expect(alignOnDateUnion([a, b])).toEqual({
+            dates: ['2024/1/2', '2024/1/3', '2024/1/4', '2024/1/5'],
+            values: [
+                [10, 10, 12, 12],
+                [null, 5, 5, 6], // The 0 on 1/4 is not a price and is skipped
+            ],
+        });
+    });
+
+    it('treats differently formatted strings for one day as the same date', () => {
+        const a = series([['2024/1/2', 10]]);
+        const b = series([['2024-01-02', 20]]);
+        expect(alignOnDateUnion([a, b])).toEqual({ dates: ['2024/1/2'], values: [[10], [20]] });
+    });
+
+    it('handles no series, empty series and one-point series', () => {
+        expect(alignOnDateUnion([])).toEqual({ dates: [], values: [] });
+        expect(alignOnDateUnion([[]])).toEqual({ dates: [], values: [[]] });
+        expect(alignOnDateUnion([[], series([['2024/1/2', 10]])])).toEqual({ dates: ['2024/1/2'], values: [[null], [10]] });
+    });
+});
+
+describe('drawdownEpisodes', () => {
+    const data = series([
+        ['2024/1/5', 120], ['2024/1/1', 100], ['2024/1/2', 80], ['2024/1/3', 90],
+        ['2024/1/4', 100], ['2024/1/6', 60], ['2024/1/7', 90],
+    ]);
+
+    it('lists recovered and open episodes, deepest first', () => {
+        expect(drawdownEpisodes(data)).toEqual([
+            {
+                peakDate: '2024/1/5', troughDate: '2024/1/6', recoveryDate: null,
+                depth: expect.closeTo(50, 10), length: 2, daysToTrough: 1, daysToRecover: null,
+            },
+            {
+                peakDate: '2024/1/1', troughDate: '2024/1/2', recoveryDate: '2024/1/4',
+                depth: expect.closeTo(20, 10), length: 3, daysToTrough: 1, daysToRecover: 2,
+            },
+        ]);
+    });
+
+    it('keeps only the deepest episodes when limited', () => {
+        expect(drawdownEpisodes(data, 1).map(e => e.peakDate)).toEqual(['2024/1/5']);
+    });
+
+    it('finds nothing in an empty, one-point or rising series', () => {
+        expect(drawdownEpisodes([])).toEqual([]);
+        expect(drawdownEpisodes(series([['2024/1/2', 100]]))).toEqual([]);
+        expect(drawdownEpisodes(series([['2024/1/2', 100], ['2024/1/3', 100], ['2024/1/4', 101]]))).toEqual([]);
+    });
+});
+
+describe('xirr', () => {
+    it('matches a simple one-year return', () => {
+        // 2023 has 365 days, so the actual/365 year is exactly one
+        expect(xirr([{ date: '2023/1/1', amount: -1000 }, { date: '2024/1/1', amount: 1100 }])).toBeCloseTo(0.1, 6);
+    });
+
+    it('discounts every flow to zero net present value', () => {
+        const flows = [
+            { date: '2023/1/1', amount: -1000 },
+            { date: '2023/7/2', amount: -1000 },
+            { date: '2024/1/1', amount: 2200 },
+        ];
+        const rate = xirr(flows)!;
+        const npv = -1000 - 1000 / Math.pow(1 + rate, 182 / 365) + 2200 / (1 + rate);
+        expect(rate).toBeGreaterThan(0.1);
+        expect(npv).toBeCloseTo(0, 4);
+    });
+
+    it('is null for empty, one-sided or single cash flows', () => {
+        expect(xirr([])).toBeNull();
+        expect(xirr([{ date: '2023/1/1', amount: -1000 }])).toBeNull();
+        expect(xirr([{ date: '2023/1/1', amount: -1000 }, { date: '2024/1/1', amount: -100 }])).toBeNull();
+    });
+});
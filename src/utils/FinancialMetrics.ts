@@ -1,4 +1,415 @@
 import type { FundHistoryPoint } from '../services/FundDataService';
+import { addMonths, dateKey, daysBetween, parseDateStrict, periodEndIndices, sortByDate, yearsBetween } from './tradingDate';
+
+// Return and risk analytics shared by the comparison table, the detailed statistics, the fund
+// profile and the ranking page. Everything here is a pure function of a price/NAV series.
+//
+// Conventions:
+//   - Primitives work in decimals (0.05 = 5%); calculateMetrics/calculateDetailedStats return percentages.
+//   - Annualized return is the CAGR between the first and last observation.
+//   - Sharpe and Sortino use that CAGR in excess of the risk-free rate, over annualized volatility /
+//     downside deviation of returns sampled at config.returnFrequency.
+//   - Standard deviations are population (divide by N).
+
+export type ReturnFrequency = 'daily' | 'weekly' | 'monthly';
+
+export interface MetricsConfig {
+    riskFreeRate: number; // Annual, as a decimal
+    tradingDaysPerYear: number; // Annualization basis for daily returns
+    returnFrequency: ReturnFrequency; // Sampling of the returns behind volatility, Sharpe, Sortino and win rate
+}
+
+export const DEFAULT_METRICS_CONFIG: MetricsConfig = {
+    riskFreeRate: 0.012,
+    tradingDaysPerYear: 252,
+    returnFrequency: 'daily',
+};
+
+export const periodsPerYear = (config: MetricsConfig): number => {
+    switch (config.returnFrequency) {
+        case 'daily':
+            return config.tradingDaysPerYear;
+        case 'weekly':
+            return 52;
+        case 'monthly':
+            return 12;
+    }
+};
+
+// --- Primitives ---
+
+const toPercent = (value: number | null) => (value === null ? null : value * 100);
+
+// Last observation of each week/month (the series itself for daily). Input must be ascending.
+export const resample = (sortedData: FundHistoryPoint[], frequency: ReturnFrequency): FundHistoryPoint[] => {
+    if (frequency === 'daily') return sortedData;
+    const indices = periodEndIndices(sortedData.map(d => d.date), frequency === 'weekly' ? 'week' : 'month');
+    return indices.map(i => sortedData[i]);
+};
+
+// Simple period-over-period returns
+export const periodicReturns = (values: number[]): number[] => {
+    const returns: number[] = [];
+    for (let i = 1; i < values.length; i++) {
+        returns.push((values[i] - values[i - 1]) / values[i - 1]);
+    }
+    return returns;
+};
+
+export const mean = (values: number[]): number =>
+    values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : NaN;
+
+export const standardDeviation = (values: number[]): number => {
+    const mu = mean(values);
+    return Math.sqrt(values.reduce((acc, v) => acc + (v - mu) ** 2, 0) / values.length);
+};
+
+export const covariance = (a: number[], b: number[]): number => {
+    const muA = mean(a);
+    const muB = mean(b);
+    let sum = 0;
+    for (let i = 0; i < a.length; i++) sum += (a[i] - muA) * (b[i] - muB);
+    return sum / a.length;
+};
+
+export const annualizedVolatility = (returns: number[], periods: number): number =>
+    standardDeviation(returns) * Math.sqrt(periods);
+
+// Root mean square of returns below the target, over all periods
+export const downsideDeviation = (returns: number[], periods: number, target = 0): number => {
+    const sumSq = returns.reduce((acc, r) => (r < target ? acc + (r - target) ** 2 : acc), 0);
+    return Math.sqrt(sumSq / returns.length) * Math.sqrt(periods);
+};
+
+// Compound annual growth rate between the first and last points; null for a same-day span
+export const annualizedReturn = (sortedData: FundHistoryPoint[]): number | null => {
+    if (sortedData.length < 2) return null;
+    const first = sortedData[0];
+    const last = sortedData[sortedData.length - 1];
+    const years = yearsBetween(parseDateStrict(first.date), parseDateStrict(last.date));
+    if (years <= 0) return null;
+    return Math.pow(last.value / first.value, 1 / years) - 1;
+};
+
+// Largest peak-to-trough decline, as a positive fraction of the peak
+export const maxDrawdown = (values: number[]): number => {
+    let worst = 0;
+    let peak = values[0];
+    for (const value of values) {
+        if (value > peak) peak = value;
+        const drawdown = (peak - value) / peak;
+        if (drawdown > worst) worst = drawdown;
+    }
+    return worst;
+};
+
+// Annualized internal rate of return of dated cash flows (negative = paid in, positive = received),
+// discounted on actual/365 days like Excel's XIRR. Null if the flows don't change sign or it doesn't converge.
+export const xirr = (cashFlows: { date: string; amount: number }[]): number | null => {
+    if (!cashFlows.some(f => f.amount < 0) || !cashFlows.some(f => f.amount > 0)) return null;
+    const first = parseDateStrict(cashFlows[0].date);
+    const flows = cashFlows.map(f => ({ years: daysBetween(first, parseDateStrict(f.date)) / 365, amount: f.amount }));
+    const npv = (rate: number) => flows.reduce((sum, f) => sum + f.amount / Math.pow(1 + rate, f.years), 0);
+
+    // Bisection on (-99.99%, 1000%): slower than Newton but cannot diverge
+    let lo = -0.9999;
+    let hi = 10;
+    let npvLo = npv(lo);
+    if (npvLo * npv(hi) > 0) return null;
+    for (let i = 0; i < 200; i++) {
+        const mid = (lo + hi) / 2;
+        const npvMid = npv(mid);
+        if (Math.abs(npvMid) < 1e-7 || hi - lo < 1e-10) return mid;
+        if (npvLo * npvMid < 0) {
+            hi = mid;
+        } else {
+            lo = mid;
+            npvLo = npvMid;
+        }
+    }
+    return (lo + hi) / 2;
+};
+
+export const excessReturnRatio = (annualReturn: number, risk: number, riskFreeRate: number): number | null =>
+    risk > 0 ? (annualReturn - riskFreeRate) / risk : null;
+
+// --- Risk summary ---
+
+export interface RiskMetrics {
+    annualizedReturn: number | null;
+    volatility: number | null;
+    downsideDeviation: number | null;
+    sharpeRatio: number | null;
+    sortinoRatio: number | null;
+    calmarRatio: number | null;
+    maxDrawdown: number; // Positive fraction
+    winRate: number | null; // Share of positive periods
+}
+
+// Risk statistics of an ascending series, in decimals
+export const calculateRiskMetrics = (sortedData: FundHistoryPoint[], config: MetricsConfig = DEFAULT_METRICS_CONFIG): RiskMetrics => {
+    const cagr = annualizedReturn(sortedData);
+    const drawdown = sortedData.length > 0 ? maxDrawdown(sortedData.map(d => d.value)) : 0;
+    const returns = periodicReturns(resample(sortedData, config.returnFrequency).map(d => d.value));
+
+    if (returns.length < 2) {
+        return {
+            annualizedReturn: cagr, volatility: null, downsideDeviation: null,
+            sharpeRatio: null, sortinoRatio: null, calmarRatio: null, maxDrawdown: drawdown, winRate: null
+        };
+    }
+
+    const periods = periodsPerYear(config);
+    const volatility = annualizedVolatility(returns, periods);
+    const downside = downsideDeviation(returns, periods);
+
+    return {
+        annualizedReturn: cagr,
+        volatility,
+        downsideDeviation: downside,
+        sharpeRatio: cagr !== null ? excessReturnRatio(cagr, volatility, config.riskFreeRate) : null,
+        sortinoRatio: cagr !== null ? excessReturnRatio(cagr, downside, config.riskFreeRate) : null,
+        calmarRatio: cagr !== null && drawdown > 0 ? cagr / drawdown : null,
+        maxDrawdown: drawdown,
+        winRate: returns.filter(r => r > 0).length / returns.length,
+    };
+};
+
+// --- Benchmark-relative metrics ---
+
+export interface RelativeMetrics {
+    beta: number | null;
+    alpha: number | null; // Jensen's alpha, annualized (%)
+    rSquared: number | null;
+    trackingError: number | null; // Annualized (%)
+    informationRatio: number | null;
+    upCapture: number | null; // (%)
+    downCapture: number | null; // (%)
+    observations: number; // Aligned returns used
+}
+
+// The two series restricted to dates both have a value on, ascending
+export const alignSeries = (
+    fund: FundHistoryPoint[],
+    benchmark: FundHistoryPoint[]
+): { fund: FundHistoryPoint[]; benchmark: FundHistoryPoint[] } => {
+    const benchmarkByKey = new Map(benchmark.map(d => [dateKey(d.date), d]));
+    const alignedFund: FundHistoryPoint[] = [];
+    const alignedBenchmark: FundHistoryPoint[] = [];
+    sortByDate(fund, d => d.date).forEach(point => {
+        const match = benchmarkByKey.get(dateKey(point.date));
+        if (match) {
+            alignedFund.push(point);
+            alignedBenchmark.push(match);
+        }
+    });
+    return { fund: alignedFund, benchmark: alignedBenchmark };
+};
+
+// Several series on the union of their dates, each carried forward from its last positive value
+// (null before its first). This is the grid the comparison chart draws on.
+export const alignOnDateUnion = (series: FundHistoryPoint[][]): { dates: string[]; values: (number | null)[][] } => {
+    const dateByKey = new Map<number, string>();
+    series.forEach(s => s.forEach(d => {
+        const key = dateKey(d.date);
+        if (!dateByKey.has(key)) dateByKey.set(key, d.date);
+    }));
+    const keys = Array.from(dateByKey.keys()).sort((a, b) => a - b);
+
+    const values = series.map(s => {
+        const valueByKey = new Map(s.filter(d => d.value > 0).map(d => [dateKey(d.date), d.value]));
+        let last: number | null = null;
+        return keys.map(key => {
+            last = valueByKey.get(key) ?? last;
+            return last;
+        });
+    });
+    return { dates: keys.map(key => dateByKey.get(key)!), values };
+};
+
+// Mean fund return over mean benchmark return, across the periods where the benchmark was up (or down)
+const captureRatio = (fundReturns: number[], benchmarkReturns: number[], up: boolean): number | null => {
+    const indices = benchmarkReturns.flatMap((r, i) => ((up ? r > 0 : r < 0) ? [i] : []));
+    if (indices.length === 0) return null;
+    const benchmarkMean = mean(indices.map(i => benchmarkReturns[i]));
+    return benchmarkMean !== 0 ? mean(indices.map(i => fundReturns[i])) / benchmarkMean : null;
+};
+
+// Fund versus benchmark on the dates both traded, with returns sampled at config.returnFrequency
+export const calculateRelativeMetrics = (
+    fund: FundHistoryPoint[],
+    benchmark: FundHistoryPoint[],
+    config: MetricsConfig = DEFAULT_METRICS_CONFIG
+): RelativeMetrics => {
+    const aligned = alignSeries(fund, benchmark);
+    const indices = config.returnFrequency === 'daily'
+        ? aligned.fund.map((_, i) => i)
+        : periodEndIndices(aligned.fund.map(d => d.date), config.returnFrequency === 'weekly' ? 'week' : 'month');
+    const fundReturns = periodicReturns(indices.map(i => aligned.fund[i].value));
+    const benchmarkReturns = periodicReturns(indices.map(i => aligned.benchmark[i].value));
+
+    const empty: RelativeMetrics = {
+        beta: null, alpha: null, rSquared: null, trackingError: null,
+        informationRatio: null, upCapture: null, downCapture: null, observations: fundReturns.length
+    };
+    if (fundReturns.length < 2) return empty;
+
+    const periods = periodsPerYear(config);
+    const benchmarkVariance = covariance(benchmarkReturns, benchmarkReturns);
+    const fundVariance = covariance(fundReturns, fundReturns);
+    const cov = covariance(fundReturns, benchmarkReturns);
+    const beta = benchmarkVariance > 0 ? cov / benchmarkVariance : null;
+    const rSquared = benchmarkVariance > 0 && fundVariance > 0 ? (cov * cov) / (benchmarkVariance * fundVariance) : null;
+
+    const activeReturns = fundReturns.map((r, i) => r - benchmarkReturns[i]);
+    const trackingError = annualizedVolatility(activeReturns, periods);
+
+    const fundCagr = annualizedReturn(aligned.fund);
+    const benchmarkCagr = annualizedReturn(aligned.benchmark);
+    const rf = config.riskFreeRate;
+    const alpha = fundCagr !== null && benchmarkCagr !== null && beta !== null
+        ? fundCagr - (rf + beta * (benchmarkCagr - rf))
+        : null;
+    const informationRatio = fundCagr !== null && benchmarkCagr !== null && trackingError > 0
+        ? (fundCagr - benchmarkCagr) / trackingError
+        : null;
+
+    const upCapture = captureRatio(fundReturns, benchmarkReturns, true);
+    const downCapture = captureRatio(fundReturns, benchmarkReturns, false);
+
+    return {
+        beta,
+        alpha: toPercent(alpha),
+        rSquared,
+        trackingError: trackingError * 100,
+        informationRatio,
+        upCapture: toPercent(upCapture),
+        downCapture: toPercent(downCapture),
+        observations: fundReturns.length,
+    };
+};
+
+// --- Rolling windows ---
+
+export interface RollingMetricsPoint {
+    date: string; // Window end
+    return: number; // Over the window, not annualized (%)
+    volatility: number | null; // Annualized (%)
+    sharpeRatio: number | null;
+    beta: number | null; // Against the benchmark, when one is given
+    maxDrawdown: number; // Within the window, positive (%)
+}
+
+// Metrics over the trailing `months` ending at each observation. A window starts at the last point on
+// or before its start date, so points are emitted only once the series covers a full window.
+export const calculateRollingMetrics = (
+    data: FundHistoryPoint[],
+    months: number,
+    config: MetricsConfig = DEFAULT_METRICS_CONFIG,
+    benchmark?: FundHistoryPoint[]
+): RollingMetricsPoint[] => {
+    const sortedData = sortByDate(data, d => d.date);
+    const keys = sortedData.map(d => dateKey(d.date));
+    const aligned = benchmark ? alignSeries(sortedData, benchmark) : null;
+    const alignedKeys = aligned ? aligned.fund.map(d => dateKey(d.date)) : [];
+
+    const points: RollingMetricsPoint[] = [];
+    let start = 0;
+    let alignedStart = 0;
+    let alignedEnd = 0;
+    for (let end = 0; end < sortedData.length; end++) {
+        const startKey = dateKey(addMonths(parseDateStrict(sortedData[end].date), -months));
+        if (keys[0] > startKey) continue;
+        while (keys[start + 1] <= startKey) start++;
+
+        const window = sortedData.slice(start, end + 1);
+        const risk = calculateRiskMetrics(window, config);
+
+        let beta: number | null = null;
+        if (aligned) {
+            while (alignedEnd < alignedKeys.length && alignedKeys[alignedEnd] <= keys[end]) alignedEnd++;
+            while (alignedStart < alignedEnd && alignedKeys[alignedStart] < keys[start]) alignedStart++;
+            beta = calculateRelativeMetrics(
+                aligned.fund.slice(alignedStart, alignedEnd),
+                aligned.benchmark.slice(alignedStart, alignedEnd),
+                config
+            ).beta;
+        }
+
+        points.push({
+            date: sortedData[end].date,
+            return: (sortedData[end].value / sortedData[start].value - 1) * 100,
+            volatility: toPercent(risk.volatility),
+            sharpeRatio: risk.sharpeRatio,
+            beta,
+            maxDrawdown: risk.maxDrawdown * 100,
+        });
+    }
+    return points;
+};
+
+// --- Drawdowns ---
+
+export interface DrawdownEpisode {
+    peakDate: string;
+    troughDate: string;
+    recoveryDate: string | null; // First close back at the peak; null while still under water
+    depth: number; // Peak to trough, positive (%)
+    length: number; // Calendar days from peak to recovery, or to the last observation if unrecovered
+    daysToTrough: number;
+    daysToRecover: number | null; // Calendar days from trough to recovery
+}
+
+// Distance below the running peak at each observation (0 at a new high, negative %)
+export const underwaterSeries = (data: FundHistoryPoint[]): { date: string; drawdown: number }[] => {
+    const sortedData = sortByDate(data, d => d.date);
+    let peak = -Infinity;
+    return sortedData.map(point => {
+        if (point.value > peak) peak = point.value;
+        return { date: point.date, drawdown: (point.value / peak - 1) * 100 };
+    });
+};
+
+// Every peak-to-recovery episode, deepest first; limit keeps only the top N
+export const drawdownEpisodes = (data: FundHistoryPoint[], limit?: number): DrawdownEpisode[] => {
+    const sortedData = sortByDate(data, d => d.date);
+    const episodes: DrawdownEpisode[] = [];
+    const days = (from: string, to: string) => daysBetween(parseDateStrict(from), parseDateStrict(to));
+
+    const close = (peak: number, trough: number, recovery: number | null) => {
+        const peakPoint = sortedData[peak];
+        const troughPoint = sortedData[trough];
+        const endDate = sortedData[recovery ?? sortedData.length - 1].date;
+        episodes.push({
+            peakDate: peakPoint.date,
+            troughDate: troughPoint.date,
+            recoveryDate: recovery !== null ? sortedData[recovery].date : null,
+            depth: (1 - troughPoint.value / peakPoint.value) * 100,
+            length: days(peakPoint.date, endDate),
+            daysToTrough: days(peakPoint.date, troughPoint.date),
+            daysToRecover: recovery !== null ? days(troughPoint.date, sortedData[recovery].date) : null,
+        });
+    };
+
+    let peak = 0;
+    let trough = 0;
+    for (let i = 1; i < sortedData.length; i++) {
+        const value = sortedData[i].value;
+        if (value >= sortedData[peak].value) {
+            if (trough !== peak) close(peak, trough, i);
+            peak = i;
+            trough = i;
+        } else if (value < sortedData[trough].value) {
+            trough = i;
+        }
+    }
+    if (sortedData.length > 0 && trough !== peak) close(peak, trough, null);
+
+    episodes.sort((a, b) => b.depth - a.depth);
+    return limit !== undefined ? episodes.slice(0, limit) : episodes;
+};
+
+// --- Summary metrics (comparison table, fund profile, ranking page) ---
 
 export interface FinancialMetrics {
     roi1M: number | null;
@@ -6,85 +417,156 @@ export interface FinancialMetrics {
     roi6M: number | null;
     roi1Y: number | null;
     roi2Y: number | null;
-    volatility: number | null; // Annualized Standard Deviation
-    sharpeRatio: number | null; // Assuming risk-free rate is 0 for simplicity, or we can pass it
-    maxDrawdown: number | null;
+    roiYTD: number | null;
+    annualizedReturn: number | null; // CAGR over the series (%)
+    volatility: number | null; // Annualized standard deviation (%)
+    sharpeRatio: number | null;
+    sortinoRatio: number | null;
+    maxDrawdown: number | null; // Positive (%)
+    winRate: number | null; // Positive periods (%)
 }
 
-export const calculateMetrics = (data: FundHistoryPoint[]): FinancialMetrics => {
+export const calculateMetrics = (data: FundHistoryPoint[], config: MetricsConfig = DEFAULT_METRICS_CONFIG): FinancialMetrics => {
     if (data.length === 0) {
         return {
-            roi1M: null, roi3M: null, roi6M: null, roi1Y: null, roi2Y: null,
-            volatility: null, sharpeRatio: null, maxDrawdown: null
+            roi1M: null, roi3M: null, roi6M: null, roi1Y: null, roi2Y: null, roiYTD: null,
+            annualizedReturn: null, volatility: null, sharpeRatio: null, sortinoRatio: null, maxDrawdown: null, winRate: null
         };
     }
 
-    const sortedData = [...data].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+    const sortedData = sortByDate(data, d => d.date);
+    const keys = sortedData.map(d => dateKey(d.date));
     const latest = sortedData[sortedData.length - 1];
-    const latestDate = new Date(latest.date);
-
-    const getROI = (months: number) => {
-        const targetDate = new Date(latestDate);
-        targetDate.setMonth(targetDate.getMonth() - months);
+    const latestDate = parseDateStrict(latest.date);
 
-        // Find closest data point on or before target date
-        let closest = null;
+    // Last point on or before the given date key
+    const findOnOrBefore = (targetKey: number) => {
         for (let i = sortedData.length - 1; i >= 0; i--) {
-            const d = new Date(sortedData[i].date);
-            if (d <= targetDate) {
-                closest = sortedData[i];
-                break;
-            }
+            if (keys[i] <= targetKey) return sortedData[i];
         }
+        return null;
+    };
 
+    // Trailing return; null when the series doesn't reach back far enough
+    const getROI = (months: number) => {
+        const closest = findOnOrBefore(dateKey(addMonths(latestDate, -months)));
         if (!closest) return null;
         return ((latest.value - closest.value) / closest.value) * 100;
     };
 
-    // Calculate Daily Returns for Volatility
-    const dailyReturns = [];
-    for (let i = 1; i < sortedData.length; i++) {
-        const prev = sortedData[i - 1].value;
-        const curr = sortedData[i].value;
-        dailyReturns.push((curr - prev) / prev);
-    }
-
-    // Annualized Volatility
-    let volatility = null;
-    if (dailyReturns.length > 0) {
-        const mean = dailyReturns.reduce((a, b) => a + b, 0) / dailyReturns.length;
-        const variance = dailyReturns.reduce((a, b) => a + Math.pow(b - mean, 2), 0) / dailyReturns.length;
-        // Annualize (assuming 252 trading days)
-        volatility = Math.sqrt(variance) * Math.sqrt(252) * 100;
-    }
-
-    // Sharpe Ratio (Assuming Risk Free Rate = 1% for now, or 0)
-    // Sharpe = (Rp - Rf) / Sigma_p
-    // Using annualized return and volatility
-    let sharpeRatio = null;
-    const roi1Y = getROI(12);
-    if (roi1Y !== null && volatility !== null && volatility !== 0) {
-        const rf = 1; // 1% risk free rate
-        sharpeRatio = (roi1Y - rf) / volatility;
-    }
+    // Year to date, measured from the last close of the previous year when available
+    const getYTD = () => {
+        const jan1 = dateKey({ year: latestDate.year, month: 1, day: 1 });
+        const base = findOnOrBefore(jan1 - 1) ?? sortedData.find((_, i) => keys[i] >= jan1) ?? null;
+        if (!base || base === latest) return null;
+        return ((latest.value - base.value) / base.value) * 100;
+    };
 
-    // Max Drawdown
-    let maxDrawdown = 0;
-    let peak = sortedData[0].value;
-    for (const point of sortedData) {
-        if (point.value > peak) peak = point.value;
-        const drawdown = (peak - point.value) / peak;
-        if (drawdown > maxDrawdown) maxDrawdown = drawdown;
-    }
+    const risk = calculateRiskMetrics(sortedData, config);
 
     return {
         roi1M: getROI(1),
         roi3M: getROI(3),
         roi6M: getROI(6),
-        roi1Y: roi1Y,
+        roi1Y: getROI(12),
         roi2Y: getROI(24),
-        volatility,
-        sharpeRatio,
-        maxDrawdown: maxDrawdown * 100 // Convert to percentage
+        roiYTD: getYTD(),
+        annualizedReturn: toPercent(risk.annualizedReturn),
+        volatility: toPercent(risk.volatility),
+        sharpeRatio: risk.sharpeRatio,
+        sortinoRatio: risk.sortinoRatio,
+        maxDrawdown: risk.maxDrawdown * 100,
+        winRate: toPercent(risk.winRate),
+    };
+};
+
+// --- Detailed statistics (transposed table in the comparison page) ---
+
+export interface DetailedMetrics {
+    positiveMonths: number;
+    negativeMonths: number;
+    annualizedReturn: number | null;
+    annualizedVolatility: number | null;
+    annualizedDownsideDeviation: number | null;
+    maxDrawdown: number | null; // Negative (%), as the table shows it
+    monthlyVaR95: number | null;
+    monthlyCVaR95: number | null;
+    sharpeRatio: number | null;
+    sortinoRatio: number | null;
+    calmarRatio: number | null;
+    skewness: number | null;
+    kurtosis: number | null; // Excess
+    profitFactor: number | null;
+    avgMonthlyGain: number | null;
+    avgMonthlyLoss: number | null;
+}
+
+// Risk figures follow config; VaR, CVaR, skewness, kurtosis and the gain/loss stats always use monthly returns
+export const calculateDetailedStats = (data: FundHistoryPoint[], config: MetricsConfig = DEFAULT_METRICS_CONFIG): DetailedMetrics | null => {
+    if (data.length < 30) return null;
+
+    const sortedData = sortByDate(data, d => d.date);
+    const risk = calculateRiskMetrics(sortedData, config);
+    const monthlyReturns = periodicReturns(resample(sortedData, 'monthly').map(d => d.value));
+
+    const gains = monthlyReturns.filter(r => r > 0);
+    const losses = monthlyReturns.filter(r => r < 0);
+
+    // Monthly VaR 95% (5th percentile) and the mean of the tail at or below it
+    const sortedMonthlyReturns = [...monthlyReturns].sort((a, b) => a - b);
+    const index95 = Math.floor(monthlyReturns.length * 0.05);
+    const monthlyVaR95 = sortedMonthlyReturns[index95] ?? null;
+    const tail = sortedMonthlyReturns.slice(0, index95 + 1);
+    const monthlyCVaR95 = tail.length > 0 ? mean(tail) : null;
+
+    // Skewness = E[((x-mu)/sigma)^3], excess kurtosis = E[((x-mu)/sigma)^4] - 3
+    let skewness: number | null = null;
+    let kurtosis: number | null = null;
+    const meanMonthly = mean(monthlyReturns);
+    const stdMonthly = standardDeviation(monthlyReturns);
+    if (monthlyReturns.length > 0 && stdMonthly > 0) {
+        const standardized = monthlyReturns.map(r => (r - meanMonthly) / stdMonthly);
+        skewness = mean(standardized.map(z => z ** 3));
+        kurtosis = mean(standardized.map(z => z ** 4)) - 3;
+    }
+
+    // Gross monthly gain over gross monthly loss
+    const grossGain = gains.reduce((a, b) => a + b, 0);
+    const grossLoss = Math.abs(losses.reduce((a, b) => a + b, 0));
+    const profitFactor = grossLoss > 0 ? grossGain / grossLoss : grossGain > 0 ? 999 : 0;
+
+    return {
+        positiveMonths: gains.length,
+        negativeMonths: losses.length,
+        annualizedReturn: toPercent(risk.annualizedReturn),
+        annualizedVolatility: toPercent(risk.volatility),
+        annualizedDownsideDeviation: toPercent(risk.downsideDeviation),
+        maxDrawdown: -risk.maxDrawdown * 100,
+        monthlyVaR95: toPercent(monthlyVaR95),
+        monthlyCVaR95: toPercent(monthlyCVaR95),
+        sharpeRatio: risk.sharpeRatio,
+        sortinoRatio: risk.sortinoRatio,
+        calmarRatio: risk.calmarRatio,
+        skewness,
+        kurtosis,
+        profitFactor,
+        avgMonthlyGain: gains.length > 0 ? mean(gains) * 100 : 0,
+        avgMonthlyLoss: losses.length > 0 ? mean(losses) * 100 : 0,
     };
 };
+
+// Return (%) of each calendar year: previous year's last close to this year's last close. Years without
+// a previous year-end close (the series' first year, e.g. a fund launched mid-year) are left out, so
+// they are never compared with full-year returns.
+export const calculateCalendarYearReturns = (data: FundHistoryPoint[]): Map<number, number> => {
+    const sortedData = sortByDate(data, d => d.date);
+    const yearEnds = new Map<number, number>();
+    sortedData.forEach(point => yearEnds.set(parseDateStrict(point.date).year, point.value));
+
+    const returns = new Map<number, number>();
+    yearEnds.forEach((endValue, year) => {
+        const base = yearEnds.get(year - 1);
+        if (base) returns.set(year, ((endValue - base) / base) * 100);
+    });
+    return returns;
+};
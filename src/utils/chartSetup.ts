@@ -12,7 +12,8 @@ import {
     ScatterController,
     BarController,
     LineController,
-    ArcElement
+    ArcElement,
+    Filler
 } from 'chart.js';
 import 'chartjs-adapter-date-fns';
 
@@ -29,7 +30,8 @@ ChartJS.register(
     ScatterController,
     BarController,
     LineController,
-    ArcElement
+    ArcElement,
+    Filler
 );
 
 ChartJS.defaults.color = '#94a3b8';
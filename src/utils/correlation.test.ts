@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { clusterOrder, correlationMatrix, gridReturns, MIN_CORRELATION_OBSERVATIONS, pairCorrelation, rollingCorrelation } from './correlation';
+
+// Alternating returns so every series has some variance
+const returns = (count: number, scale: number): number[] => Array.from({ length: count }, (_, i) => scale * (i % 3 - 1) / 100);
+
+describe('gridReturns', () => {
+    it('returns null until both ends of a period have a value', () => {
+        const grid = gridReturns(['2024/1/2', '2024/1/3', '2024/1/4'], [[100, 110, 99], [null, 50, 55]], 'daily');
+        expect(grid.dates).toEqual(['2024/1/2', '2024/1/3', '2024/1/4']);
+        expect(grid.returns[0]).toEqual([null, expect.closeTo(0.1, 12), expect.closeTo(-0.1, 12)]);
+        expect(grid.returns[1]).toEqual([null, null, expect.closeTo(0.1, 12)]);
+    });
+
+    it('samples week ends for weekly returns', () => {
+        const grid = gridReturns(['2024/1/4', '2024/1/5', '2024/1/8', '2024/1/12'], [[100, 101, 102, 110]], 'weekly');
+        expect(grid.dates).toEqual(['2024/1/5', '2024/1/12']);
+        expect(grid.returns[0]).toEqual([null, expect.closeTo(110 / 101 - 1, 12)]);
+    });
+});
+
+describe('pairCorrelation', () => {
+    const a = returns(20, 1);
+
+    it('is 1 against a scaled copy and -1 against its mirror', () => {
+        expect(pairCorrelation(a, a.map(r => r * 3)).value).toBeCloseTo(1, 12);
+        expect(pairCorrelation(a, a.map(r => -r)).value).toBeCloseTo(-1, 12);
+    });
+
+    it('pairs only periods where both returns exist', () => {
+        const gappy = a.map((r, i) => (i < 5 ? null : r));
+        expect(pairCorrelation(a, gappy)).toEqual({ value: 1, observations: 15 });
+    });
+
+    it(`needs ${MIN_CORRELATION_OBSERVATIONS} paired returns and some variance`, () => {
+        const short = a.slice(0, MIN_CORRELATION_OBSERVATIONS - 1);
+        expect(pairCorrelation(short, short)).toEqual({ value: null, observations: MIN_CORRELATION_OBSERVATIONS - 1 });
+        expect(pairCorrelation(a, a.map(() => 0.01)).value).toBeNull();
+    });
+});
+
+describe('correlationMatrix and clusterOrder', () => {
+    const a = returns(30, 1);
+    const b = a.map((r, i) => (i % 2 === 0 ? r : 0));
+    const series = [a, a.map(r => -r), b, b.map(r => -r * 2)];
+
+    it('is symmetric with a unit diagonal', () => {
+        const { matrix, observations } = correlationMatrix(series);
+        matrix.forEach((row, i) => {
+            expect(row[i]).toBe(1);
+            row.forEach((value, j) => expect(value).toBe(matrix[j][i]));
+        });
+        expect(observations[0][1]).toBe(30);
+    });
+
+    it('puts funds that move together next to each other', () => {
+        const order = clusterOrder(correlationMatrix(series).matrix);
+        expect([...order].sort()).toEqual([0, 1, 2, 3]);
+        expect(Math.abs(order.indexOf(0) - order.indexOf(2))).toBe(1);
+        expect(Math.abs(order.indexOf(1) - order.indexOf(3))).toBe(1);
+    });
+});
+
+describe('rollingCorrelation', () => {
+    it('starts once the grid covers a full window', () => {
+        const dates = Array.from({ length: 60 }, (_, i) => `2024/${Math.floor(i / 20) + 1}/${(i % 20) + 1}`);
+        const a = returns(60, 1);
+        const grid = { dates, returns: [a, a.map(r => -r)] };
+        const points = rollingCorrelation(grid, 0, 1, 1);
+        expect(points[0].date).toBe('2024/2/1');
+        expect(points.at(-1)!.date).toBe('2024/3/20');
+        points.forEach(p => expect(p.value).toBeCloseTo(-1, 12));
+    });
+});
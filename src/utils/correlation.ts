@@ -0,0 +1,122 @@
+import { addMonths, dateKey, parseDateStrict, periodEndIndices } from './tradingDate';
+
+// Correlation of fund returns on a shared date grid (see alignOnDateUnion in FinancialMetrics).
+// Grids hold null where a fund has no value yet; every statistic here is computed pairwise over the
+// periods where both funds have a return, so funds with different inception dates can still be compared.
+
+export type CorrelationFrequency = 'daily' | 'weekly';
+
+// Fewer paired returns than this and a correlation is reported as null
+export const MIN_CORRELATION_OBSERVATIONS = 10;
+
+export interface ReturnGrid {
+    dates: string[]; // Period ends; returns[i][t] is the return into dates[t]
+    returns: (number | null)[][];
+}
+
+export interface CorrelationMatrix {
+    matrix: (number | null)[][];
+    observations: number[][];
+}
+
+// Period returns of each aligned series, sampled daily or at week ends
+export const gridReturns = (dates: string[], values: (number | null)[][], frequency: CorrelationFrequency): ReturnGrid => {
+    const indices = frequency === 'daily' ? dates.map((_, i) => i) : periodEndIndices(dates, 'week');
+    return {
+        dates: indices.map(i => dates[i]),
+        returns: values.map(series => indices.map((index, t) => {
+            if (t === 0) return null;
+            const prev = series[indices[t - 1]];
+            const curr = series[index];
+            return prev !== null && curr !== null ? curr / prev - 1 : null;
+        })),
+    };
+};
+
+// Pearson correlation over [from, to) using only periods where both returns exist
+export const pairCorrelation = (
+    a: (number | null)[],
+    b: (number | null)[],
+    from = 0,
+    to = a.length
+): { value: number | null; observations: number } => {
+    let n = 0, sumA = 0, sumB = 0, sumAA = 0, sumBB = 0, sumAB = 0;
+    for (let t = from; t < to; t++) {
+        const x = a[t];
+        const y = b[t];
+        if (x === null || y === null) continue;
+        n++;
+        sumA += x;
+        sumB += y;
+        sumAA += x * x;
+        sumBB += y * y;
+        sumAB += x * y;
+    }
+    if (n < MIN_CORRELATION_OBSERVATIONS) return { value: null, observations: n };
+
+    const cov = sumAB / n - (sumA / n) * (sumB / n);
+    const varA = sumAA / n - (sumA / n) ** 2;
+    const varB = sumBB / n - (sumB / n) ** 2;
+    if (varA <= 0 || varB <= 0) return { value: null, observations: n };
+    // Clamp rounding noise so a series against itself reads exactly 1
+    return { value: Math.max(-1, Math.min(1, cov / Math.sqrt(varA * varB))), observations: n };
+};
+
+export const correlationMatrix = (returns: (number | null)[][]): CorrelationMatrix => {
+    const size = returns.length;
+    const matrix = Array.from({ length: size }, () => new Array<number | null>(size).fill(null));
+    const observations = Array.from({ length: size }, () => new Array<number>(size).fill(0));
+    for (let i = 0; i < size; i++) {
+        for (let j = i; j < size; j++) {
+            const { value, observations: n } = pairCorrelation(returns[i], returns[j]);
+            matrix[i][j] = matrix[j][i] = value;
+            observations[i][j] = observations[j][i] = n;
+        }
+    }
+    return { matrix, observations };
+};
+
+// Leaf order of an average-linkage hierarchical clustering with distance 1 - ρ, so funds that move
+// together sit next to each other. Unknown correlations count as uncorrelated.
+export const clusterOrder = (matrix: (number | null)[][]): number[] => {
+    const distance = (i: number, j: number) => 1 - (matrix[i][j] ?? 0);
+    let clusters: number[][] = matrix.map((_, i) => [i]);
+
+    while (clusters.length > 1) {
+        let best = { a: 0, b: 1, distance: Infinity };
+        for (let a = 0; a < clusters.length; a++) {
+            for (let b = a + 1; b < clusters.length; b++) {
+                let total = 0;
+                clusters[a].forEach(i => clusters[b].forEach(j => { total += distance(i, j); }));
+                const average = total / (clusters[a].length * clusters[b].length);
+                if (average < best.distance) best = { a, b, distance: average };
+            }
+        }
+        const merged = [...clusters[best.a], ...clusters[best.b]];
+        clusters = clusters.filter((_, index) => index !== best.a && index !== best.b);
+        clusters.splice(best.a, 0, merged);
+    }
+    return clusters[0] ?? [];
+};
+
+// Correlation of two return series over the trailing `months` ending at each period. Points start once
+// the grid covers a full window; windows without enough paired returns are skipped.
+export const rollingCorrelation = (
+    grid: ReturnGrid,
+    a: number,
+    b: number,
+    months: number
+): { date: string; value: number }[] => {
+    const keys = grid.dates.map(date => dateKey(date));
+    const points: { date: string; value: number }[] = [];
+    let start = 0;
+    for (let end = 0; end < keys.length; end++) {
+        const startKey = dateKey(addMonths(parseDateStrict(grid.dates[end]), -months));
+        if (keys[0] > startKey) continue;
+        // Returns into dates after the window start
+        while (keys[start] <= startKey) start++;
+        const { value } = pairCorrelation(grid.returns[a], grid.returns[b], start, end + 1);
+        if (value !== null) points.push({ date: grid.dates[end], value });
+    }
+    return points;
+};
@@ -1,4 +1,4 @@
-// import { openDB, DBSchema, IDBPDatabase } from 'idb';
+import { openDB, type DBSchema, type IDBPDatabase } from 'idb';
 
 interface ArticleData {
     處理時間: string;
@@ -13,21 +13,210 @@ interface ArticleData {
     id?: string;
 }
 
-// Dummy implementation to test if idb is the cause of the crash
-export const initDB = async () => {
-    console.log('initDB called (dummy)');
-    return null;
+type CacheStoreName = 'articles' | 'fundHistory' | 'chipZips';
+
+interface UsageEntry {
+    store: CacheStoreName;
+    key: string;
+    size: number; // Approximate bytes held by the entry
+    lastAccessed: number;
+}
+
+interface StockVisionDB extends DBSchema {
+    articles: {
+        key: string;
+        value: { data: ArticleData[]; lastModified: string; timestamp: number };
+    };
+    fundHistory: {
+        key: string; // File path
+        value: { text: string; lastModified: string; timestamp: number };
+    };
+    chipZips: {
+        key: string; // YYYYMMDD
+        value: { buffer: ArrayBuffer; timestamp: number };
+    };
+    // LRU ledger, kept apart from the payloads so eviction never has to read them
+    usage: {
+        key: string;
+        value: UsageEntry;
+        indexes: { 'by-lastAccessed': number };
+    };
+}
+
+const DB_NAME = 'stock-vision-cache';
+const ARTICLES_KEY = 'history';
+export const CACHE_BUDGET_BYTES = 250 * 1024 * 1024;
+
+// Each entry upgrades the schema from version (index) to version (index + 1).
+// Append new migrations to the end; never edit one that has shipped.
+const migrations: ((db: IDBPDatabase<StockVisionDB>) => void)[] = [
+    (db) => {
+        db.createObjectStore('articles');
+        db.createObjectStore('fundHistory');
+        db.createObjectStore('chipZips');
+        const usage = db.createObjectStore('usage');
+        usage.createIndex('by-lastAccessed', 'lastAccessed');
+    },
+];
+
+const DB_VERSION = migrations.length;
+
+let dbPromise: Promise<IDBPDatabase<StockVisionDB>> | null = null;
+
+export const initDB = () => {
+    if (!dbPromise) {
+        dbPromise = openDB<StockVisionDB>(DB_NAME, DB_VERSION, {
+            upgrade(db, oldVersion) {
+                for (let version = oldVersion; version < DB_VERSION; version++) {
+                    migrations[version](db);
+                }
+            },
+        }).catch((error) => {
+            // Allow a later call to retry (e.g. after the user closes another tab blocking the upgrade)
+            dbPromise = null;
+            throw error;
+        });
+    }
+    return dbPromise;
 };
 
-export const saveArticles = async (articles: ArticleData[], _lastModified: string) => {
-    console.log('saveArticles called (dummy)', articles.length);
+const usageKey = (store: CacheStoreName, key: string) => `${store}/${key}`;
+
+const estimateSize = (value: unknown): number => {
+    if (typeof value === 'string') return value.length * 2;
+    if (value instanceof ArrayBuffer) return value.byteLength;
+    return JSON.stringify(value).length * 2;
+};
+
+async function readEntry<S extends CacheStoreName>(store: S, key: string): Promise<StockVisionDB[S]['value'] | null> {
+    try {
+        const db = await initDB();
+        const value = await db.get(store, key);
+        if (!value) return null;
+
+        const usage = await db.get('usage', usageKey(store, key));
+        if (usage) {
+            await db.put('usage', { ...usage, lastAccessed: Date.now() }, usageKey(store, key));
+        }
+        return value;
+    } catch (error) {
+        console.warn(`Cache read failed for ${store}/${key}:`, error);
+        return null;
+    }
+}
+
+async function writeEntry<S extends CacheStoreName>(store: S, key: string, value: StockVisionDB[S]['value'], size: number) {
+    if (size > CACHE_BUDGET_BYTES) {
+        console.warn(`Skipping cache for ${store}/${key}: ${size} bytes exceeds budget`);
+        return;
+    }
+
+    try {
+        const db = await initDB();
+        const tx = db.transaction([store, 'usage'], 'readwrite');
+        await Promise.all([
+            tx.objectStore(store).put(value, key),
+            tx.objectStore('usage').put({ store, key, size, lastAccessed: Date.now() }, usageKey(store, key)),
+            tx.done,
+        ]);
+        await evictToBudget(db);
+    } catch (error) {
+        console.warn(`Cache write failed for ${store}/${key}:`, error);
+    }
+}
+
+async function deleteEntry(store: CacheStoreName, key: string) {
+    const db = await initDB();
+    const tx = db.transaction([store, 'usage'], 'readwrite');
+    await Promise.all([
+        tx.objectStore(store).delete(key),
+        tx.objectStore('usage').delete(usageKey(store, key)),
+        tx.done,
+    ]);
+}
+
+// Drop least recently used entries until the total fits in CACHE_BUDGET_BYTES
+async function evictToBudget(db: IDBPDatabase<StockVisionDB>) {
+    const entries = await db.getAllFromIndex('usage', 'by-lastAccessed');
+    let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+
+    for (const entry of entries) {
+        if (total <= CACHE_BUDGET_BYTES) break;
+        try {
+            await deleteEntry(entry.store, entry.key);
+        } catch (error) {
+            console.warn(`Cache eviction failed for ${entry.store}/${entry.key}:`, error);
+            return;
+        }
+        total -= entry.size;
+    }
+}
+
+// --- Articles ---
+
+export const saveArticles = async (articles: ArticleData[], lastModified: string) => {
+    const value = { data: articles, lastModified, timestamp: Date.now() };
+    await writeEntry('articles', ARTICLES_KEY, value, estimateSize(articles));
 };
 
 export const getArticles = async (): Promise<{ data: ArticleData[], lastModified: string, timestamp: number } | null> => {
-    console.log('getArticles called (dummy)');
-    return null;
+    return readEntry('articles', ARTICLES_KEY);
 };
 
 export const clearArticles = async () => {
-    console.log('clearArticles called (dummy)');
+    try {
+        await deleteEntry('articles', ARTICLES_KEY);
+    } catch (error) {
+        console.warn('Failed to clear cached articles:', error);
+    }
+};
+
+// --- Fund history (raw CSV text keyed by file path) ---
+
+export const saveFundHistoryFile = async (path: string, text: string, lastModified: string) => {
+    await writeEntry('fundHistory', path, { text, lastModified, timestamp: Date.now() }, estimateSize(text));
+};
+
+export const getFundHistoryFile = async (path: string): Promise<{ text: string, lastModified: string, timestamp: number } | null> => {
+    return readEntry('fundHistory', path);
+};
+
+// --- Chip ZIP payloads (one archive per trading day, immutable once published) ---
+
+export const saveChipZip = async (date: string, buffer: ArrayBuffer) => {
+    await writeEntry('chipZips', date, { buffer, timestamp: Date.now() }, estimateSize(buffer));
+};
+
+export const getChipZip = async (date: string): Promise<ArrayBuffer | null> => {
+    const entry = await readEntry('chipZips', date);
+    return entry ? entry.buffer : null;
+};
+
+// --- Maintenance ---
+
+export const getCacheUsage = async (): Promise<{ bytes: number, entries: number, budget: number }> => {
+    try {
+        const db = await initDB();
+        const entries = await db.getAll('usage');
+        return {
+            bytes: entries.reduce((sum, entry) => sum + entry.size, 0),
+            entries: entries.length,
+            budget: CACHE_BUDGET_BYTES,
+        };
+    } catch (error) {
+        console.warn('Failed to read cache usage:', error);
+        return { bytes: 0, entries: 0, budget: CACHE_BUDGET_BYTES };
+    }
+};
+
+export const clearLocalCache = async () => {
+    const db = await initDB();
+    const tx = db.transaction(['articles', 'fundHistory', 'chipZips', 'usage'], 'readwrite');
+    await Promise.all([
+        tx.objectStore('articles').clear(),
+        tx.objectStore('fundHistory').clear(),
+        tx.objectStore('chipZips').clear(),
+        tx.objectStore('usage').clear(),
+        tx.done,
+    ]);
 };
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import type { FundHistoryPoint } from '../services/FundDataService';
+import { simulateDca } from './dcaSimulator';
+import type { DcaOptions } from './dcaSimulator';
+import { addDays, daysBetween, formatDate, fromDate, isWeekend, parseDateStrict, TradingCalendar } from './tradingDate';
+
+// Daily NAVs on every weekday from `from` to `to`, priced by `price(i)`
+const navs = (from: string, to: string, price: (i: number) => number): FundHistoryPoint[] => {
+    const points: FundHistoryPoint[] = [];
+    const end = formatDate(parseDateStrict(to), 'compact');
+    for (let d = parseDateStrict(from); formatDate(d, 'compact') <= end; d = addDays(d, 1)) {
+        if (!isWeekend(d)) points.push({ date: formatDate(d, 'slash'), value: price(points.length) });
+    }
+    return points;
+};
+
+const OPTIONS: DcaOptions = { amount: 1000, debitDays: [24, 28], frontEndFee: 0, variable: null };
+
+describe('simulateDca', () => {
+    // Monthly prices on the 16th that compound at exactly 10% a year on actual/365 days
+    const start = parseDateStrict('2023/1/16');
+    const growing: FundHistoryPoint[] = Array.from({ length: 13 }, (_, i) => {
+        const date = fromDate(new Date(2023, i, 16));
+        return { date: formatDate(date, 'slash'), value: 10 * Math.pow(1.1, daysBetween(start, date) / 365) };
+    });
+    const monthly: DcaOptions = { ...OPTIONS, debitDays: [16] };
+
+    it('earns the price growth rate as its XIRR', () => {
+        const result = simulateDca(growing, monthly)!;
+        expect(result.debits).toHaveLength(13);
+        expect(result.invested).toBe(13000);
+        expect(result.units).toBeCloseTo(growing.reduce((sum, p) => sum + 1000 / p.value, 0), 10);
+        expect(result.finalValue).toBeCloseTo(result.units * growing[12].value, 8);
+        expect(result.xirr).toBeCloseTo(10, 4);
+        // The lump sum is invested a whole year at 10%
+        expect(result.lumpSum.totalReturn).toBeCloseTo(10, 8);
+        expect(result.timeline.at(-1)).toEqual({
+            date: '2024/1/16',
+            invested: 13000,
+            value: expect.closeTo(result.finalValue, 8),
+            lumpSumValue: expect.closeTo(14300, 8),
+        });
+    });
+
+    it('takes the front-end fee out of every debit', () => {
+        const result = simulateDca(growing, { ...monthly, frontEndFee: 0.01 })!;
+        expect(result.fees).toBeCloseTo(130, 10);
+        expect(result.units).toBeCloseTo(growing.reduce((sum, p) => sum + 990 / p.value, 0), 10);
+        expect(result.averageCost).toBeCloseTo(13000 / result.units, 10);
+        expect(result.xirr!).toBeLessThan(10);
+    });
+
+    it('boosts 定期不定額 debits when the price falls below the average cost', () => {
+        const prices: FundHistoryPoint[] = [
+            { date: '2024/1/1', value: 100 },
+            { date: '2024/2/1', value: 80 },
+            { date: '2024/3/1', value: 95 },
+        ];
+        const result = simulateDca(prices, {
+            ...OPTIONS,
+            debitDays: [1],
+            variable: { dropThreshold: 0.1, boostMultiple: 2 },
+        })!;
+        expect(result.debits.map(d => [d.amount, d.boosted])).toEqual([[1000, false], [2000, true], [1000, false]]);
+        expect(result.invested).toBe(4000);
+        expect(result.units).toBeCloseTo(10 + 25 + 1000 / 95, 10);
+    });
+
+    it('needs a positive amount, debit days and two prices', () => {
+        expect(simulateDca(growing, { ...monthly, amount: 0 })).toBeNull();
+        expect(simulateDca(growing, { ...monthly, debitDays: [] })).toBeNull();
+        expect(simulateDca(growing.slice(0, 1), monthly)).toBeNull();
+    });
+
+    // An offshore fund with NAVs through Lunar New Year, when TWSE is closed 1/23-1/31 and on 2/28
+    const data = navs('2025/1/2', '2025/3/31', () => 10);
+    const closed = new Set(['2025/1/23', '2025/1/24', '2025/1/27', '2025/1/28', '2025/1/29', '2025/1/30', '2025/1/31', '2025/2/28']);
+    const calendar = new TradingCalendar(data.map(d => d.date).filter(d => !closed.has(d)));
+
+    it('invests on the scheduled day when the fund has a price', () => {
+        const result = simulateDca(data, OPTIONS)!;
+        expect(result.debits.map(d => d.date)).toEqual(['2025/1/24', '2025/1/28', '2025/2/24', '2025/2/28', '2025/3/24', '2025/3/28']);
+    });
+
+    it('moves debits on TWSE holidays to the next session', () => {
+        const result = simulateDca(data, OPTIONS, calendar)!;
+        expect(result.debits.map(d => d.date)).toEqual(['2025/2/3', '2025/2/3', '2025/2/24', '2025/3/3', '2025/3/24', '2025/3/28']);
+        expect(result.invested).toBe(6000);
+    });
+});
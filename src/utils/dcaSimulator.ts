@@ -0,0 +1,147 @@
+import type { FundHistoryPoint } from '../services/FundDataService';
+import { xirr } from './FinancialMetrics';
+import { dateKey, daysInMonth, parseDateStrict, sortByDate, yearsBetween } from './tradingDate';
+import type { TradingCalendar } from './tradingDate';
+
+// 定期定額 / 定期不定額 simulation against a price series. Pure: no data loading, no React.
+
+export interface DcaOptions {
+    amount: number; // Debited on each debit day
+    debitDays: number[]; // Days of the month, e.g. [6, 16, 26]; days past month end fall on the last day
+    frontEndFee: number; // 申購手續費, decimal of the debited amount
+    // 定期不定額: debit amount × boostMultiple whenever the price is at least dropThreshold below the average cost
+    variable: { dropThreshold: number; boostMultiple: number } | null;
+}
+
+export interface DcaDebit {
+    date: string; // Trading day the debit was invested
+    price: number;
+    amount: number; // Debited, fee included
+    fee: number;
+    units: number;
+    boosted: boolean;
+}
+
+export interface DcaResult {
+    debits: DcaDebit[];
+    invested: number;
+    fees: number;
+    units: number;
+    averageCost: number; // Invested (fees included) per unit held
+    finalValue: number;
+    totalReturn: number; // (%)
+    xirr: number | null; // Annualized (%)
+    lumpSum: {
+        finalValue: number; // Same total invested at the first debit, one front-end fee
+        totalReturn: number; // (%)
+        annualizedReturn: number | null; // (%)
+    };
+    timeline: { date: string; invested: number; value: number; lumpSumValue: number }[];
+}
+
+// Scheduled debit dates (yyyymmdd keys) per month between the first and last observation
+const scheduledKeys = (first: number, last: number, debitDays: number[]): number[] => {
+    const keys: number[] = [];
+    const days = Array.from(new Set(debitDays)).sort((a, b) => a - b);
+    let year = Math.floor(first / 10000);
+    let month = Math.floor(first / 100) % 100;
+    while (year * 100 + month <= Math.floor(last / 100)) {
+        days.forEach(day => {
+            const key = year * 10000 + month * 100 + Math.min(day, daysInMonth(year, month));
+            if (key >= first && key <= last) keys.push(key);
+        });
+        month++;
+        if (month > 12) {
+            month = 1;
+            year++;
+        }
+    }
+    return keys;
+};
+
+// The bank debits on the next TWSE session when a debit day falls on a weekend or market holiday
+const nextSessionKey = (key: number, calendar: TradingCalendar): number => {
+    return dateKey(calendar.onOrAfter({ year: Math.floor(key / 10000), month: Math.floor(key / 100) % 100, day: key % 100 }));
+};
+
+export const simulateDca = (data: FundHistoryPoint[], options: DcaOptions, calendar?: TradingCalendar): DcaResult | null => {
+    const sortedData = sortByDate(data.filter(d => d.value > 0), d => d.date);
+    if (sortedData.length < 2 || options.debitDays.length === 0 || !(options.amount > 0)) return null;
+    const keys = sortedData.map(d => dateKey(d.date));
+
+    // A debit is invested at the first price on or after its (session-adjusted) debit date
+    const debits: DcaDebit[] = [];
+    let units = 0;
+    let invested = 0;
+    let fees = 0;
+    let cursor = 0;
+    scheduledKeys(keys[0], keys[keys.length - 1], options.debitDays).forEach(scheduled => {
+        const key = calendar ? nextSessionKey(scheduled, calendar) : scheduled;
+        while (cursor < keys.length && keys[cursor] < key) cursor++;
+        if (cursor >= keys.length) return;
+        const point = sortedData[cursor];
+
+        const averageCost = units > 0 ? invested / units : null;
+        const boosted = options.variable !== null && averageCost !== null &&
+            point.value <= averageCost * (1 - options.variable.dropThreshold);
+        const amount = boosted ? options.amount * options.variable!.boostMultiple : options.amount;
+        const fee = amount * options.frontEndFee;
+        const bought = (amount - fee) / point.value;
+
+        units += bought;
+        invested += amount;
+        fees += fee;
+        debits.push({ date: point.date, price: point.value, amount, fee, units: bought, boosted });
+    });
+    if (debits.length === 0) return null;
+
+    const last = sortedData[sortedData.length - 1];
+    const finalValue = units * last.value;
+
+    // Lump sum: everything invested at the first debit's price
+    const firstIndex = keys.indexOf(dateKey(debits[0].date));
+    const lumpUnits = (invested * (1 - options.frontEndFee)) / debits[0].price;
+    const lumpFinal = lumpUnits * last.value;
+    const lumpYears = yearsBetween(parseDateStrict(debits[0].date), parseDateStrict(last.date));
+
+    // Running invested amount and value at every observation from the first debit
+    const timeline: DcaResult['timeline'] = [];
+    let debitIndex = 0;
+    let runningUnits = 0;
+    let runningInvested = 0;
+    for (let i = firstIndex; i < sortedData.length; i++) {
+        while (debitIndex < debits.length && dateKey(debits[debitIndex].date) <= keys[i]) {
+            runningUnits += debits[debitIndex].units;
+            runningInvested += debits[debitIndex].amount;
+            debitIndex++;
+        }
+        timeline.push({
+            date: sortedData[i].date,
+            invested: runningInvested,
+            value: runningUnits * sortedData[i].value,
+            lumpSumValue: lumpUnits * sortedData[i].value,
+        });
+    }
+
+    const rate = xirr([
+        ...debits.map(d => ({ date: d.date, amount: -d.amount })),
+        { date: last.date, amount: finalValue },
+    ]);
+
+    return {
+        debits,
+        invested,
+        fees,
+        units,
+        averageCost: invested / units,
+        finalValue,
+        totalReturn: (finalValue / invested - 1) * 100,
+        xirr: rate !== null ? rate * 100 : null,
+        lumpSum: {
+            finalValue: lumpFinal,
+            totalReturn: (lumpFinal / invested - 1) * 100,
+            annualizedReturn: lumpYears > 0 ? (Math.pow(lumpFinal / invested, 1 / lumpYears) - 1) * 100 : null,
+        },
+        timeline,
+    };
+};
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import type { CorporateAction, FundHistoryPoint } from '../services/FundDataService';
+import { adjustForCorporateActions, fundCode } from './distributionAdjustment';
+
+const series = (points: [string, number][]): FundHistoryPoint[] => points.map(([date, value]) => ({ date, value }));
+
+const cash = (exDate: string, amount: number): CorporateAction => ({ fundId: '0056', exDate, type: 'cash', amount });
+
+describe('adjustForCorporateActions', () => {
+    // Goes ex 1 元 on 7/18 and otherwise trades flat
+    const data = series([['2023/7/14', 40], ['2023/7/17', 40], ['2023/7/18', 39], ['2023/7/19', 39]]);
+
+    it('reinvests a cash distribution at the close before the ex-date', () => {
+        const adjusted = adjustForCorporateActions(data, [cash('2023/7/18', 1)], 'total');
+        expect(adjusted.map(d => d.value)).toEqual([39, 39, 39, 39]);
+    });
+
+    it('leaves ex-dividend drops in the price basis', () => {
+        expect(adjustForCorporateActions(data, [cash('2023/7/18', 1)], 'price')).toBe(data);
+    });
+
+    it('compounds distributions and splits', () => {
+        const actions: CorporateAction[] = [
+            cash('2023/7/17', 4),
+            { fundId: '0056', exDate: '2023/7/19', type: 'split', from: 1, to: 2 },
+        ];
+        const adjusted = adjustForCorporateActions(data, actions, 'total');
+        expect(adjusted.map(d => d.value)).toEqual([
+            expect.closeTo(40 * 0.9 * 0.5, 10),
+            expect.closeTo(40 * 0.5, 10),
+            expect.closeTo(39 * 0.5, 10),
+            39,
+        ]);
+        expect(adjustForCorporateActions(data, actions, 'price').map(d => d.value)).toEqual([20, 20, 19.5, 39]);
+    });
+
+    it('uses the first observation on or after an ex-date that did not trade', () => {
+        const adjusted = adjustForCorporateActions(data, [cash('2023/7/16', 4)], 'total');
+        expect(adjusted.map(d => d.value)).toEqual([36, 40, 39, 39]);
+    });
+
+    it('ignores actions outside the series and keeps the caller\'s order', () => {
+        const reversed = [...data].reverse();
+        expect(adjustForCorporateActions(reversed, [cash('2023/7/14', 1), cash('2024/1/17', 1)], 'total')).toEqual(reversed);
+        const adjusted = adjustForCorporateActions(reversed, [cash('2023/7/18', 1)], 'total');
+        expect(adjusted.map(d => d.date)).toEqual(reversed.map(d => d.date));
+    });
+});
+
+describe('fundCode', () => {
+    it('takes the code from a fund id', () => {
+        expect(fundCode('0056 元大高股息')).toBe('0056');
+        expect(fundCode(' 00632R ')).toBe('00632R');
+    });
+});
@@ -0,0 +1,50 @@
+import type { CorporateAction, FundHistoryPoint } from '../services/FundDataService';
+import { dateKey, sortByDate } from './tradingDate';
+
+// Back-adjusts a raw 淨值/市價 series for the actions in distributions.json, so the latest values stay
+// as quoted and everything before an ex-date is scaled onto the same basis.
+//   'price': splits only; ex-dividend drops remain, as in a price index
+//   'total': splits plus cash distributions reinvested at the close before the ex-date
+
+export type ReturnBasis = 'price' | 'total';
+
+// Fund code used as the distributions.json key, e.g. "0056" from "0056 元大高股息"
+export const fundCode = (fundId: string): string => fundId.trim().split(/\s+/)[0];
+
+export const adjustForCorporateActions = (
+    data: FundHistoryPoint[],
+    actions: CorporateAction[],
+    basis: ReturnBasis
+): FundHistoryPoint[] => {
+    const applicable = actions.filter(a => a.type === 'split' || basis === 'total');
+    if (applicable.length === 0 || data.length === 0) return data;
+
+    const sorted = sortByDate(data.filter(d => d.value > 0), d => d.date);
+    const keys = sorted.map(d => dateKey(d.date));
+    const factors = new Array<number>(sorted.length).fill(1);
+
+    applicable.forEach(action => {
+        const exKey = dateKey(action.exDate);
+        // Index of the first observation on or after the ex-date; nothing to do if it's outside the series
+        const exIndex = keys.findIndex(key => key >= exKey);
+        if (exIndex <= 0) return;
+
+        let factor: number;
+        if (action.type === 'split') {
+            factor = action.from / action.to;
+        } else {
+            // Fraction of the pre-ex close kept in the unit; the rest is reinvested
+            const close = sorted[exIndex - 1].value;
+            if (action.amount >= close) {
+                console.warn(`Ignoring ${action.fundId} distribution of ${action.amount} on ${action.exDate}: not below the prior close ${close}`);
+                return;
+            }
+            factor = 1 - action.amount / close;
+        }
+        for (let i = 0; i < exIndex; i++) factors[i] *= factor;
+    });
+
+    const adjusted = new Map(sorted.map((d, i) => [d.date, d.value * factors[i]]));
+    // Keep the caller's order and any points that were skipped as non-positive
+    return data.map(d => ({ date: d.date, value: adjusted.get(d.date) ?? d.value }));
+};
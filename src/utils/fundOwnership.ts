@@ -0,0 +1,63 @@
+import type { FundHolding } from '../services/FundDataService';
+
+// Aggregate fund ownership of one stock and how it moved against the previous holdings month.
+// ownershipPct is 持股數/流通在外股數% as filed, so summing it over funds gives the share of the float
+// held by the funds that disclosed the position.
+
+export interface OwnershipRow {
+    fundId: string;
+    weight: number | null; // 投資比率 (%)
+    shares: number | null; // 千股
+    ownershipPct: number | null; // 持股數/流通在外股數 (%)
+    previousOwnershipPct: number | null; // Same fund, previous month; null when it didn't hold the stock
+    isNew: boolean; // Not held in the previous month (only meaningful when a previous month exists)
+}
+
+export interface FundOwnershipSummary {
+    month: string;
+    previousMonth: string | null;
+    holders: OwnershipRow[]; // Largest ownership first
+    exited: FundHolding[]; // Held in the previous month, not in this one
+    totalOwnership: number; // Σ ownershipPct (%)
+    previousTotalOwnership: number | null;
+    ownershipChange: number | null; // Percentage points
+}
+
+const sumOwnership = (holdings: FundHolding[]) => holdings.reduce((sum, h) => sum + (h.ownershipPct ?? 0), 0);
+
+export const summarizeFundOwnership = (
+    current: FundHolding[],
+    month: string,
+    previous: FundHolding[] | null,
+    previousMonth: string | null
+): FundOwnershipSummary => {
+    const previousByFund = new Map((previous ?? []).map(h => [h.fundId, h]));
+    const currentFunds = new Set(current.map(h => h.fundId));
+
+    const holders = current
+        .map(h => {
+            const before = previousByFund.get(h.fundId);
+            return {
+                fundId: h.fundId,
+                weight: h.weight,
+                shares: h.shares,
+                ownershipPct: h.ownershipPct,
+                previousOwnershipPct: before?.ownershipPct ?? null,
+                isNew: previous !== null && !before,
+            };
+        })
+        .sort((a, b) => (b.ownershipPct ?? 0) - (a.ownershipPct ?? 0));
+
+    const totalOwnership = sumOwnership(current);
+    const previousTotalOwnership = previous ? sumOwnership(previous) : null;
+
+    return {
+        month,
+        previousMonth: previous ? previousMonth : null,
+        holders,
+        exited: (previous ?? []).filter(h => !currentFunds.has(h.fundId)),
+        totalOwnership,
+        previousTotalOwnership,
+        ownershipChange: previousTotalOwnership !== null ? totalOwnership - previousTotalOwnership : null,
+    };
+};
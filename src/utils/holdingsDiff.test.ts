@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import type { FundHolding } from '../services/FundDataService';
+import { diffHoldings, rankStockFlows } from './holdingsDiff';
+
+const holding = (fundId: string, month: string, stock: string, shares: number | null, amount: number | null, weight: number | null): FundHolding => {
+    const [stockCode, stockName] = stock.split(' ');
+    return { fundId, month, stockCode, stockName, shares, amount, weight, ownershipPct: null, monthlyReturn: null };
+};
+
+describe('diffHoldings', () => {
+    const previous = [
+        holding('0050 元大台灣50', '2025/10', '2330 台積電', 100, 50000, 10),
+        holding('0050 元大台灣50', '2025/10', '2317 鴻海', 50, 5000, 2),
+        holding('0050 元大台灣50', '2025/10', '2412 中華電', 30, 3600, 1),
+        holding('0056 元大高股息', '2025/10', '2330 台積電', 10, 5000, 1),
+    ];
+    const current = [
+        holding('0050 元大台灣50', '2025/11', '2330 台積電', 120, 72000, 12),
+        holding('0050 元大台灣50', '2025/11', '2454 聯發科', 10, 10000, 3),
+        holding('0050 元大台灣50', '2025/11', '2412 中華電', 30, 3900, 1.1),
+        holding('00878 國泰永續高股息', '2025/11', '2330 台積電', 5, 3000, 1),
+    ];
+    const diff = diffHoldings(previous, current, '2025/10', '2025/11');
+
+    it('classifies new, exited and resized positions, largest trades first', () => {
+        expect(diff.changes.map(c => [c.stockCode, c.type, c.shareChange, c.tradeValue])).toEqual([
+            ['2330', 'increase', 20, 12000], // 20 千股 at this month's 600 元
+            ['2454', 'new', 10, 10000],
+            ['2317', 'exit', -50, -5000], // Valued at last month's 100 元
+        ]);
+        expect(diff.changes[2]).toMatchObject({ previousShares: 50, shares: null, previousWeight: 2, weight: null, weightChange: -2 });
+    });
+
+    it('compares only funds that filed in both months', () => {
+        expect(diff.comparedFunds).toEqual(['0050 元大台灣50']);
+        expect(diff.skippedFunds).toEqual(['0056 元大高股息', '00878 國泰永續高股息']);
+        expect(diff.changes.every(c => c.fundId === '0050 元大台灣50')).toBe(true);
+    });
+
+    it('falls back to the weight when share counts are missing', () => {
+        const result = diffHoldings(
+            [holding('0050 元大台灣50', '2025/10', '2330 台積電', null, null, 10)],
+            [holding('0050 元大台灣50', '2025/11', '2330 台積電', null, null, 8)],
+            '2025/10',
+            '2025/11'
+        );
+        expect(result.changes).toMatchObject([{ type: 'decrease', shareChange: null, tradeValue: null, weightChange: -2 }]);
+    });
+
+    it('requires months in order', () => {
+        expect(() => diffHoldings(previous, current, '2025/11', '2025/10')).toThrow('2025/11 must be earlier than 2025/10');
+    });
+});
+
+describe('rankStockFlows', () => {
+    const previous = [
+        holding('0050 元大台灣50', '2025/10', '2330 台積電', 100, 50000, 10),
+        holding('006208 富邦台50', '2025/10', '2330 台積電', 40, 20000, 10),
+        holding('006208 富邦台50', '2025/10', '2317 鴻海', 20, 2000, 1),
+    ];
+    const current = [
+        holding('0050 元大台灣50', '2025/11', '2330 台積電', 130, 78000, 12),
+        holding('006208 富邦台50', '2025/11', '2330 台積電', 30, 18000, 9),
+        holding('006208 富邦台50', '2025/11', '2317 鴻海', null, null, 0.5),
+    ];
+    const { changes } = diffHoldings(previous, current, '2025/10', '2025/11');
+
+    it('nets buyers against sellers per stock and skips changes without a value', () => {
+        const flows = rankStockFlows(changes);
+        expect(flows.mostBought).toEqual([
+            { stockCode: '2330', stockName: '台積電', netShares: 20, netValue: 12000, buyers: 1, sellers: 1 },
+        ]);
+        expect(flows.mostSold).toEqual([]);
+    });
+
+    it('limits each list', () => {
+        expect(rankStockFlows(changes, 0).mostBought).toEqual([]);
+    });
+});
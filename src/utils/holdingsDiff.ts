@@ -0,0 +1,134 @@
+import type { FundHolding } from '../services/FundDataService';
+
+// Month-over-month changes in funds' disclosed stock holdings (基金月持股.csv).
+// Funds only disclose their largest positions, so a stock dropping out of that list shows up as an exit
+// and one entering it as a new position, even if the fund only trimmed or added to it.
+// Pure: no data loading, no React.
+
+export type HoldingChangeType = 'new' | 'exit' | 'increase' | 'decrease';
+
+export interface HoldingChange {
+    fundId: string;
+    stockCode: string;
+    stockName: string;
+    type: HoldingChangeType;
+    previousShares: number | null; // 千股; null for new positions
+    shares: number | null; // 千股; null for exits
+    shareChange: number | null; // 千股; null when either month lacks a share count
+    previousWeight: number | null; // 投資比率 (%)
+    weight: number | null;
+    weightChange: number; // Percentage points, missing weights count as 0
+    tradeValue: number | null; // Estimated 千元 bought (+) or sold (-), at the month's average cost per share
+}
+
+export interface HoldingsDiff {
+    fromMonth: string;
+    toMonth: string;
+    changes: HoldingChange[]; // Largest |tradeValue| first
+    comparedFunds: string[]; // Funds that filed in both months
+    skippedFunds: string[]; // Funds that filed in only one of the months
+}
+
+export interface StockFlow {
+    stockCode: string;
+    stockName: string;
+    netShares: number; // 千股
+    netValue: number; // Estimated 千元, buys minus sells
+    buyers: number; // Funds that opened or added
+    sellers: number; // Funds that exited or trimmed
+}
+
+const keyOf = (h: FundHolding) => `${h.fundId}|${h.stockCode}`;
+
+// 投資金額(千元) / 投資股數(千股) = price per share in 元
+const pricePerShare = (h: FundHolding | undefined) =>
+    h && h.amount !== null && h.shares ? h.amount / h.shares : null;
+
+const classify = (before: FundHolding | undefined, after: FundHolding | undefined): HoldingChangeType | null => {
+    if (!before) return 'new';
+    if (!after) return 'exit';
+    // Compare share counts; weights also move with the price, so they are only a fallback
+    const delta = before.shares !== null && after.shares !== null
+        ? after.shares - before.shares
+        : (after.weight ?? 0) - (before.weight ?? 0);
+    if (delta === 0) return null;
+    return delta > 0 ? 'increase' : 'decrease';
+};
+
+// Diff two months of holdings. Pass either every fund's holdings or a single fund's.
+export const diffHoldings = (
+    previous: FundHolding[],
+    current: FundHolding[],
+    fromMonth: string,
+    toMonth: string
+): HoldingsDiff => {
+    if (fromMonth >= toMonth) throw new Error(`${fromMonth} must be earlier than ${toMonth}`);
+
+    const previousFunds = new Set(previous.map(h => h.fundId));
+    const currentFunds = new Set(current.map(h => h.fundId));
+    const comparedFunds = Array.from(currentFunds).filter(id => previousFunds.has(id)).sort();
+    const skippedFunds = Array.from(new Set([...previousFunds, ...currentFunds]))
+        .filter(id => !(previousFunds.has(id) && currentFunds.has(id)))
+        .sort();
+    const compared = new Set(comparedFunds);
+
+    const before = new Map(previous.filter(h => compared.has(h.fundId)).map(h => [keyOf(h), h]));
+    const after = new Map(current.filter(h => compared.has(h.fundId)).map(h => [keyOf(h), h]));
+
+    const changes: HoldingChange[] = [];
+    new Set([...before.keys(), ...after.keys()]).forEach(key => {
+        const was = before.get(key);
+        const now = after.get(key);
+        const type = classify(was, now);
+        if (!type) return;
+
+        const ref = (now ?? was)!;
+        const previousShares = was?.shares ?? null;
+        const shares = now?.shares ?? null;
+        const shareChange = type === 'new' ? shares
+            : type === 'exit' ? (previousShares !== null ? -previousShares : null)
+            : previousShares !== null && shares !== null ? shares - previousShares : null;
+        // Value buys at this month's price and exits at last month's
+        const price = pricePerShare(now) ?? pricePerShare(was);
+
+        changes.push({
+            fundId: ref.fundId,
+            stockCode: ref.stockCode,
+            stockName: ref.stockName,
+            type,
+            previousShares,
+            shares,
+            shareChange,
+            previousWeight: was?.weight ?? null,
+            weight: now?.weight ?? null,
+            weightChange: (now?.weight ?? 0) - (was?.weight ?? 0),
+            tradeValue: shareChange !== null && price !== null ? shareChange * price : null,
+        });
+    });
+
+    changes.sort((a, b) => Math.abs(b.tradeValue ?? 0) - Math.abs(a.tradeValue ?? 0));
+    return { fromMonth, toMonth, changes, comparedFunds, skippedFunds };
+};
+
+// Net fund buying per stock, ranked by estimated value. Changes without a value estimate are left out.
+export const rankStockFlows = (changes: HoldingChange[], limit = 20): { mostBought: StockFlow[]; mostSold: StockFlow[] } => {
+    const flows = new Map<string, StockFlow>();
+    changes.forEach(c => {
+        if (c.shareChange === null || c.tradeValue === null) return;
+        let flow = flows.get(c.stockCode);
+        if (!flow) {
+            flow = { stockCode: c.stockCode, stockName: c.stockName, netShares: 0, netValue: 0, buyers: 0, sellers: 0 };
+            flows.set(c.stockCode, flow);
+        }
+        flow.netShares += c.shareChange;
+        flow.netValue += c.tradeValue;
+        if (c.type === 'new' || c.type === 'increase') flow.buyers++;
+        else flow.sellers++;
+    });
+
+    const all = Array.from(flows.values());
+    return {
+        mostBought: all.filter(f => f.netValue > 0).sort((a, b) => b.netValue - a.netValue).slice(0, limit),
+        mostSold: all.filter(f => f.netValue < 0).sort((a, b) => a.netValue - b.netValue).slice(0, limit),
+    };
+};
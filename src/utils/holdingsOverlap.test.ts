@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import type { FundHolding } from '../services/FundDataService';
+import { lookThroughExposure, overlapMatrix, pairwiseOverlap, sharedHoldings } from './holdingsOverlap';
+
+const holdings = (fundId: string, weights: Record<string, number | null>): FundHolding[] =>
+    Object.entries(weights).map(([stock, weight]) => {
+        const [stockCode, stockName] = stock.split(' ');
+        return { fundId, month: '2025/11', stockCode, stockName, shares: null, amount: null, weight, ownershipPct: null, monthlyReturn: null };
+    });
+
+const A = holdings('0050 元大台灣50', { '2330 台積電': 50, '2317 鴻海': 5, '2454 聯發科': 4 });
+const B = holdings('0056 元大高股息', { '2330 台積電': 3, '2454 聯發科': 6, '2412 中華電': 2 });
+const C = holdings('00878 國泰永續高股息', { '2412 中華電': 4, '2882 國泰金': null });
+
+describe('pairwiseOverlap', () => {
+    it('sums the smaller weight of every stock both funds hold', () => {
+        expect(pairwiseOverlap(A, B)).toBe(3 + 4);
+        expect(pairwiseOverlap(B, A)).toBe(7);
+        expect(pairwiseOverlap(A, C)).toBe(0);
+    });
+});
+
+describe('overlapMatrix', () => {
+    it('puts each fund\'s disclosed total on the diagonal', () => {
+        expect(overlapMatrix([A, B, C])).toEqual([
+            [59, 7, 0],
+            [7, 11, 2],
+            [0, 2, 4],
+        ]);
+    });
+});
+
+describe('sharedHoldings', () => {
+    it('lists stocks held by several funds, most widely held first', () => {
+        expect(sharedHoldings([A, B, C])).toEqual([
+            { stockCode: '2330', stockName: '台積電', weights: [50, 3, null], fundCount: 2 },
+            { stockCode: '2454', stockName: '聯發科', weights: [4, 6, null], fundCount: 2 },
+            { stockCode: '2412', stockName: '中華電', weights: [null, 2, 4], fundCount: 2 },
+        ]);
+        expect(sharedHoldings([A, B, C], 3)).toEqual([]);
+    });
+});
+
+describe('lookThroughExposure', () => {
+    it('blends holding weights by normalized fund weights', () => {
+        const rows = lookThroughExposure([A, B], [3, 1]);
+        expect(rows[0]).toEqual({ stockCode: '2330', stockName: '台積電', exposure: 0.75 * 50 + 0.25 * 3, contributions: [37.5, 0.75] });
+        expect(rows.map(r => r.stockCode)).toEqual(['2330', '2454', '2317', '2412']);
+    });
+
+    it('rejects mismatched or empty blends', () => {
+        expect(() => lookThroughExposure([A, B], [1])).toThrow('Expected one blend weight per fund');
+        expect(() => lookThroughExposure([A, B], [0, -1])).toThrow('Blend weights must add up to more than 0');
+    });
+});
@@ -0,0 +1,77 @@
+import type { FundHolding } from '../services/FundDataService';
+
+// Overlap between funds' disclosed stock holdings (基金月持股.csv). Weights are 投資比率 (% of net assets).
+// Funds only disclose their largest positions, so every figure here is a lower bound on the true overlap.
+
+export interface SharedHolding {
+    stockCode: string;
+    stockName: string;
+    weights: (number | null)[]; // Per fund, in the order given; null when the fund doesn't hold it
+    fundCount: number;
+}
+
+export interface ExposureRow {
+    stockCode: string;
+    stockName: string;
+    exposure: number; // % of the blend
+    contributions: number[]; // Per fund: blend weight × holding weight (%)
+}
+
+const weightByStock = (holdings: FundHolding[]): Map<string, number> => {
+    const weights = new Map<string, number>();
+    holdings.forEach(h => weights.set(h.stockCode, (weights.get(h.stockCode) ?? 0) + (h.weight ?? 0)));
+    return weights;
+};
+
+// Σ min(wA, wB) over the stocks both funds hold (%)
+export const pairwiseOverlap = (a: FundHolding[], b: FundHolding[]): number => {
+    const weightsB = weightByStock(b);
+    let overlap = 0;
+    weightByStock(a).forEach((weight, code) => {
+        const other = weightsB.get(code);
+        if (other !== undefined) overlap += Math.min(weight, other);
+    });
+    return overlap;
+};
+
+export const overlapMatrix = (holdingsByFund: FundHolding[][]): number[][] =>
+    holdingsByFund.map((a, i) => holdingsByFund.map((b, j) => (i === j
+        ? a.reduce((sum, h) => sum + (h.weight ?? 0), 0)
+        : pairwiseOverlap(a, b))));
+
+const stockNames = (holdingsByFund: FundHolding[][]): Map<string, string> => {
+    const names = new Map<string, string>();
+    holdingsByFund.forEach(holdings => holdings.forEach(h => {
+        if (!names.has(h.stockCode)) names.set(h.stockCode, h.stockName);
+    }));
+    return names;
+};
+
+// Stocks held by at least `minFunds` of the funds, most widely held first, then by combined weight
+export const sharedHoldings = (holdingsByFund: FundHolding[][], minFunds = 2): SharedHolding[] => {
+    const weights = holdingsByFund.map(weightByStock);
+    return Array.from(stockNames(holdingsByFund))
+        .map(([stockCode, stockName]) => {
+            const perFund = weights.map(w => w.get(stockCode) ?? null);
+            return { stockCode, stockName, weights: perFund, fundCount: perFund.filter(w => w !== null).length };
+        })
+        .filter(row => row.fundCount >= minFunds)
+        .sort((a, b) => b.fundCount - a.fundCount ||
+            b.weights.reduce<number>((s, w) => s + (w ?? 0), 0) - a.weights.reduce<number>((s, w) => s + (w ?? 0), 0));
+};
+
+// Look-through stock exposure of a blend of the funds; blend weights are normalized to sum to 1
+export const lookThroughExposure = (holdingsByFund: FundHolding[][], blendWeights: number[]): ExposureRow[] => {
+    if (blendWeights.length !== holdingsByFund.length) throw new Error('Expected one blend weight per fund');
+    const total = blendWeights.reduce((sum, w) => sum + Math.max(0, w), 0);
+    if (total <= 0) throw new Error('Blend weights must add up to more than 0');
+    const normalized = blendWeights.map(w => Math.max(0, w) / total);
+
+    const weights = holdingsByFund.map(weightByStock);
+    return Array.from(stockNames(holdingsByFund))
+        .map(([stockCode, stockName]) => {
+            const contributions = weights.map((w, i) => normalized[i] * (w.get(stockCode) ?? 0));
+            return { stockCode, stockName, exposure: contributions.reduce((a, b) => a + b, 0), contributions };
+        })
+        .sort((a, b) => b.exposure - a.exposure);
+};
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import type { FundHistoryPoint } from '../services/FundDataService';
+import { MIN_BOOTSTRAP_RETURNS, PROJECTION_PERCENTILES, runMonteCarlo } from './monteCarlo';
+import type { MonteCarloOptions } from './monteCarlo';
+
+// `count` daily closes from 2024/1/1 with returns that alternate in sign and size
+const history = (count: number): FundHistoryPoint[] => {
+    let value = 100;
+    return Array.from({ length: count }, (_, i) => {
+        const date = new Date(Date.UTC(2024, 0, 1 + i));
+        if (i > 0) value *= 1 + 0.02 * Math.sin(i * 1.7) + 0.0005;
+        return { date: `${date.getUTCFullYear()}/${date.getUTCMonth() + 1}/${date.getUTCDate()}`, value };
+    });
+};
+
+const OPTIONS: MonteCarloOptions = {
+    years: 2,
+    initialAmount: 100000,
+    monthlyContribution: 5000,
+    simulations: 200,
+    blockLength: 5,
+    tradingDaysPerYear: 252,
+    seed: 42,
+    target: 250000,
+};
+
+describe('runMonteCarlo', () => {
+    const data = history(250);
+
+    it('gives identical results for the same seed', () => {
+        const first = runMonteCarlo(data, OPTIONS);
+        const second = runMonteCarlo(data, { ...OPTIONS });
+        expect(second.percentiles).toEqual(first.percentiles);
+        expect(second.finalValues).toEqual(first.finalValues);
+        expect(second.probabilityOfTarget).toBe(first.probabilityOfTarget);
+    });
+
+    it('gives different paths for different seeds', () => {
+        const first = runMonteCarlo(data, OPTIONS);
+        const second = runMonteCarlo(data, { ...OPTIONS, seed: 7 });
+        expect(second.finalValues).not.toEqual(first.finalValues);
+        expect(second.percentiles.find(p => p.percentile === 50)!.values.at(-1))
+            .not.toBe(first.percentiles.find(p => p.percentile === 50)!.values.at(-1));
+    });
+
+    it('reports every percentile for every month, in order', () => {
+        const result = runMonteCarlo(data, OPTIONS);
+        expect(result.months).toHaveLength(25);
+        expect(result.contributed.at(-1)).toBe(100000 + 24 * 5000);
+        expect(result.percentiles.map(p => p.percentile)).toEqual([...PROJECTION_PERCENTILES]);
+        result.months.forEach(m => {
+            const values = result.percentiles.map(p => p.values[m]);
+            expect(values).toEqual([...values].sort((a, b) => a - b));
+        });
+        expect(result.historicalReturns).toBe(249);
+    });
+
+    it('rejects histories with fewer than MIN_BOOTSTRAP_RETURNS returns', () => {
+        expect(() => runMonteCarlo(history(MIN_BOOTSTRAP_RETURNS), OPTIONS))
+            .toThrow(`At least ${MIN_BOOTSTRAP_RETURNS} daily returns are needed, got ${MIN_BOOTSTRAP_RETURNS - 1}`);
+        expect(() => runMonteCarlo([], OPTIONS)).toThrow('daily returns are needed, got 0');
+        expect(() => runMonteCarlo(history(MIN_BOOTSTRAP_RETURNS + 1), OPTIONS)).not.toThrow();
+    });
+
+    it('reports a target probability only when a target is set', () => {
+        expect(runMonteCarlo(data, { ...OPTIONS, target: null }).probabilityOfTarget).toBeNull();
+
+        const result = runMonteCarlo(data, OPTIONS);
+        const reached = result.finalValues.filter(v => v >= 250000).length;
+        expect(result.probabilityOfTarget).toBe((reached / OPTIONS.simulations) * 100);
+        expect(runMonteCarlo(data, { ...OPTIONS, target: 0 }).probabilityOfTarget).toBe(100);
+    });
+});
@@ -0,0 +1,111 @@
+import type { FundHistoryPoint } from '../services/FundDataService';
+import { periodicReturns } from './FinancialMetrics';
+import { sortByDate } from './tradingDate';
+
+// Forward projection by resampling historical daily returns. Pure and seeded: the same inputs and
+// seed always give the same paths.
+
+export const PROJECTION_PERCENTILES = [5, 25, 50, 75, 95] as const;
+
+// Fewer daily returns than this and there is too little history to resample
+export const MIN_BOOTSTRAP_RETURNS = 60;
+
+export interface MonteCarloOptions {
+    years: number;
+    initialAmount: number;
+    monthlyContribution: number; // Added at the start of every month, on top of the initial amount
+    simulations: number;
+    blockLength: number; // Consecutive days drawn together; 1 is the plain (iid) bootstrap
+    tradingDaysPerYear: number;
+    seed: number;
+    target: number | null; // Amount whose probability of being reached at the horizon is reported
+}
+
+export interface MonteCarloResult {
+    months: number[]; // 0..years × 12
+    contributed: number[]; // Cumulative amount put in, per month
+    percentiles: { percentile: number; values: number[] }[]; // Portfolio value per month
+    finalValues: number[]; // Ascending
+    probabilityOfTarget: number | null; // (%) share of paths ending at or above the target
+    historicalReturns: number; // Daily returns resampled from
+}
+
+// Mulberry32: small, fast, and good enough for resampling; returns floats in [0, 1)
+export const createRandom = (seed: number): (() => number) => {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+// Linear interpolation between closest ranks of an ascending array
+const percentileOf = (sorted: ArrayLike<number>, p: number): number => {
+    if (sorted.length === 0) return NaN;
+    const rank = (p / 100) * (sorted.length - 1);
+    const lo = Math.floor(rank);
+    const hi = Math.min(sorted.length - 1, lo + 1);
+    return sorted[lo] + (sorted[hi] - sorted[lo]) * (rank - lo);
+};
+
+export const runMonteCarlo = (data: FundHistoryPoint[], options: MonteCarloOptions): MonteCarloResult => {
+    if (!(options.years > 0)) throw new Error('Projection horizon must be positive');
+    if (!(options.simulations >= 1)) throw new Error('At least one simulation is required');
+    if (options.initialAmount < 0 || options.monthlyContribution < 0) throw new Error('Amounts cannot be negative');
+    if (options.initialAmount + options.monthlyContribution <= 0) throw new Error('Nothing is invested');
+
+    const sortedData = sortByDate(data.filter(d => d.value > 0), d => d.date);
+    const returns = periodicReturns(sortedData.map(d => d.value));
+    if (returns.length < MIN_BOOTSTRAP_RETURNS) {
+        throw new Error(`At least ${MIN_BOOTSTRAP_RETURNS} daily returns are needed, got ${returns.length}`);
+    }
+
+    const monthCount = Math.round(options.years * 12);
+    const simulations = Math.floor(options.simulations);
+    const blockLength = Math.max(1, Math.min(returns.length, Math.floor(options.blockLength)));
+    // Spread the year's trading days evenly over months, carrying the remainder
+    const daysPerMonth = options.tradingDaysPerYear / 12;
+    const random = createRandom(options.seed);
+
+    // values[m][s]: path s at the end of month m (month 0 is the starting amount)
+    const values = Array.from({ length: monthCount + 1 }, () => new Float64Array(simulations));
+    for (let s = 0; s < simulations; s++) {
+        let value = options.initialAmount;
+        let position = 0; // Days drawn so far on this path
+        let blockStart = 0;
+        let dayBudget = 0;
+        values[0][s] = value;
+        for (let m = 1; m <= monthCount; m++) {
+            value += options.monthlyContribution;
+            dayBudget += daysPerMonth;
+            for (; dayBudget >= 1; dayBudget--) {
+                // Circular block bootstrap: a block runs on past the last return into the first
+                if (position % blockLength === 0) blockStart = Math.floor(random() * returns.length);
+                value *= 1 + returns[(blockStart + (position % blockLength)) % returns.length];
+                position++;
+            }
+            values[m][s] = value;
+        }
+    }
+
+    const months = Array.from({ length: monthCount + 1 }, (_, m) => m);
+    const sortedMonths = values.map(v => v.slice().sort());
+    const finalValues = Array.from(sortedMonths[monthCount]);
+
+    return {
+        months,
+        contributed: months.map(m => options.initialAmount + m * options.monthlyContribution),
+        percentiles: PROJECTION_PERCENTILES.map(percentile => ({
+            percentile,
+            values: sortedMonths.map(sorted => percentileOf(sorted, percentile)),
+        })),
+        finalValues,
+        probabilityOfTarget: options.target !== null
+            ? (finalValues.filter(v => v >= options.target!).length / simulations) * 100
+            : null,
+        historicalReturns: returns.length,
+    };
+};
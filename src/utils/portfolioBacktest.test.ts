@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { runBacktest } from './portfolioBacktest';
+import type { BacktestHolding, BacktestOptions } from './portfolioBacktest';
+import { TradingCalendar } from './tradingDate';
+
+const holdings = (fees: [number, number] = [0, 0]): BacktestHolding[] => [
+    { key: 'A', weight: 50, annualFee: fees[0] },
+    { key: 'B', weight: 50, annualFee: fees[1] },
+];
+
+const options = (overrides: Partial<BacktestOptions>): BacktestOptions => ({
+    rebalance: 'none',
+    threshold: 0.1,
+    initialAmount: 1000,
+    ...overrides,
+});
+
+describe('runBacktest', () => {
+    // A doubles in January and halves again in February; B stays flat
+    const dates = ['2024/1/2', '2024/1/31', '2024/2/1', '2024/2/29', '2024/3/1'];
+    const prices = [
+        [100, 200, 200, 100, 100],
+        [100, 100, 100, 100, 100],
+    ];
+
+    it('lets weights drift when buying and holding', () => {
+        const result = runBacktest(dates, prices, holdings(), options({}));
+        expect(result.equity).toEqual([1000, 1500, 1500, 1000, 1000]);
+        expect(result.rebalanceDates).toEqual([]);
+        expect(result.turnover).toBe(0);
+        expect(result.holdings.map(h => h.endWeight)).toEqual([0.5, 0.5]);
+    });
+
+    it('rebalances back to target at month ends', () => {
+        const result = runBacktest(dates, prices, holdings(), options({ rebalance: 'monthly' }));
+        // 1/31: 1000 + 500 reset to 750/750; 2/29: A halves to 375 + 750
+        expect(result.rebalanceDates).toEqual(['2024/1/31', '2024/2/29']);
+        expect(result.equity.at(-1)).toBeCloseTo(1125, 10);
+        expect(result.turnover).toBeCloseTo(1 / 3, 10);
+        expect(result.holdings.map(h => h.endWeight)).toEqual([expect.closeTo(0.5, 10), expect.closeTo(0.5, 10)]);
+        // Contributions add up to the total return (%)
+        expect(result.holdings.reduce((sum, h) => sum + h.contribution, 0)).toBeCloseTo(12.5, 10);
+    });
+
+    it('rebalances once a weight drifts past the threshold', () => {
+        expect(runBacktest(dates, prices, holdings(), options({ rebalance: 'threshold', threshold: 0.2 })).rebalanceDates).toEqual([]);
+        expect(runBacktest(dates, prices, holdings(), options({ rebalance: 'threshold', threshold: 0.1 })).rebalanceDates)
+            .toEqual(['2024/1/31', '2024/2/29']);
+    });
+
+    it('rebalances on the last session of the month with a trading calendar', () => {
+        // 1/31 was a TWSE holiday: the rebalance happens at the 1/30 close instead
+        const calendar = new TradingCalendar(['2024/1/2', '2024/1/30', '2024/2/1', '2024/2/29', '2024/3/1']);
+        const withHoliday = ['2024/1/2', '2024/1/30', '2024/1/31', '2024/2/29', '2024/3/1'];
+        const result = runBacktest(withHoliday, prices, holdings(), options({ rebalance: 'monthly', calendar }));
+        expect(result.rebalanceDates).toEqual(['2024/1/30', '2024/2/29']);
+    });
+
+    it('charges the expense ratio continuously', () => {
+        // 365 days at 1% a year on a flat price
+        const flat = [[100, 100], [100, 100]];
+        const result = runBacktest(['2023/1/1', '2024/1/1'], flat, holdings([0.01, 0]), options({}));
+        expect(result.equity.at(-1)).toBeCloseTo(995, 10);
+        expect(result.totalFees).toBeCloseTo(5, 10);
+        expect(result.holdings[0].fees).toBeCloseTo(5, 10);
+        expect(result.holdings[1].fees).toBe(0);
+        expect(result.holdings[0].contribution).toBeCloseTo(-0.5, 10);
+    });
+
+    it('drags the return by the fee over a rising market', () => {
+        const rising = [[100, 110], [100, 110]];
+        const gross = runBacktest(['2023/1/1', '2024/1/1'], rising, holdings(), options({}));
+        const net = runBacktest(['2023/1/1', '2024/1/1'], rising, holdings([0.02, 0.02]), options({}));
+        expect(gross.equity.at(-1)).toBeCloseTo(1100, 10);
+        expect(net.equity.at(-1)).toBeCloseTo(1100 * 0.98, 10);
+    });
+
+    it('starts on the first date every holding has a price', () => {
+        const result = runBacktest(dates, [[null, 100, 100, 100, 110], [100, 100, 100, 100, 100]], holdings(), options({}));
+        expect(result.dates[0]).toBe('2024/1/31');
+        expect(result.equity.at(-1)).toBeCloseTo(1050, 10);
+    });
+
+    it('rejects portfolios it cannot simulate', () => {
+        expect(() => runBacktest(dates, [], [], options({}))).toThrow('Portfolio has no holdings');
+        expect(() => runBacktest(dates, prices, [{ key: 'A', weight: 0, annualFee: 0 }, { key: 'B', weight: 0, annualFee: 0 }], options({})))
+            .toThrow('Portfolio weights must add up to more than 0');
+        expect(() => runBacktest(dates, [[null, null, null, null, 1], [1, 1, 1, 1, null]], holdings(), options({})))
+            .toThrow('The selected funds have no overlapping price history');
+    });
+});
@@ -0,0 +1,125 @@
+import { daysBetween, parseDateStrict, periodEndIndices } from './tradingDate';
+import type { TradingCalendar } from './tradingDate';
+
+// Buy-and-hold / rebalanced portfolio simulation over prices already aligned on one date grid
+// (alignOnDateUnion in FinancialMetrics). Pure: no data loading, no React.
+
+export type RebalanceRule = 'none' | 'monthly' | 'quarterly' | 'threshold';
+
+export interface BacktestHolding {
+    key: string;
+    weight: number; // Target weight; weights are normalized to sum to 1
+    annualFee: number; // Expense ratio deducted from the holding, as an annual decimal
+}
+
+export interface BacktestOptions {
+    rebalance: RebalanceRule;
+    threshold: number; // 'threshold' rule: rebalance once any weight drifts this far from target (decimal)
+    initialAmount: number;
+    calendar?: TradingCalendar; // Monthly/quarterly rules rebalance on the period's last TWSE session
+}
+
+export interface HoldingResult {
+    key: string;
+    targetWeight: number;
+    endWeight: number;
+    endValue: number;
+    contribution: number; // Share of the portfolio's total return earned by this holding (%, sums to the total)
+    fees: number; // Amount deducted as expense ratio
+}
+
+export interface BacktestResult {
+    dates: string[]; // From the first date every holding has a price
+    equity: number[];
+    holdings: HoldingResult[];
+    rebalanceDates: string[];
+    turnover: number; // Sum over rebalances of the one-way traded fraction of the portfolio
+    totalFees: number;
+}
+
+const normalizeWeights = (holdings: BacktestHolding[]): number[] => {
+    const total = holdings.reduce((sum, h) => sum + Math.max(0, h.weight), 0);
+    if (total <= 0) throw new Error('Portfolio weights must add up to more than 0');
+    return holdings.map(h => Math.max(0, h.weight) / total);
+};
+
+export const runBacktest = (
+    dates: string[],
+    prices: (number | null)[][], // prices[i] is holdings[i] on the date grid
+    holdings: BacktestHolding[],
+    options: BacktestOptions
+): BacktestResult => {
+    if (holdings.length === 0) throw new Error('Portfolio has no holdings');
+    if (prices.length !== holdings.length) throw new Error('Expected one price series per holding');
+    if (!(options.initialAmount > 0)) throw new Error('Initial amount must be positive');
+
+    const targets = normalizeWeights(holdings);
+    const start = dates.findIndex((_, t) => prices.every(series => series[t] !== null && series[t]! > 0));
+    if (start === -1) throw new Error('The selected funds have no overlapping price history');
+
+    const periodEnds = options.rebalance === 'monthly' || options.rebalance === 'quarterly'
+        ? new Set(periodEndIndices(dates, options.rebalance === 'monthly' ? 'month' : 'quarter', options.calendar))
+        : new Set<number>();
+
+    const price = (i: number, t: number) => prices[i][t]!;
+    let units = targets.map((w, i) => (options.initialAmount * w) / price(i, start));
+    const gains = targets.map(() => 0);
+    const fees = targets.map(() => 0);
+    const rebalanceDates: string[] = [];
+    let turnover = 0;
+
+    const resultDates = [dates[start]];
+    const equity = [options.initialAmount];
+
+    for (let t = start + 1; t < dates.length; t++) {
+        const years = daysBetween(parseDateStrict(dates[t - 1]), parseDateStrict(dates[t])) / 365;
+
+        const values = units.map((u, i) => {
+            gains[i] += u * (price(i, t) - price(i, t - 1));
+            // Expense ratio accrues continuously; taken out of the holding's units
+            const feeFactor = Math.pow(1 - holdings[i].annualFee, years);
+            const value = u * price(i, t);
+            const fee = value * (1 - feeFactor);
+            fees[i] += fee;
+            gains[i] -= fee;
+            return value - fee;
+        });
+        units = values.map((v, i) => v / price(i, t));
+        const total = values.reduce((a, b) => a + b, 0);
+
+        resultDates.push(dates[t]);
+        equity.push(total);
+
+        // Rebalance at the close; never on the last day, where it would change nothing measurable
+        if (t === dates.length - 1 || total <= 0) continue;
+        const weights = values.map(v => v / total);
+        const due = options.rebalance === 'threshold'
+            ? weights.some((w, i) => Math.abs(w - targets[i]) > options.threshold)
+            : periodEnds.has(t);
+        if (due) {
+            turnover += weights.reduce((sum, w, i) => sum + Math.abs(w - targets[i]), 0) / 2;
+            units = targets.map((w, i) => (total * w) / price(i, t));
+            rebalanceDates.push(dates[t]);
+        }
+    }
+
+    const last = dates.length - 1;
+    const endValues = units.map((u, i) => u * price(i, last));
+    const endTotal = endValues.reduce((a, b) => a + b, 0);
+
+    return {
+        dates: resultDates,
+        equity,
+        holdings: holdings.map((h, i) => ({
+            key: h.key,
+            targetWeight: targets[i],
+            endWeight: endTotal > 0 ? endValues[i] / endTotal : 0,
+            endValue: endValues[i],
+            contribution: (gains[i] / options.initialAmount) * 100,
+            fees: fees[i],
+        })),
+        rebalanceDates,
+        turnover,
+        totalFees: fees.reduce((a, b) => a + b, 0),
+    };
+};
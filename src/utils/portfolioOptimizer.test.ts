@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_METRICS_CONFIG } from './FinancialMetrics';
+import { estimateAssetStats, MIN_OPTIMIZER_OBSERVATIONS, optimizePortfolio } from './portfolioOptimizer';
+import type { AssetStats, OptimizedPortfolio, WeightBounds } from './portfolioOptimizer';
+
+const stats = (expectedReturns: number[], covariance: number[][]): AssetStats => ({
+    expectedReturns,
+    covariance,
+    from: '2024/1/2',
+    to: '2024/12/31',
+    observations: 250,
+});
+
+const THREE_FUNDS = stats([0.05, 0.08, 0.12], [
+    [0.01, 0.002, 0.001],
+    [0.002, 0.04, 0.01],
+    [0.001, 0.01, 0.09],
+]);
+
+const LONG_ONLY: WeightBounds = { min: 0, max: 1 };
+
+const sum = (weights: number[]) => weights.reduce((a, b) => a + b, 0);
+
+// Every portfolio the optimizer reports
+const portfolios = (result: ReturnType<typeof optimizePortfolio>): OptimizedPortfolio[] =>
+    [...result.assets, ...result.frontier, result.minVariance, result.maxSharpe, result.riskParity];
+
+describe('optimizePortfolio', () => {
+    it('reports fully invested, long-only weights', () => {
+        portfolios(optimizePortfolio(THREE_FUNDS, LONG_ONLY, 0.012)).forEach(p => {
+            expect(sum(p.weights)).toBeCloseTo(1, 8);
+            p.weights.forEach(w => expect(w).toBeGreaterThanOrEqual(0));
+        });
+    });
+
+    it('keeps optimized weights within the bounds', () => {
+        const bounds = { min: 0.1, max: 0.5 };
+        const result = optimizePortfolio(THREE_FUNDS, bounds, 0.012);
+        [...result.frontier, result.minVariance, result.maxSharpe].forEach(p => {
+            expect(sum(p.weights)).toBeCloseTo(1, 8);
+            p.weights.forEach(w => {
+                expect(w).toBeGreaterThanOrEqual(bounds.min - 1e-9);
+                expect(w).toBeLessThanOrEqual(bounds.max + 1e-9);
+            });
+        });
+    });
+
+    it('splits evenly between uncorrelated funds with the same variance', () => {
+        const twins = stats([0.05, 0.1], [[0.04, 0], [0, 0.04]]);
+        const result = optimizePortfolio(twins, LONG_ONLY, 0.012);
+        expect(result.minVariance.weights).toEqual([expect.closeTo(0.5, 6), expect.closeTo(0.5, 6)]);
+        expect(result.minVariance.volatility).toBeCloseTo(Math.sqrt(0.02) * 100, 4);
+        expect(result.riskParity.weights).toEqual([expect.closeTo(0.5, 6), expect.closeTo(0.5, 6)]);
+    });
+
+    it('traces the frontier upwards from the minimum-variance portfolio', () => {
+        const result = optimizePortfolio(THREE_FUNDS, LONG_ONLY, 0.012);
+        expect(result.frontier.length).toBeGreaterThan(2);
+        result.frontier.slice(1).forEach((p, i) => {
+            expect(p.volatility).toBeGreaterThan(result.frontier[i].volatility);
+            expect(p.expectedReturn).toBeGreaterThan(result.frontier[i].expectedReturn);
+        });
+        result.frontier.forEach(p => expect(p.volatility).toBeGreaterThanOrEqual(result.minVariance.volatility - 1e-6));
+        result.frontier.forEach(p => expect(result.maxSharpe.sharpeRatio!).toBeGreaterThanOrEqual(p.sharpeRatio! - 1e-6));
+    });
+
+    it('equalizes risk contributions in the risk-parity portfolio', () => {
+        const { riskParity } = optimizePortfolio(THREE_FUNDS, LONG_ONLY, 0.012);
+        expect(sum(riskParity.riskContributions)).toBeCloseTo(100, 8);
+        riskParity.riskContributions.forEach(c => expect(c).toBeCloseTo(100 / 3, 4));
+    });
+
+    it('rejects bounds that cannot add up to 100%', () => {
+        expect(() => optimizePortfolio(THREE_FUNDS, { min: 0.4, max: 1 }, 0.012)).toThrow('cannot sum to 100% across 3 funds');
+        expect(() => optimizePortfolio(THREE_FUNDS, { min: 0, max: 0.3 }, 0.012)).toThrow('cannot sum to 100% across 3 funds');
+        expect(() => optimizePortfolio(THREE_FUNDS, { min: 0.5, max: 0.2 }, 0.012)).toThrow('Weight bounds must satisfy');
+        expect(() => optimizePortfolio(stats([], []), LONG_ONLY, 0.012)).toThrow('No funds to optimize');
+    });
+});
+
+describe('estimateAssetStats', () => {
+    const dates = Array.from({ length: 30 }, (_, i) => `2024/1/${i + 1}`);
+    const growth = (rate: number) => dates.map((_, i) => 100 * Math.pow(1 + rate, i));
+
+    it('annualizes returns over the dates every fund has a price', () => {
+        const late: (number | null)[] = growth(0.002).map((v, i) => (i < 5 ? null : v));
+        const result = estimateAssetStats(dates, [growth(0.001), late], DEFAULT_METRICS_CONFIG)!;
+        expect(result.from).toBe('2024/1/6');
+        expect(result.to).toBe('2024/1/30');
+        expect(result.observations).toBe(24);
+        expect(result.expectedReturns[0]).toBeCloseTo(0.001 * 252, 10);
+        expect(result.expectedReturns[1]).toBeCloseTo(0.002 * 252, 10);
+        expect(result.covariance[0][1]).toBeCloseTo(0, 12);
+    });
+
+    it(`needs ${MIN_OPTIMIZER_OBSERVATIONS} return periods`, () => {
+        const short = dates.slice(0, MIN_OPTIMIZER_OBSERVATIONS);
+        expect(estimateAssetStats(short, [growth(0.001).slice(0, MIN_OPTIMIZER_OBSERVATIONS)], DEFAULT_METRICS_CONFIG)).toBeNull();
+        expect(estimateAssetStats([], [], DEFAULT_METRICS_CONFIG)).toBeNull();
+    });
+});
@@ -0,0 +1,239 @@
+import { covariance, excessReturnRatio, mean, periodsPerYear } from './FinancialMetrics';
+import type { MetricsConfig } from './FinancialMetrics';
+import { periodEndIndices } from './tradingDate';
+
+// Long-only mean-variance optimization over funds already aligned on one date grid
+// (alignOnDateUnion in FinancialMetrics). Pure: no data loading, no React.
+
+// Fewer complete return periods than this and the covariance matrix is not estimated
+export const MIN_OPTIMIZER_OBSERVATIONS = 20;
+
+export interface AssetStats {
+    expectedReturns: number[]; // Annualized arithmetic mean return, decimal
+    covariance: number[][]; // Annualized
+    from: string; // First date every fund has a price
+    to: string;
+    observations: number;
+}
+
+export interface WeightBounds {
+    min: number; // Per fund, decimal
+    max: number;
+}
+
+export interface OptimizedPortfolio {
+    weights: number[]; // Decimal, sums to 1
+    expectedReturn: number; // Annualized (%)
+    volatility: number; // Annualized (%)
+    sharpeRatio: number | null;
+    riskContributions: number[]; // Share of portfolio variance (%, sums to 100)
+}
+
+export interface OptimizerResult {
+    assets: OptimizedPortfolio[]; // Each fund held alone
+    frontier: OptimizedPortfolio[]; // Efficient part only, ascending volatility
+    minVariance: OptimizedPortfolio;
+    maxSharpe: OptimizedPortfolio;
+    riskParity: OptimizedPortfolio; // Equal risk contribution; weight bounds are not applied
+}
+
+// Annualized mean returns and covariances over the periods where every fund has a return, sampled at
+// config.returnFrequency. Null when the funds overlap for too short a time.
+export const estimateAssetStats = (
+    dates: string[],
+    values: (number | null)[][],
+    config: MetricsConfig
+): AssetStats | null => {
+    if (values.length === 0) return null;
+    const start = dates.findIndex((_, t) => values.every(series => series[t] !== null));
+    if (start === -1) return null;
+
+    const overlap = dates.slice(start);
+    const indices = config.returnFrequency === 'daily'
+        ? overlap.map((_, i) => i + start)
+        : periodEndIndices(overlap, config.returnFrequency === 'weekly' ? 'week' : 'month').map(i => i + start);
+    if (indices.length - 1 < MIN_OPTIMIZER_OBSERVATIONS) return null;
+
+    const returns = values.map(series => indices.slice(1).map((index, k) => series[index]! / series[indices[k]]! - 1));
+    const periods = periodsPerYear(config);
+    return {
+        expectedReturns: returns.map(r => mean(r) * periods),
+        covariance: returns.map(a => returns.map(b => covariance(a, b) * periods)),
+        from: dates[indices[0]],
+        to: dates[indices[indices.length - 1]],
+        observations: indices.length - 1,
+    };
+};
+
+// --- Linear algebra on small dense matrices ---
+
+const dot = (a: number[], b: number[]): number => a.reduce((sum, v, i) => sum + v * b[i], 0);
+
+const multiply = (matrix: number[][], w: number[]): number[] => matrix.map(row => dot(row, w));
+
+const frobeniusNorm = (matrix: number[][]): number =>
+    Math.sqrt(matrix.reduce((sum, row) => sum + row.reduce((s, v) => s + v * v, 0), 0));
+
+// Euclidean projection onto { Σw = 1, min ≤ w ≤ max }: w = clip(v − τ), with τ found by bisection
+const projectOntoBounds = (v: number[], bounds: WeightBounds): number[] => {
+    const clip = (tau: number) => v.map(x => Math.min(bounds.max, Math.max(bounds.min, x - tau)));
+    let lo = Math.min(...v) - bounds.max;
+    let hi = Math.max(...v) - bounds.min;
+    for (let i = 0; i < 60; i++) {
+        const mid = (lo + hi) / 2;
+        if (clip(mid).reduce((a, b) => a + b, 0) > 1) lo = mid;
+        else hi = mid;
+    }
+    return clip((lo + hi) / 2);
+};
+
+// Minimizes (λ/2)·wᵀΣw − μᵀw over the bounded simplex with accelerated projected gradient (FISTA).
+// λ = Infinity gives the minimum-variance portfolio. A nearby solution as `start` speeds up convergence.
+const solveMeanVariance = (stats: AssetStats, bounds: WeightBounds, lambda: number, start?: number[]): number[] => {
+    const { expectedReturns: mu, covariance: sigma } = stats;
+    const n = mu.length;
+    const minVariance = !Number.isFinite(lambda);
+    const lipschitz = (minVariance ? 1 : lambda) * frobeniusNorm(sigma);
+    let w = projectOntoBounds(start ?? new Array<number>(n).fill(1 / n), bounds);
+    if (!(lipschitz > 0)) return w;
+
+    let y = w;
+    let t = 1;
+    for (let iter = 0; iter < 2000; iter++) {
+        const sigmaY = multiply(sigma, y);
+        const gradient = minVariance ? sigmaY : sigmaY.map((v, i) => lambda * v - mu[i]);
+        const next = projectOntoBounds(y.map((v, i) => v - gradient[i] / lipschitz), bounds);
+        const nextT = (1 + Math.sqrt(1 + 4 * t * t)) / 2;
+        y = next.map((v, i) => v + ((t - 1) / nextT) * (v - w[i]));
+        const moved = next.reduce((sum, v, i) => sum + Math.abs(v - w[i]), 0);
+        w = next;
+        t = nextT;
+        if (moved < 1e-9) break;
+    }
+    return w;
+};
+
+// Highest expected return within the bounds: fill the best funds up to the maximum, in order
+const maxReturnWeights = (stats: AssetStats, bounds: WeightBounds): number[] => {
+    const weights = stats.expectedReturns.map(() => bounds.min);
+    let remaining = 1 - bounds.min * weights.length;
+    stats.expectedReturns
+        .map((r, i) => ({ r, i }))
+        .sort((a, b) => b.r - a.r)
+        .forEach(({ i }) => {
+            const add = Math.min(bounds.max - bounds.min, remaining);
+            weights[i] += add;
+            remaining -= add;
+        });
+    return weights;
+};
+
+// Equal risk contribution by cyclical coordinate descent: each weight solves
+// Σᵢᵢwᵢ² + (Σⱼ≠ᵢ Σᵢⱼwⱼ)wᵢ = 1/n in turn, then the result is scaled to sum to 1
+const riskParityWeights = (stats: AssetStats): number[] => {
+    const sigma = stats.covariance;
+    const n = sigma.length;
+    const w = sigma.map((row, i) => 1 / Math.sqrt(Math.max(row[i], 1e-12)));
+    for (let iter = 0; iter < 1000; iter++) {
+        let moved = 0;
+        for (let i = 0; i < n; i++) {
+            const variance = sigma[i][i];
+            if (!(variance > 0)) continue;
+            const cross = dot(sigma[i], w) - variance * w[i];
+            const next = (-cross + Math.sqrt(cross * cross + (4 * variance) / n)) / (2 * variance);
+            moved += Math.abs(next - w[i]);
+            w[i] = next;
+        }
+        if (moved < 1e-12) break;
+    }
+    const total = w.reduce((a, b) => a + b, 0);
+    return w.map(v => v / total);
+};
+
+const describe = (weights: number[], stats: AssetStats, riskFreeRate: number): OptimizedPortfolio => {
+    const sigmaW = multiply(stats.covariance, weights);
+    const variance = Math.max(0, dot(weights, sigmaW));
+    const expectedReturn = dot(weights, stats.expectedReturns);
+    const volatility = Math.sqrt(variance);
+    return {
+        weights,
+        expectedReturn: expectedReturn * 100,
+        volatility: volatility * 100,
+        sharpeRatio: excessReturnRatio(expectedReturn, volatility, riskFreeRate),
+        riskContributions: weights.map((w, i) => (variance > 0 ? ((w * sigmaW[i]) / variance) * 100 : 0)),
+    };
+};
+
+export const optimizePortfolio = (
+    stats: AssetStats,
+    bounds: WeightBounds,
+    riskFreeRate: number,
+    frontierPoints = 40
+): OptimizerResult => {
+    const n = stats.expectedReturns.length;
+    if (n === 0) throw new Error('No funds to optimize');
+    if (bounds.min < 0 || bounds.max > 1 || bounds.min > bounds.max) throw new Error('Weight bounds must satisfy 0 ≤ min ≤ max ≤ 1');
+    if (bounds.min * n > 1 + 1e-9 || bounds.max * n < 1 - 1e-9) {
+        throw new Error(`Weight bounds ${bounds.min * 100}%-${bounds.max * 100}% cannot sum to 100% across ${n} funds`);
+    }
+
+    const portfolio = (weights: number[]) => describe(weights, stats, riskFreeRate);
+    const minVariance = portfolio(solveMeanVariance(stats, bounds, Infinity));
+    const maxReturn = portfolio(maxReturnWeights(stats, bounds));
+
+    // Trace the frontier by sweeping risk aversion across five decades around the scale where
+    // return and variance trade off evenly
+    const returnSpread = Math.max(...stats.expectedReturns) - Math.min(...stats.expectedReturns);
+    const averageVariance = stats.covariance.reduce((sum, row, i) => sum + row[i], 0) / n;
+    const scale = returnSpread > 0 && averageVariance > 0 ? returnSpread / averageVariance : 1;
+    const logLambdas = Array.from({ length: frontierPoints }, (_, k) => Math.log10(scale) - 2 + (5 * k) / Math.max(1, frontierPoints - 1));
+    const atLogLambda = (x: number, start?: number[]) => portfolio(solveMeanVariance(stats, bounds, Math.pow(10, x), start));
+    // Each point starts from its neighbour's solution
+    const swept: OptimizedPortfolio[] = [];
+    logLambdas.forEach(x => swept.push(atLogLambda(x, swept[swept.length - 1]?.weights)));
+
+    const candidates = [minVariance, ...swept, maxReturn].sort((a, b) => a.volatility - b.volatility);
+    const frontier: OptimizedPortfolio[] = [];
+    candidates.forEach(p => {
+        const last = frontier[frontier.length - 1];
+        if (!last || (p.expectedReturn > last.expectedReturn + 1e-6 && p.volatility > last.volatility + 1e-6)) frontier.push(p);
+    });
+
+    // Sharpe ratio is unimodal along the frontier: refine the best grid point by golden-section search
+    const sharpe = (p: OptimizedPortfolio) => p.sharpeRatio ?? -Infinity;
+    let best = [minVariance, ...swept, maxReturn].reduce((a, b) => (sharpe(b) > sharpe(a) ? b : a));
+    const bestIndex = swept.indexOf(best);
+    if (bestIndex !== -1) {
+        const ratio = (Math.sqrt(5) - 1) / 2;
+        let lo = logLambdas[Math.max(0, bestIndex - 1)];
+        let hi = logLambdas[Math.min(frontierPoints - 1, bestIndex + 1)];
+        let a = hi - ratio * (hi - lo);
+        let b = lo + ratio * (hi - lo);
+        let pa = atLogLambda(a, best.weights);
+        let pb = atLogLambda(b, best.weights);
+        for (let iter = 0; iter < 25; iter++) {
+            if (sharpe(pa) >= sharpe(pb)) {
+                hi = b;
+                b = a;
+                pb = pa;
+                a = hi - ratio * (hi - lo);
+                pa = atLogLambda(a, pb.weights);
+            } else {
+                lo = a;
+                a = b;
+                pa = pb;
+                b = lo + ratio * (hi - lo);
+                pb = atLogLambda(b, pa.weights);
+            }
+        }
+        best = [best, pa, pb].reduce((x, y) => (sharpe(y) > sharpe(x) ? y : x));
+    }
+
+    return {
+        assets: stats.expectedReturns.map((_, i) => portfolio(stats.expectedReturns.map((__, j) => (i === j ? 1 : 0)))),
+        frontier,
+        minVariance,
+        maxSharpe: best,
+        riskParity: portfolio(riskParityWeights(stats)),
+    };
+};
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import type { FundHistoryPoint } from '../services/FundDataService';
+import { calculatePremiumDiscount } from './premiumDiscount';
+
+const series = (points: [string, number][]): FundHistoryPoint[] => points.map(([date, value]) => ({ date, value }));
+
+describe('calculatePremiumDiscount', () => {
+    const nav = series([['2025/1/2', 100], ['2025/1/3', 100], ['2025/1/6', 100], ['2025/1/7', 100], ['2025/1/8', 100]]);
+    // No 市價 on 1/6; 1/8's price is missing (0)
+    const price = series([['2025/1/2', 101], ['2025/1/3', 99], ['2025/1/7', 102], ['2025/1/8', 0], ['2025/1/9', 103]]);
+    const result = calculatePremiumDiscount(nav, price, { window: 2, threshold: 1.5 })!;
+
+    it('compares 市價 with 淨值 on the days both were published', () => {
+        expect(result.points.map(p => p.date)).toEqual(['2025/1/2', '2025/1/3', '2025/1/7']);
+        expect(result.points.map(p => p.premium)).toEqual([expect.closeTo(1, 10), expect.closeTo(-1, 10), expect.closeTo(2, 10)]);
+        expect(result.latest.date).toBe('2025/1/7');
+    });
+
+    it('summarizes the premium history', () => {
+        expect(result.average).toBeCloseTo(2 / 3, 10);
+        expect(result.premiumDays).toBeCloseTo(200 / 3, 10);
+        expect(result.maxPremium.date).toBe('2025/1/7');
+        expect(result.maxDiscount.date).toBe('2025/1/3');
+        expect(result.flagged.map(p => p.date)).toEqual(['2025/1/7']);
+    });
+
+    it('fills the rolling average and z-score once the window is full', () => {
+        expect(result.points[0]).toMatchObject({ rollingAverage: null, zScore: null });
+        expect(result.points[1].rollingAverage).toBeCloseTo(0, 10);
+        expect(result.points[1].zScore).toBeCloseTo(-1, 10);
+        expect(result.points[2].rollingAverage).toBeCloseTo(0.5, 10);
+        expect(result.points[2].zScore).toBeCloseTo(1, 10);
+    });
+
+    it('returns null when the series never overlap', () => {
+        expect(calculatePremiumDiscount(nav, series([['2025/2/3', 100]]), { window: 2, threshold: 1 })).toBeNull();
+    });
+});
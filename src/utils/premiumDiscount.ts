@@ -0,0 +1,71 @@
+import type { FundHistoryPoint } from '../services/FundDataService';
+import { alignSeries, mean, standardDeviation } from './FinancialMetrics';
+
+// ETF premium/discount: 市價 against 淨值 on the days both were published. Pure: no data loading, no React.
+
+export interface PremiumPoint {
+    date: string;
+    nav: number;
+    price: number;
+    premium: number; // (price / nav − 1) (%); negative is a discount
+    rollingAverage: number | null; // Mean premium over the trailing window (%), null until the window fills
+    zScore: number | null; // Premium against the trailing window's mean and deviation
+}
+
+export interface PremiumDiscountOptions {
+    window: number; // Trading days in the rolling average
+    threshold: number; // Flag days whose |premium| reaches this (%)
+}
+
+export interface PremiumDiscountResult {
+    points: PremiumPoint[];
+    average: number; // (%)
+    deviation: number; // (%)
+    premiumDays: number; // Share of days trading above 淨值 (%)
+    maxPremium: PremiumPoint;
+    maxDiscount: PremiumPoint;
+    flagged: PremiumPoint[]; // Newest first
+    latest: PremiumPoint;
+}
+
+export const calculatePremiumDiscount = (
+    nav: FundHistoryPoint[],
+    price: FundHistoryPoint[],
+    options: PremiumDiscountOptions
+): PremiumDiscountResult | null => {
+    const aligned = alignSeries(price.filter(d => d.value > 0), nav.filter(d => d.value > 0));
+    if (aligned.fund.length === 0) return null;
+
+    const window = Math.max(1, Math.floor(options.window));
+    const premiums = aligned.fund.map((p, i) => (p.value / aligned.benchmark[i].value - 1) * 100);
+
+    const points: PremiumPoint[] = premiums.map((premium, i) => {
+        let rollingAverage: number | null = null;
+        let zScore: number | null = null;
+        if (i + 1 >= window) {
+            const slice = premiums.slice(i + 1 - window, i + 1);
+            rollingAverage = mean(slice);
+            const deviation = standardDeviation(slice);
+            zScore = deviation > 0 ? (premium - rollingAverage) / deviation : null;
+        }
+        return {
+            date: aligned.fund[i].date,
+            nav: aligned.benchmark[i].value,
+            price: aligned.fund[i].value,
+            premium,
+            rollingAverage,
+            zScore,
+        };
+    });
+
+    return {
+        points,
+        average: mean(premiums),
+        deviation: standardDeviation(premiums),
+        premiumDays: (premiums.filter(p => p > 0).length / premiums.length) * 100,
+        maxPremium: points.reduce((a, b) => (b.premium > a.premium ? b : a)),
+        maxDiscount: points.reduce((a, b) => (b.premium < a.premium ? b : a)),
+        flagged: points.filter(p => Math.abs(p.premium) >= options.threshold).reverse(),
+        latest: points[points.length - 1],
+    };
+};
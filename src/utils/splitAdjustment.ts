@@ -0,0 +1,90 @@
+import { daysBetween, parseDateStrict, sortByDate } from './tradingDate';
+
+// Helper function to detect stock splits and adjust historical data
+// Only detects ONE split - looks for a sharp drop that matches a known split ratio
+export function adjustForStockSplits(data: { date: string; value: number }[]): { date: string; value: number }[] {
+    if (data.length < 2) return data;
+
+    // Filter out invalid values (0, negative, or very small values)
+    const validData = data.filter(d => d.value > 1);
+    if (validData.length < 2) return data;
+
+    // Sort by date ascending
+    const sorted = sortByDate(validData, d => d.date);
+
+    // Build a map of date -> adjusted value for the result
+    const dateValueMap = new Map(sorted.map(d => [d.date, d.value]));
+
+    const splitRatios = [
+        { ratio: 2, minDrop: 0.48, maxDrop: 0.52 },  // 1:2 = 50%
+        { ratio: 3, minDrop: 0.64, maxDrop: 0.68 },  // 1:3 = 66.7%
+        { ratio: 4, minDrop: 0.73, maxDrop: 0.77 },  // 1:4 = 75%
+        { ratio: 5, minDrop: 0.78, maxDrop: 0.82 },  // 1:5 = 80%
+        { ratio: 10, minDrop: 0.88, maxDrop: 0.92 }, // 1:10 = 90%
+    ];
+
+    let bestSplit: { index: number; ratio: number; preSplitValue: number; date1: string; date2: string } | null = null;
+
+    for (let i = 0; i < sorted.length - 1; i++) {
+        const currentValue = sorted[i].value;
+        const nextValue = sorted[i + 1].value;
+        // Calculate days between data points
+        const daysDiff = Math.abs(daysBetween(parseDateStrict(sorted[i].date), parseDateStrict(sorted[i + 1].date)));
+
+        // Skip if dates are too far apart (more than 14 days) - indicates data gap, not real split
+        if (daysDiff > 14) continue;
+
+        // Both values must be reasonable (> 10 to avoid noise)
+        if (currentValue < 10 || nextValue < 10) continue;
+
+        const dropRatio = 1 - (nextValue / currentValue);
+
+        // Must be a significant drop (at least 40%)
+        if (dropRatio < 0.40) continue;
+
+        // Check if this matches a known split pattern
+        for (const split of splitRatios) {
+            if (dropRatio >= split.minDrop && dropRatio <= split.maxDrop) {
+                // Additional validation: the ratio of values should match the split ratio closely
+                const actualRatio = currentValue / nextValue;
+                const expectedRatio = split.ratio;
+                const ratioError = Math.abs(actualRatio - expectedRatio) / expectedRatio;
+
+                // Only accept if the ratio is within 15% of expected
+                if (ratioError > 0.15) continue;
+
+                // Keep the split with the highest pre-split value (most significant)
+                if (!bestSplit || currentValue > bestSplit.preSplitValue) {
+                    bestSplit = {
+                        index: i,
+                        ratio: split.ratio,
+                        preSplitValue: currentValue,
+                        date1: sorted[i].date,
+                        date2: sorted[i + 1].date
+                    };
+                    console.log(`[Split Detection] Found 1:${split.ratio} split at ${sorted[i].date} -> ${sorted[i + 1].date} (${daysDiff.toFixed(0)} days apart)`);
+                    console.log(`  Values: ${currentValue.toFixed(2)} -> ${nextValue.toFixed(2)}, drop: ${(dropRatio * 100).toFixed(1)}%`);
+                }
+                break;
+            }
+        }
+    }
+
+    // Apply adjustment to the result
+    if (bestSplit) {
+        console.log(`[Split Detection] Applying 1:${bestSplit.ratio} adjustment to all dates before ${bestSplit.date2}`);
+        // Divide all values at or before the split index
+        for (let j = 0; j <= bestSplit.index; j++) {
+            const adjustedValue = sorted[j].value / bestSplit.ratio;
+            dateValueMap.set(sorted[j].date, adjustedValue);
+        }
+    } else {
+        console.log('[Split Detection] No valid split detected');
+    }
+
+    // Return adjusted data maintaining original order
+    return data.map(d => ({
+        date: d.date,
+        value: dateValueMap.get(d.date) ?? d.value
+    }));
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { addDays, formatDate, isWeekend, parseDateStrict, periodEndIndices, TradingCalendar } from './tradingDate';
+import type { CalendarDate } from './tradingDate';
+
+const date = (input: string): CalendarDate => parseDateStrict(input);
+
+// Every weekday from `from` to `to` inclusive, as yyyy/m/d strings
+const weekdays = (from: string, to: string): string[] => {
+    const dates: string[] = [];
+    for (let d = date(from); formatDate(d, 'compact') <= formatDate(date(to), 'compact'); d = addDays(d, 1)) {
+        if (!isWeekend(d)) dates.push(formatDate(d, 'slash'));
+    }
+    return dates;
+};
+
+// Q1 2025 sessions: closed 1/23-1/31 for Lunar New Year and on 2/28 (和平紀念日)
+const CLOSED = ['2025/1/23', '2025/1/24', '2025/1/27', '2025/1/28', '2025/1/29', '2025/1/30', '2025/1/31', '2025/2/28'];
+const SESSIONS = weekdays('2025/1/2', '2025/3/31').filter(d => !CLOSED.includes(d));
+const calendar = new TradingCalendar(SESSIONS);
+
+describe('TradingCalendar', () => {
+    it('knows the observed sessions and assumes weekdays outside them', () => {
+        expect(calendar.isTradingDay(date('2025/1/22'))).toBe(true);
+        expect(calendar.isTradingDay(date('2025/1/24'))).toBe(false);
+        expect(calendar.isTradingDay(date('2025/2/1'))).toBe(false);
+        expect(calendar.isTradingDay(date('2025/4/1'))).toBe(true);
+        expect(calendar.isTradingDay(date('2025/4/5'))).toBe(false);
+        expect(calendar.firstDay).toEqual(date('2025/1/2'));
+        expect(calendar.lastDay).toEqual(date('2025/3/31'));
+    });
+
+    it('steps over closures', () => {
+        expect(calendar.next(date('2025/1/22'))).toEqual(date('2025/2/3'));
+        expect(calendar.previous(date('2025/2/3'))).toEqual(date('2025/1/22'));
+        expect(calendar.onOrAfter(date('2025/1/25'))).toEqual(date('2025/2/3'));
+        expect(calendar.onOrBefore(date('2025/2/3'))).toEqual(date('2025/2/3'));
+        expect(calendar.tradingDaysBetween(date('2025/1/20'), date('2025/2/7'))).toBe(8);
+    });
+
+    it('finds the last session of a month, quarter and week', () => {
+        expect(calendar.lastTradingDayOfMonth(2025, 1)).toEqual(date('2025/1/22'));
+        expect(calendar.lastTradingDayOfMonth(2025, 2)).toEqual(date('2025/2/27'));
+        expect(calendar.lastTradingDayOfQuarter(2025, 1)).toEqual(date('2025/3/31'));
+        expect(calendar.lastTradingDayOfPeriod(date('2025/2/24'), 'week')).toEqual(date('2025/2/27'));
+    });
+});
+
+describe('periodEndIndices', () => {
+    // An offshore fund keeps publishing NAVs while TWSE is closed
+    const navDates = ['2025/1/21', '2025/1/22', '2025/1/24', '2025/1/31', '2025/2/3', '2025/2/27', '2025/2/28', '2025/3/3'];
+
+    it('takes the last observation of each period without a calendar', () => {
+        expect(periodEndIndices(navDates, 'month')).toEqual([3, 6, 7]);
+        expect(periodEndIndices(navDates, 'quarter')).toEqual([7]);
+    });
+
+    it('ends periods on their last session and drops an unfinished trailing period with a calendar', () => {
+        expect(periodEndIndices(navDates, 'month', calendar)).toEqual([1, 5]);
+        expect(periodEndIndices(navDates, 'quarter', calendar)).toEqual([]);
+        expect(periodEndIndices([...navDates, '2025/3/31'], 'quarter', calendar)).toEqual([8]);
+    });
+});
@@ -0,0 +1,293 @@
+// Calendar dates as they appear in the data files, parsed once and compared without time zones.
+//
+// Formats in use:
+//   iso        2025-01-05      <input type="date">, URLs
+//   slash      2025/1/5        fund history CSV headers, FundHistoryPoint.date, brokers.csv
+//   compact    20250105        chips zips and dates.json, manifest ranges
+//   roc        114/01/05       民國 dates (also 114/1/5 and 114年1月5日)
+//   rocCompact 1140105         TPEx file names
+//
+// A CalendarDate is a plain year/month/day triple. Converting to a Date always yields local midnight
+// (what chart.js and the existing components expect); differences are taken in whole UTC days so
+// daylight-saving shifts in the viewer's zone cannot move a date across midnight.
+
+export interface CalendarDate {
+    year: number;
+    month: number; // 1-12
+    day: number;
+}
+
+export type DateFormat = 'iso' | 'slash' | 'compact' | 'roc' | 'rocCompact';
+
+const ROC_OFFSET = 1911;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const isValid = (year: number, month: number, day: number) =>
+    Number.isInteger(year) && month >= 1 && month <= 12 && day >= 1 && day <= daysInMonth(year, month);
+
+const make = (year: number, month: number, day: number): CalendarDate | null =>
+    isValid(year, month, day) ? { year, month, day } : null;
+
+export const daysInMonth = (year: number, month: number): number => new Date(year, month, 0).getDate();
+
+// Parse any of the supported formats. Three-digit years (and 7-digit compact strings) are 民國.
+export const parseDate = (input: string): CalendarDate | null => {
+    const value = input.trim();
+
+    let match = value.match(/^(\d{8})$/);
+    if (match) {
+        return make(Number(value.slice(0, 4)), Number(value.slice(4, 6)), Number(value.slice(6, 8)));
+    }
+
+    match = value.match(/^(\d{7})$/);
+    if (match) {
+        return make(Number(value.slice(0, 3)) + ROC_OFFSET, Number(value.slice(3, 5)), Number(value.slice(5, 7)));
+    }
+
+    // 2025-01-05, 2025/1/5, 114/01/05, 114年1月5日; anything after the day (a time part) is ignored
+    match = value.match(/^(\d{2,4})[-/年](\d{1,2})[-/月](\d{1,2})/);
+    if (match) {
+        const year = Number(match[1]);
+        return make(match[1].length === 4 ? year : year + ROC_OFFSET, Number(match[2]), Number(match[3]));
+    }
+
+    return null;
+};
+
+// parseDate for inputs that must be valid; throws with the offending string otherwise
+export const parseDateStrict = (input: string): CalendarDate => {
+    const date = parseDate(input);
+    if (!date) throw new Error(`Unrecognized date: "${input}"`);
+    return date;
+};
+
+const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+
+export const formatDate = (date: CalendarDate | Date, format: DateFormat): string => {
+    const { year, month, day } = date instanceof Date ? fromDate(date) : date;
+    switch (format) {
+        case 'iso':
+            return `${year}-${pad(month)}-${pad(day)}`;
+        case 'slash':
+            return `${year}/${month}/${day}`;
+        case 'compact':
+            return `${year}${pad(month)}${pad(day)}`;
+        case 'roc':
+            return `${year - ROC_OFFSET}/${pad(month)}/${pad(day)}`;
+        case 'rocCompact':
+            return `${pad(year - ROC_OFFSET, 3)}${pad(month)}${pad(day)}`;
+    }
+};
+
+// Re-express a date string in another format; null if it can't be parsed
+export const convertDate = (input: string, format: DateFormat): string | null => {
+    const date = parseDate(input);
+    return date ? formatDate(date, format) : null;
+};
+
+// Local midnight of the calendar date
+export const toDate = (date: CalendarDate): Date => new Date(date.year, date.month - 1, date.day);
+
+export const fromDate = (date: Date): CalendarDate => ({
+    year: date.getFullYear(),
+    month: date.getMonth() + 1,
+    day: date.getDate(),
+});
+
+// Local-midnight Date of a date string (NaN date if unparseable), for chart axes and legacy callers
+export const parseToDate = (input: string): Date => {
+    const date = parseDate(input);
+    return date ? toDate(date) : new Date(NaN);
+};
+
+// Sortable yyyymmdd number; NaN if the string can't be parsed
+export const dateKey = (input: string | CalendarDate): number => {
+    const date = typeof input === 'string' ? parseDate(input) : input;
+    return date ? date.year * 10000 + date.month * 100 + date.day : NaN;
+};
+
+export const compareDates = (a: string, b: string): number => dateKey(a) - dateKey(b);
+
+// Sort items ascending by a date string without reparsing on every comparison
+export const sortByDate = <T>(items: T[], getDate: (item: T) => string): T[] => {
+    const keyed = items.map(item => ({ item, key: dateKey(getDate(item)) }));
+    keyed.sort((a, b) => a.key - b.key);
+    return keyed.map(k => k.item);
+};
+
+// Whole days since 1970-01-01, independent of the local time zone
+export const dayNumber = (date: CalendarDate): number => Date.UTC(date.year, date.month - 1, date.day) / MS_PER_DAY;
+
+export const daysBetween = (from: CalendarDate, to: CalendarDate): number => dayNumber(to) - dayNumber(from);
+
+export const yearsBetween = (from: CalendarDate, to: CalendarDate): number => daysBetween(from, to) / 365.25;
+
+export const addDays = (date: CalendarDate, days: number): CalendarDate => {
+    const d = new Date(Date.UTC(date.year, date.month - 1, date.day + days));
+    return { year: d.getUTCFullYear(), month: d.getUTCMonth() + 1, day: d.getUTCDate() };
+};
+
+// Calendar month arithmetic, clamping to the last day (e.g. 3/31 minus one month is 2/28 or 2/29)
+export const addMonths = (date: CalendarDate, months: number): CalendarDate => {
+    const index = date.year * 12 + (date.month - 1) + months;
+    const year = Math.floor(index / 12);
+    const month = index - year * 12 + 1;
+    return { year, month, day: Math.min(date.day, daysInMonth(year, month)) };
+};
+
+export const addYears = (date: CalendarDate, years: number): CalendarDate => addMonths(date, years * 12);
+
+// Monday = 0 ... Sunday = 6
+const weekdayIndex = (date: CalendarDate): number => (new Date(Date.UTC(date.year, date.month - 1, date.day)).getUTCDay() + 6) % 7;
+
+export const isWeekend = (date: CalendarDate): boolean => weekdayIndex(date) >= 5;
+
+export const quarterOf = (date: CalendarDate): number => Math.floor((date.month - 1) / 3) + 1;
+
+export const endOfMonth = (date: CalendarDate): CalendarDate => ({
+    year: date.year,
+    month: date.month,
+    day: daysInMonth(date.year, date.month),
+});
+
+export const endOfQuarter = (date: CalendarDate): CalendarDate => {
+    const month = quarterOf(date) * 3;
+    return { year: date.year, month, day: daysInMonth(date.year, month) };
+};
+
+export const isMonthEnd = (date: CalendarDate): boolean => date.day === daysInMonth(date.year, date.month);
+
+export const isQuarterEnd = (date: CalendarDate): boolean => date.month % 3 === 0 && isMonthEnd(date);
+
+// Period label used for grouping: 2025W02 (ISO week), 2025/03 (month), 2025Q1 (quarter), 2025 (year)
+export type PeriodType = 'week' | 'month' | 'quarter' | 'year';
+
+export const periodKey = (date: CalendarDate, period: PeriodType): string => {
+    switch (period) {
+        case 'week': {
+            // ISO weeks belong to the year of their Thursday
+            const thursday = addDays(date, 3 - weekdayIndex(date));
+            const week = Math.floor(daysBetween({ year: thursday.year, month: 1, day: 1 }, thursday) / 7) + 1;
+            return `${thursday.year}W${pad(week)}`;
+        }
+        case 'month':
+            return `${date.year}/${pad(date.month)}`;
+        case 'quarter':
+            return `${date.year}Q${quarterOf(date)}`;
+        case 'year':
+            return String(date.year);
+    }
+};
+
+// Indices of the last observation in each week/month/quarter/year of an ascending date list.
+// With a trading calendar a period ends on its last TWSE session: observations on days the exchange
+// was closed (e.g. offshore NAVs over Lunar New Year) are skipped, and a trailing period that hasn't
+// reached its last session yet is left out.
+export const periodEndIndices = (dates: string[], period: PeriodType, calendar?: TradingCalendar): number[] => {
+    const indices: number[] = [];
+    let previousKey: string | null = null;
+    dates.forEach((input, i) => {
+        const date = parseDate(input);
+        if (!date || (calendar && !calendar.isTradingDay(date))) return;
+        const key = periodKey(date, period);
+        if (key === previousKey) {
+            indices[indices.length - 1] = i;
+        } else {
+            indices.push(i);
+            previousKey = key;
+        }
+    });
+    if (calendar && indices.length > 0) {
+        const last = parseDate(dates[indices[indices.length - 1]])!;
+        if (dayNumber(last) < dayNumber(calendar.lastTradingDayOfPeriod(last, period))) indices.pop();
+    }
+    return indices;
+};
+
+// TWSE trading days. TWSE closures (Lunar New Year, typhoon days, make-up sessions) don't follow a
+// rule, so the calendar is built from dates the market actually traded — e.g. the 市價 history axis or
+// chips/dates.json. Outside the observed range it falls back to "every weekday".
+export class TradingCalendar {
+    private readonly days: number[]; // Ascending dayNumbers of observed sessions
+    private readonly daySet: Set<number>;
+
+    constructor(tradingDates: Iterable<string>) {
+        const days = new Set<number>();
+        for (const input of tradingDates) {
+            const date = parseDate(input);
+            if (date) days.add(dayNumber(date));
+        }
+        this.days = Array.from(days).sort((a, b) => a - b);
+        this.daySet = days;
+    }
+
+    get firstDay(): CalendarDate | null {
+        return this.days.length > 0 ? addDays({ year: 1970, month: 1, day: 1 }, this.days[0]) : null;
+    }
+
+    get lastDay(): CalendarDate | null {
+        return this.days.length > 0 ? addDays({ year: 1970, month: 1, day: 1 }, this.days[this.days.length - 1]) : null;
+    }
+
+    private covers(day: number): boolean {
+        return this.days.length > 0 && day >= this.days[0] && day <= this.days[this.days.length - 1];
+    }
+
+    isTradingDay(date: CalendarDate): boolean {
+        const day = dayNumber(date);
+        return this.covers(day) ? this.daySet.has(day) : !isWeekend(date);
+    }
+
+    // The given date if it traded, otherwise the closest earlier session
+    onOrBefore(date: CalendarDate): CalendarDate {
+        let current = date;
+        while (!this.isTradingDay(current)) current = addDays(current, -1);
+        return current;
+    }
+
+    // The given date if it traded, otherwise the closest later session
+    onOrAfter(date: CalendarDate): CalendarDate {
+        let current = date;
+        while (!this.isTradingDay(current)) current = addDays(current, 1);
+        return current;
+    }
+
+    previous(date: CalendarDate): CalendarDate {
+        return this.onOrBefore(addDays(date, -1));
+    }
+
+    next(date: CalendarDate): CalendarDate {
+        return this.onOrAfter(addDays(date, 1));
+    }
+
+    lastTradingDayOfMonth(year: number, month: number): CalendarDate {
+        return this.onOrBefore(endOfMonth({ year, month, day: 1 }));
+    }
+
+    lastTradingDayOfQuarter(year: number, quarter: number): CalendarDate {
+        return this.lastTradingDayOfMonth(year, quarter * 3);
+    }
+
+    // Last session of the ISO week, month, quarter or year containing the date
+    lastTradingDayOfPeriod(date: CalendarDate, period: PeriodType): CalendarDate {
+        switch (period) {
+            case 'week':
+                return this.onOrBefore(addDays(date, 6 - weekdayIndex(date)));
+            case 'month':
+                return this.lastTradingDayOfMonth(date.year, date.month);
+            case 'quarter':
+                return this.lastTradingDayOfQuarter(date.year, quarterOf(date));
+            case 'year':
+                return this.lastTradingDayOfMonth(date.year, 12);
+        }
+    }
+
+    // Sessions between two dates, inclusive
+    tradingDaysBetween(from: CalendarDate, to: CalendarDate): number {
+        let count = 0;
+        for (let current = from; dayNumber(current) <= dayNumber(to); current = addDays(current, 1)) {
+            if (this.isTradingDay(current)) count++;
+        }
+        return count;
+    }
+}
@@ -0,0 +1,193 @@
+import Papa from 'papaparse';
+import type {
+    BrokerTradeRow,
+    CsvSource,
+    CsvWorkerMessage,
+    CsvWorkerResponse,
+    FundHistoryMatrix,
+} from './csvParserProtocol';
+
+// Off-main-thread CSV decoding and parsing. Loaded through CsvWorkerService, never imported directly.
+
+const DATE_COLUMN = /^\d{4}\/\d{1,2}\/\d{1,2}$/;
+
+const decode = (source: CsvSource): string => {
+    if ('text' in source) return source.text;
+    if (source.encoding === 'big5') {
+        try {
+            return new TextDecoder('big5', { fatal: true }).decode(source.buffer);
+        } catch {
+            // Not valid Big5, the file was exported as UTF-8
+        }
+    }
+    return new TextDecoder('utf-8').decode(source.buffer);
+};
+
+const parseRows = (text: string): string[][] =>
+    Papa.parse<string[]>(text, { header: false, skipEmptyLines: true }).data;
+
+// The exported CSVs open with a "Current" line and a blank line before the real header.
+// Returns the index of the first row whose first cell is one of the given header names.
+const findHeaderRow = (rows: string[][], firstColumns: string[], maxScan = 10): number => {
+    for (let i = 0; i < Math.min(maxScan, rows.length); i++) {
+        const first = rows[i]?.[0]?.replace(/^\uFEFF/, '').trim();
+        if (first && firstColumns.includes(first)) return i;
+    }
+    return -1;
+};
+
+const parseTable = (text: string, firstColumns: string[]): Record<string, string>[] => {
+    const rawData = parseRows(text);
+    const headerRowIndex = findHeaderRow(rawData, firstColumns);
+    if (headerRowIndex === -1) {
+        throw new Error(`Could not find header row starting with ${firstColumns.join('/')}`);
+    }
+
+    const headers = rawData[headerRowIndex].map(h => h.replace(/^\uFEFF/, '').trim());
+    return rawData.slice(headerRowIndex + 1).map(row => {
+        const obj: Record<string, string> = {};
+        headers.forEach((header, index) => {
+            obj[header] = row[index]?.trim() ?? '';
+        });
+        return obj;
+    }).filter(row => row[headers[0]]);
+};
+
+// Header-keyed rows, streamed back in batches so the caller can render early. Returns the row count.
+const parseRecords = (id: number, text: string, batchSize = 1000): number => {
+    let count = 0;
+    let batch: Record<string, string>[] = [];
+    Papa.parse<Record<string, string>>(text, {
+        header: true,
+        skipEmptyLines: true,
+        step: (results) => {
+            batch.push(results.data);
+            if (batch.length >= batchSize) {
+                post({ id, type: 'chunk', rows: batch });
+                count += batch.length;
+                batch = [];
+            }
+        },
+    });
+    if (batch.length > 0) {
+        post({ id, type: 'chunk', rows: batch });
+        count += batch.length;
+    }
+    return count;
+};
+
+const parseHistory = (text: string): FundHistoryMatrix => {
+    const rawData = parseRows(text);
+    const headerRowIndex = findHeaderRow(rawData, ['基金碼']);
+    if (headerRowIndex === -1) {
+        throw new Error('Could not find header row with 基金碼');
+    }
+
+    const dateColumns = rawData[headerRowIndex]
+        .map((name, index) => ({ name: name.trim(), index }))
+        .filter(col => DATE_COLUMN.test(col.name));
+
+    const fundIds: string[] = [];
+    const rows: Float64Array[] = [];
+    rawData.slice(headerRowIndex + 1).forEach(row => {
+        const fundId = row[0]?.trim();
+        if (!fundId) return;
+
+        const values = new Float64Array(dateColumns.length);
+        let hasValue = false;
+        dateColumns.forEach(({ index }, i) => {
+            values[i] = parseFloat(row[index]?.replace(/,/g, '') ?? '');
+            if (!isNaN(values[i])) hasValue = true;
+        });
+        if (hasValue) {
+            fundIds.push(fundId);
+            rows.push(values);
+        }
+    });
+
+    const values = new Float64Array(fundIds.length * dateColumns.length);
+    rows.forEach((row, i) => values.set(row, i * dateColumns.length));
+    return { dates: dateColumns.map(col => col.name), fundIds, values };
+};
+
+// TWSE layout: two brokers per line, columns 0-4 and 6-10 (序號, 券商, 價格, 買進股數, 賣出股數)
+const parseDoubleColumnCSV = (text: string): BrokerTradeRow[] => {
+    const lines = text.split(/\r?\n/).filter(line => line.trim() !== '');
+    const rows: BrokerTradeRow[] = [];
+
+    // Skip header (first line)
+    for (let i = 1; i < lines.length; i++) {
+        const parts = lines[i].split(',');
+
+        // Left column (0-4)
+        if (parts.length >= 5) {
+            const broker = parts[1]?.trim();
+            if (broker) {
+                rows.push({ broker, price: parseFloat(parts[2]), buyVol: parseInt(parts[3]) || 0, sellVol: parseInt(parts[4]) || 0 });
+            }
+        }
+
+        // Right column (6-10)
+        if (parts.length >= 11) {
+            const broker = parts[7]?.trim();
+            if (broker) {
+                rows.push({ broker, price: parseFloat(parts[8]), buyVol: parseInt(parts[9]) || 0, sellVol: parseInt(parts[10]) || 0 });
+            }
+        }
+    }
+    return rows;
+};
+
+// TPEx layout: a title block, then quoted rows such as "1","1040 臺銀證券","56.50","1000","0"
+const parseOTCcsv = (text: string): BrokerTradeRow[] => {
+    const lines = text.split(/\r?\n/).filter(line => line.trim() !== '');
+    const rows: BrokerTradeRow[] = [];
+
+    // Look for the header line "序號,券商,價格,買進股數,賣出股數"
+    const headerIndex = lines.findIndex(line => line.includes('序號,券商,價格'));
+    for (let i = headerIndex + 1; i < lines.length; i++) {
+        const parts = lines[i].split(',').map(p => p.trim().replace(/^"|"$/g, ''));
+        if (parts.length >= 5 && parts[1]) {
+            rows.push({ broker: parts[1], price: parseFloat(parts[2]), buyVol: parseInt(parts[3]) || 0, sellVol: parseInt(parts[4]) || 0 });
+        }
+    }
+    return rows;
+};
+
+const parseBrokerTrades = (text: string): BrokerTradeRow[] => {
+    if (text.includes('券商買賣證券成交價量資訊')) {
+        return parseOTCcsv(text);
+    }
+    const rows = parseDoubleColumnCSV(text);
+    // Some TPEx exports lack the title line; try that layout before giving up
+    return rows.length > 0 ? rows : parseOTCcsv(text);
+};
+
+const post = (response: CsvWorkerResponse, transfer: Transferable[] = []) => {
+    self.postMessage(response, { transfer });
+};
+
+self.onmessage = (event: MessageEvent<CsvWorkerMessage>) => {
+    const request = event.data;
+    try {
+        const text = decode(request.source);
+        switch (request.op) {
+            case 'parseTable':
+                post({ id: request.id, type: 'result', result: parseTable(text, request.firstColumns) });
+                break;
+            case 'parseRecords':
+                post({ id: request.id, type: 'result', result: parseRecords(request.id, text, request.batchSize) });
+                break;
+            case 'parseHistory': {
+                const matrix = parseHistory(text);
+                post({ id: request.id, type: 'result', result: matrix }, [matrix.values.buffer]);
+                break;
+            }
+            case 'parseBrokerTrades':
+                post({ id: request.id, type: 'result', result: parseBrokerTrades(text) });
+                break;
+        }
+    } catch (error) {
+        post({ id: request.id, type: 'error', message: error instanceof Error ? error.message : String(error) });
+    }
+};
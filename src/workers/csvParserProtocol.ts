@@ -0,0 +1,43 @@
+// Messages exchanged between CsvWorkerService and csvParser.worker.ts
+
+// CSV input: text already decoded on the main thread, or raw bytes decoded in the worker.
+// 'big5' tries Big5 first and falls back to UTF-8 (TWSE/TPEx broker files come in either).
+export type CsvSource =
+    | { text: string }
+    | { buffer: ArrayBuffer; encoding?: 'utf-8' | 'big5' };
+
+// One broker line of a daily 買賣日報表 file
+export interface BrokerTradeRow {
+    broker: string;
+    price: number;
+    buyVol: number;
+    sellVol: number;
+}
+
+// A wide "基金碼, date, date, ..." history file reshaped into a row-major matrix.
+// Only funds with at least one value are kept; missing cells are NaN.
+export interface FundHistoryMatrix {
+    dates: string[]; // Column order of the source file, YYYY/M/D
+    fundIds: string[];
+    values: Float64Array; // fundIds.length * dates.length
+}
+
+export type CsvWorkerRequest =
+    | { op: 'parseTable'; source: CsvSource; firstColumns: string[] }
+    | { op: 'parseRecords'; source: CsvSource; batchSize?: number }
+    | { op: 'parseHistory'; source: CsvSource }
+    | { op: 'parseBrokerTrades'; source: CsvSource };
+
+export interface CsvWorkerResults {
+    parseTable: Record<string, string>[]; // Rows keyed by the detected header
+    parseRecords: number; // Row count; the rows themselves arrive as 'chunk' messages
+    parseHistory: FundHistoryMatrix;
+    parseBrokerTrades: BrokerTradeRow[];
+}
+
+export type CsvWorkerMessage = CsvWorkerRequest & { id: number };
+
+export type CsvWorkerResponse =
+    | { id: number; type: 'result'; result: CsvWorkerResults[keyof CsvWorkerResults] }
+    | { id: number; type: 'chunk'; rows: Record<string, string>[] } // parseRecords rows, keyed by the first line
+    | { id: number; type: 'error'; message: string };